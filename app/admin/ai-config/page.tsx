@@ -10,6 +10,7 @@ import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import { RefreshCw, CheckCircle, XCircle, AlertCircle } from "lucide-react";
 import TestCallButton from "@/components/admin/TestCallButton";
+import WebhookSecretRotation from "@/components/admin/WebhookSecretRotation";
 
 interface AIConfigData {
   vapi_voice_id: string;
@@ -53,7 +54,6 @@ interface AssistantDetails {
   };
   server: {
     url: string;
-    secret: string;
   };
 }
 
@@ -477,6 +477,9 @@ export default function AIConfigPage() {
           </CardContent>
         </Card>
       )}
+
+      {/* Webhook Secret */}
+      {practiceData?.vapi_assistant_id && <WebhookSecretRotation />}
     </div>
   );
 } 
\ No newline at end of file
@@ -19,6 +19,11 @@ interface LaineAppointment {
   booked_appointment_start_time?: string;
   booked_appointment_end_time?: string;
   booked_appointment_note?: string;
+  booked_appointment_cancelled_at?: string;
+  booked_appointment_cancellation_reason?: string;
+  booked_appointment_ehr_updated_at?: string;
+  ehr_appointment_foreign_id?: string;
+  patient_ehr_foreign_id?: string;
   call_status?: string;
   detected_intent?: string;
 }
@@ -122,6 +127,11 @@ export default function AppointmentsPage() {
                     </TableCell>
                     <TableCell>
                       {formatDateTime(appointment.booked_appointment_start_time)}
+                      {appointment.booked_appointment_ehr_updated_at && (
+                        <div className="text-xs text-muted-foreground">
+                          Changed in EHR {formatDateTime(appointment.booked_appointment_ehr_updated_at)}
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell>
                       <code className="text-sm bg-muted px-1 rounded">
@@ -132,6 +142,9 @@ export default function AppointmentsPage() {
                       <code className="text-sm bg-muted px-1 rounded">
                         {appointment.booked_appointment_patient_id || "N/A"}
                       </code>
+                      {appointment.patient_ehr_foreign_id && (
+                        <div className="text-xs text-muted-foreground">EHR: {appointment.patient_ehr_foreign_id}</div>
+                      )}
                     </TableCell>
                     <TableCell>
                       <code className="text-sm bg-muted px-1 rounded">
@@ -139,9 +152,15 @@ export default function AppointmentsPage() {
                       </code>
                     </TableCell>
                     <TableCell>
-                      <Badge variant={getStatusBadgeVariant(appointment.call_status)}>
-                        {appointment.call_status || "Unknown"}
-                      </Badge>
+                      {appointment.booked_appointment_cancelled_at ? (
+                        <Badge variant="destructive" title={appointment.booked_appointment_cancellation_reason || undefined}>
+                          CANCELLED
+                        </Badge>
+                      ) : (
+                        <Badge variant={getStatusBadgeVariant(appointment.call_status)}>
+                          {appointment.call_status || "Unknown"}
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell>
                       {appointment.booked_appointment_note || "No note"}
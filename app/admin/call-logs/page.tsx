@@ -27,9 +27,21 @@ interface CallLog {
   vapi_transcript_url?: string | null;
 }
 
+interface ToolInvocation {
+  id: string;
+  tool_name: string;
+  arguments: Record<string, unknown> | null;
+  success: boolean | null;
+  error_code: string | null;
+  nexhealth_request_count: number;
+  duration_ms: number;
+  created_at: string;
+}
+
 interface CallLogDetail extends CallLog {
   transcript_text: string | null;
   vapi_transcript_url: string | null;
+  tool_invocations?: ToolInvocation[];
 }
 
 interface Pagination {
@@ -483,6 +495,52 @@ export default function CallLogsPage() {
                   </Card>
                 </div>
 
+                {/* Tool Timeline */}
+                {selectedLog.tool_invocations && selectedLog.tool_invocations.length > 0 && (
+                  <Card>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-sm flex items-center justify-between">
+                        Tool Timeline
+                        <Badge variant="outline" className="text-xs">
+                          {selectedLog.tool_invocations.length} calls
+                        </Badge>
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <ol className="relative border-l ml-2 space-y-4">
+                        {selectedLog.tool_invocations.map((invocation) => (
+                          <li key={invocation.id} className="ml-4">
+                            <div className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border bg-background" />
+                            <div className="flex items-center gap-2 text-sm">
+                              <span className="text-xs text-muted-foreground">
+                                {new Date(invocation.created_at).toLocaleTimeString()}
+                              </span>
+                              <code className="font-medium">{invocation.tool_name}</code>
+                              {invocation.success === false ? (
+                                <Badge variant="destructive" className="text-xs">
+                                  {invocation.error_code || "Failed"}
+                                </Badge>
+                              ) : (
+                                <Badge variant={invocation.success ? "default" : "outline"} className="text-xs">
+                                  {invocation.success ? "Success" : "Unknown"}
+                                </Badge>
+                              )}
+                              <span className="text-xs text-muted-foreground ml-auto">
+                                {invocation.nexhealth_request_count} NexHealth request{invocation.nexhealth_request_count === 1 ? "" : "s"} · {invocation.duration_ms} ms
+                              </span>
+                            </div>
+                            {invocation.arguments && Object.keys(invocation.arguments).length > 0 && (
+                              <pre className="mt-1 text-xs bg-muted p-2 rounded whitespace-pre-wrap break-all">
+                                {JSON.stringify(invocation.arguments, null, 2)}
+                              </pre>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Full Width Transcript Section */}
                 {selectedLog.transcript_text ? (
                   <Card>
@@ -26,6 +26,7 @@ interface LainePatient {
   last_intent: string | null;
   has_booked_appointment: boolean;
   has_ehr_sync: boolean;
+  ehr_patient_id: string | null;
   interaction_count: number;
   first_name: string | null;
   last_name: string | null;
@@ -347,6 +348,11 @@ export default function PatientsArchivePage() {
                         <div className="font-mono text-sm text-muted-foreground">
                           {patient.nexhealth_patient_id}
                         </div>
+                        {patient.ehr_patient_id && (
+                          <div className="font-mono text-xs text-muted-foreground">
+                            EHR: {patient.ehr_patient_id}
+                          </div>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -9,6 +9,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { toast } from "sonner";
+import OfficeLocations, { OfficeLocation } from "@/components/admin/OfficeLocations";
+import OfficeClosures from "@/components/admin/OfficeClosures";
+import WebhookEvents from "@/components/admin/WebhookEvents";
+import OutboundWebhooks from "@/components/admin/OutboundWebhooks";
 
 interface PracticeData {
   name: string;
@@ -17,6 +21,7 @@ interface PracticeData {
   nexhealth_selected_provider_ids: string[];
   nexhealth_default_operatory_ids: string[];
   timezone: string;
+  nexhealth_api_key: string; // Write-only; never loaded back from the server
 }
 
 interface Provider {
@@ -42,10 +47,19 @@ interface LocationDetails {
   requires_operatory: boolean;
 }
 
+interface ReferenceCacheStats {
+  hits: number;
+  misses: number;
+  hit_rate: number | null;
+  entries: number;
+}
+
 interface ServiceMapping {
   id: string;
+  location_id: string | null;
   spoken_service_name: string;
   nexhealth_appointment_type_id: string;
+  synonyms: string[];
 }
 
 interface WebhookStatus {
@@ -64,8 +78,11 @@ export default function SetupPage() {
     nexhealth_selected_provider_ids: [],
     nexhealth_default_operatory_ids: [],
     timezone: "America/New_York",
+    nexhealth_api_key: "",
   });
   const [loading, setLoading] = useState(false);
+  const [apiKeyConfigured, setApiKeyConfigured] = useState(false);
+  const [credentialsTesting, setCredentialsTesting] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
   
   // NexHealth data
@@ -80,11 +97,19 @@ export default function SetupPage() {
   const [operatoriesLoading, setOperatoriesLoading] = useState(false);
   const [appointmentTypesLoading, setAppointmentTypesLoading] = useState(false);
   const [locationDetailsLoading, setLocationDetailsLoading] = useState(false);
+  const [nexhealthDataRefreshing, setNexhealthDataRefreshing] = useState(false);
+  const [referenceCacheStats, setReferenceCacheStats] = useState<ReferenceCacheStats | null>(null);
   
   // Service mapping form
   const [newServiceName, setNewServiceName] = useState("");
+  const [newServiceSynonyms, setNewServiceSynonyms] = useState("");
   const [selectedAppointmentTypeId, setSelectedAppointmentTypeId] = useState("");
   const [serviceMappingLoading, setServiceMappingLoading] = useState(false);
+  const [mappingLocationId, setMappingLocationId] = useState("all");
+
+  // Offices
+  const [offices, setOffices] = useState<OfficeLocation[]>([]);
+  const [officesRefreshKey, setOfficesRefreshKey] = useState(0);
 
   // New appointment type creation
   const [newApptTypeName, setNewApptTypeName] = useState("");
@@ -113,7 +138,9 @@ export default function SetupPage() {
               nexhealth_selected_provider_ids: data.practice.nexhealth_selected_provider_ids || [],
               nexhealth_default_operatory_ids: data.practice.nexhealth_default_operatory_ids || [],
               timezone: data.practice.timezone || "America/New_York",
+              nexhealth_api_key: "",
             });
+            setApiKeyConfigured(!!data.practice.nexhealth_api_key_configured);
             // Also fetch webhook status after practice data loads
             await fetchWebhookStatus();
           }
@@ -160,7 +187,11 @@ export default function SetupPage() {
       });
 
       if (response.ok) {
+        const data = await response.json();
+        setApiKeyConfigured(!!data.practice?.nexhealth_api_key_configured);
+        setFormData(prev => ({ ...prev, nexhealth_api_key: "" }));
         toast.success("Practice settings saved successfully");
+        setOfficesRefreshKey(key => key + 1);
         // Refresh webhook status after successful save
         await fetchWebhookStatus();
       } else {
@@ -178,6 +209,35 @@ export default function SetupPage() {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const testNexHealthCredentials = async () => {
+    setCredentialsTesting(true);
+    try {
+      const response = await fetch("/api/practice/setup", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          action: "test_nexhealth_credentials",
+          nexhealth_api_key: formData.nexhealth_api_key,
+          nexhealth_subdomain: formData.nexhealth_subdomain,
+        }),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        toast.success(data.message || "Connected to NexHealth successfully");
+      } else {
+        toast.error(data.message || "NexHealth connection test failed");
+      }
+    } catch (error) {
+      console.error("Error testing NexHealth credentials:", error);
+      toast.error("Failed to test NexHealth credentials");
+    } finally {
+      setCredentialsTesting(false);
+    }
+  };
+
   const fetchProviders = async () => {
     setProvidersLoading(true);
     try {
@@ -198,6 +258,36 @@ export default function SetupPage() {
     }
   };
 
+  // Clear cached NexHealth reference data, then reload whatever lists are already shown
+  const refreshNexHealthData = async () => {
+    setNexhealthDataRefreshing(true);
+    try {
+      const response = await fetch("/api/nexhealth/reference-cache", { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to refresh NexHealth data");
+      }
+
+      await Promise.all([
+        providers.length > 0 && fetchProviders(),
+        operatories.length > 0 && fetchOperatories(),
+        appointmentTypes.length > 0 && fetchAppointmentTypes(),
+        locationDetails && fetchLocationDetails(),
+      ]);
+
+      const statsResponse = await fetch("/api/nexhealth/reference-cache");
+      if (statsResponse.ok) {
+        setReferenceCacheStats((await statsResponse.json()).stats);
+      }
+      toast.success("NexHealth data refreshed");
+    } catch (error) {
+      console.error("Error refreshing NexHealth data:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to refresh NexHealth data");
+    } finally {
+      setNexhealthDataRefreshing(false);
+    }
+  };
+
   const fetchLocationDetails = async () => {
     setLocationDetailsLoading(true);
     try {
@@ -241,7 +331,10 @@ export default function SetupPage() {
   const fetchAppointmentTypes = async () => {
     setAppointmentTypesLoading(true);
     try {
-      const response = await fetch("/api/nexhealth/appointment-types");
+      // Appointment types can differ between offices
+      const mappingOffice = offices.find(office => office.id === mappingLocationId);
+      const query = mappingOffice ? `?locationId=${encodeURIComponent(mappingOffice.nexhealth_location_id)}` : "";
+      const response = await fetch(`/api/nexhealth/appointment-types${query}`);
       if (response.ok) {
         const data = await response.json();
         setAppointmentTypes(data.appointmentTypes || []);
@@ -292,6 +385,8 @@ export default function SetupPage() {
         body: JSON.stringify({
           spoken_service_name: newServiceName,
           nexhealth_appointment_type_id: selectedAppointmentTypeId,
+          synonyms: newServiceSynonyms,
+          location_id: mappingLocationId === "all" ? null : mappingLocationId,
         }),
       });
 
@@ -299,6 +394,7 @@ export default function SetupPage() {
         const data = await response.json();
         setServiceMappings(prev => [...prev, data.serviceMapping]);
         setNewServiceName("");
+        setNewServiceSynonyms("");
         setSelectedAppointmentTypeId("");
         toast.success("Service mapping added successfully");
       } else {
@@ -447,6 +543,33 @@ export default function SetupPage() {
                 </p>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="nexhealth_api_key">NexHealth API Key</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="nexhealth_api_key"
+                    type="password"
+                    autoComplete="off"
+                    value={formData.nexhealth_api_key}
+                    onChange={(e) => handleInputChange("nexhealth_api_key", e.target.value)}
+                    placeholder={apiKeyConfigured ? "•••••••• (saved, enter a new key to replace it)" : "Your NexHealth API key"}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={testNexHealthCredentials}
+                    disabled={credentialsTesting || (!formData.nexhealth_api_key && !apiKeyConfigured)}
+                  >
+                    {credentialsTesting ? "Testing..." : "Test Connection"}
+                  </Button>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {apiKeyConfigured
+                    ? "A key is saved for this practice. It is stored encrypted and never shown again."
+                    : "Leave blank to use the platform's shared NexHealth credentials."}
+                </p>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="nexhealth_location_id">Primary Location ID</Label>
                 <Input
@@ -486,6 +609,16 @@ export default function SetupPage() {
         </CardContent>
       </Card>
 
+      {/* Offices */}
+      {formData.nexhealth_subdomain && formData.nexhealth_location_id && (
+        <OfficeLocations refreshKey={officesRefreshKey} onLocationsChange={setOffices} />
+      )}
+
+      {/* Holidays & Closures */}
+      {formData.nexhealth_subdomain && formData.nexhealth_location_id && (
+        <OfficeClosures offices={offices} />
+      )}
+
       {/* Webhook Status */}
       {formData.nexhealth_subdomain && (
         <Card>
@@ -533,6 +666,12 @@ export default function SetupPage() {
         </Card>
       )}
 
+      {/* Webhook Events */}
+      <WebhookEvents />
+
+      {/* Outbound Webhooks */}
+      <OutboundWebhooks />
+
       {/* Provider Selection */}
       {formData.nexhealth_subdomain && formData.nexhealth_location_id && (
         <Card>
@@ -543,9 +682,18 @@ export default function SetupPage() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <Button onClick={fetchProviders} disabled={providersLoading}>
-              {providersLoading ? "Fetching..." : "Fetch Providers"}
-            </Button>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button onClick={fetchProviders} disabled={providersLoading}>
+                {providersLoading ? "Fetching..." : "Fetch Providers"}
+              </Button>
+              <Button variant="outline" onClick={refreshNexHealthData} disabled={nexhealthDataRefreshing}>
+                {nexhealthDataRefreshing ? "Refreshing..." : "Refresh NexHealth Data"}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Providers, operatories, appointment types and location details are cached for a few minutes. Refresh after changing them in NexHealth.
+              {referenceCacheStats && ` Cache: ${referenceCacheStats.hits} hits, ${referenceCacheStats.misses} misses, ${referenceCacheStats.entries} entries.`}
+            </p>
             
             {providers.length > 0 && (
               <div className="space-y-2">
@@ -692,18 +840,49 @@ export default function SetupPage() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            {offices.length > 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="mapping_office">Office</Label>
+                <Select
+                  value={mappingLocationId}
+                  onValueChange={(value) => {
+                    setMappingLocationId(value);
+                    setAppointmentTypes([]);
+                    setSelectedAppointmentTypeId("");
+                  }}
+                >
+                  <SelectTrigger id="mapping_office">
+                    <SelectValue placeholder="Select office" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All offices</SelectItem>
+                    {offices.map((office) => (
+                      <SelectItem key={office.id} value={office.id}>{office.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  A mapping for one office overrides an all-offices mapping with the same name for calls to that office.
+                </p>
+              </div>
+            )}
             <Button onClick={fetchAppointmentTypes} disabled={appointmentTypesLoading}>
               {appointmentTypesLoading ? "Fetching..." : "Fetch NexHealth Appointment Types"}
             </Button>
             
             {appointmentTypes.length > 0 && (
               <div className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                   <Input
                     placeholder="Spoken service name (e.g., 'cleaning')"
                     value={newServiceName}
                     onChange={(e) => setNewServiceName(e.target.value)}
                   />
+                  <Input
+                    placeholder="Synonyms, comma-separated (optional)"
+                    value={newServiceSynonyms}
+                    onChange={(e) => setNewServiceSynonyms(e.target.value)}
+                  />
                   <Select value={selectedAppointmentTypeId} onValueChange={setSelectedAppointmentTypeId}>
                     <SelectTrigger>
                       <SelectValue placeholder="Select appointment type" />
@@ -728,6 +907,8 @@ export default function SetupPage() {
                       <TableHeader>
                         <TableRow>
                           <TableHead>Spoken Service Name</TableHead>
+                          {offices.length > 1 && <TableHead>Office</TableHead>}
+                          <TableHead>Synonyms</TableHead>
                           <TableHead>NexHealth Appointment Type</TableHead>
                           <TableHead>Actions</TableHead>
                         </TableRow>
@@ -738,6 +919,12 @@ export default function SetupPage() {
                           return (
                             <TableRow key={mapping.id}>
                               <TableCell>{mapping.spoken_service_name}</TableCell>
+                              {offices.length > 1 && (
+                                <TableCell>
+                                  {offices.find(office => office.id === mapping.location_id)?.name || "All offices"}
+                                </TableCell>
+                              )}
+                              <TableCell>{mapping.synonyms?.join(", ") || "—"}</TableCell>
                               <TableCell>{appointmentType?.name || mapping.nexhealth_appointment_type_id}</TableCell>
                               <TableCell>
                                 <Button
@@ -2,6 +2,9 @@ import { auth } from "@clerk/nextjs/server";
 import { NextRequest, NextResponse } from "next/server";
 import db from "@/lib/prisma";
 import { getVapiService } from "@/lib/vapi.client";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/call-logs/[logId]");
 
 export async function GET(
   request: NextRequest,
@@ -26,7 +29,7 @@ export async function GET(
     // Await the params
     const { logId } = await params;
 
-    console.log(`Fetching call log details for: ${logId}`);
+    log.info(`Fetching call log details for: ${logId}`);
 
     // First, try to get from local database
     let callLog = await db.callLog.findFirst({
@@ -51,19 +54,22 @@ export async function GET(
         summary: true,
         vapi_transcript_url: true,
         created_at: true,
+        tool_invocations: {
+          orderBy: { created_at: 'asc' },
+        },
       },
     });
 
     // If not found in database, try to fetch from Vapi API
     if (!callLog && practice.vapi_assistant_id && process.env.VAPI_API_KEY) {
-      console.log(`Call log ${logId} not found in database, trying Vapi API...`);
+      log.info(`Call log ${logId} not found in database, trying Vapi API...`);
       try {
         const vapiService = getVapiService();
         const vapiCall = await vapiService.getCallById(logId);
         
         // Verify this call belongs to the practice's assistant
         if (vapiCall.assistantId === practice.vapi_assistant_id) {
-          console.log(`Found call ${logId} in Vapi API, syncing to database...`);
+          log.info(`Found call ${logId} in Vapi API, syncing to database...`);
           
           // Sync to database
           const syncedCallLog = await db.callLog.upsert({
@@ -100,15 +106,18 @@ export async function GET(
               summary: true,
               vapi_transcript_url: true,
               created_at: true,
+              tool_invocations: {
+                orderBy: { created_at: 'asc' },
+              },
             },
           });
 
           callLog = syncedCallLog;
         } else {
-          console.log(`Call ${logId} belongs to different assistant (${vapiCall.assistantId}), access denied`);
+          log.info(`Call ${logId} belongs to different assistant (${vapiCall.assistantId}), access denied`);
         }
       } catch (vapiError) {
-        console.error(`Failed to fetch call ${logId} from Vapi API:`, vapiError);
+        log.error(`Failed to fetch call ${logId} from Vapi API`, vapiError);
       }
     }
 
@@ -124,11 +133,11 @@ export async function GET(
         : null,
     };
 
-    console.log(`Returning call log details for: ${callLog.vapi_call_id}`);
+    log.info(`Returning call log details for: ${callLog.vapi_call_id}`);
     return NextResponse.json({ callLog: maskedCallLog });
 
   } catch (error) {
-    console.error("Error fetching call log details:", error);
+    log.error("Error fetching call log details", error);
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
@@ -2,6 +2,9 @@ import { auth } from "@clerk/nextjs/server";
 import { NextRequest, NextResponse } from "next/server";
 import db from "@/lib/prisma";
 import { getVapiService, VapiCall } from "@/lib/vapi.client";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/call-logs");
 
 interface CallLogWithSource {
   id: string;
@@ -64,7 +67,7 @@ async function syncCallLogToDatabase(vapiCall: VapiCall, practiceId: string) {
       },
     });
   } catch (error) {
-    console.error(`Failed to sync call ${vapiCall.id} to database:`, error);
+    log.error(`Failed to sync call ${vapiCall.id} to database`, error);
   }
 }
 
@@ -95,7 +98,7 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get("limit") || "20");
     const offset = (page - 1) * limit;
 
-    console.log(`Fetching call logs for practice ${practice.id}, assistant ${practice.vapi_assistant_id}`);
+    log.info(`Fetching call logs for practice ${practice.id}, assistant ${practice.vapi_assistant_id}`);
 
     let allCallLogs: CallLogWithSource[] = [];
     let vapiError: string | null = null;
@@ -103,11 +106,11 @@ export async function GET(request: NextRequest) {
     // First, try to fetch from Vapi API
     try {
       if (process.env.VAPI_API_KEY) {
-        console.log("Fetching call logs from Vapi API...");
+        log.info("Fetching call logs from Vapi API...");
         const vapiService = getVapiService();
         const vapiCalls = await vapiService.getCallLogsForAssistant(practice.vapi_assistant_id, 100);
         
-        console.log(`Retrieved ${vapiCalls.length} calls from Vapi`);
+        log.info(`Retrieved ${vapiCalls.length} calls from Vapi`);
 
         // Convert Vapi calls to our CallLog format
         const vapiCallLogs = vapiCalls.map(call => mapVapiCallToCallLog(call, practice.id));
@@ -115,23 +118,23 @@ export async function GET(request: NextRequest) {
         // Sync new calls to database in background (don't await to avoid blocking response)
         vapiCalls.forEach(call => {
           syncCallLogToDatabase(call, practice.id).catch(error => {
-            console.error(`Background sync failed for call ${call.id}:`, error);
+            log.error(`Background sync failed for call ${call.id}`, error);
           });
         });
 
         allCallLogs = vapiCallLogs;
       } else {
         vapiError = "VAPI_API_KEY not configured";
-        console.warn("VAPI_API_KEY not configured, falling back to database only");
+        log.warn("VAPI_API_KEY not configured, falling back to database only");
       }
     } catch (error) {
       vapiError = error instanceof Error ? error.message : "Unknown Vapi API error";
-      console.error("Error fetching from Vapi API:", error);
+      log.error("Error fetching from Vapi API", error);
     }
 
     // If Vapi failed or returned no results, fall back to database
     if (allCallLogs.length === 0) {
-      console.log("Fetching call logs from local database...");
+      log.info("Fetching call logs from local database...");
       const dbCallLogs = await db.callLog.findMany({
         where: { practice_id: practice.id },
         orderBy: { call_timestamp_start: "desc" },
@@ -160,7 +163,7 @@ export async function GET(request: NextRequest) {
         source: 'database' as const
       }));
 
-      console.log(`Retrieved ${allCallLogs.length} calls from database`);
+      log.info(`Retrieved ${allCallLogs.length} calls from database`);
     }
 
     // Sort by timestamp (most recent first)
@@ -196,11 +199,11 @@ export async function GET(request: NextRequest) {
       }
     };
 
-    console.log(`Returning ${maskedCallLogs.length} call logs (page ${page}/${response.pagination.totalPages})`);
+    log.info(`Returning ${maskedCallLogs.length} call logs (page ${page}/${response.pagination.totalPages})`);
     return NextResponse.json(response);
 
   } catch (error) {
-    console.error("Error fetching call logs:", error);
+    log.error("Error fetching call logs", error);
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+import { sweepDueWebhookDeliveries } from "@/lib/outbound-webhooks.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/cron/outbound-webhooks");
+
+// timingSafeEqual throws on buffers of different lengths, so a short or long token is simply unequal
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+// Called every minute by the scheduler with "Authorization: Bearer $CRON_SECRET"
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    log.error("CRON_SECRET not configured. Refusing to sweep outbound webhooks.");
+    return NextResponse.json({ error: "Cron not configured" }, { status: 500 });
+  }
+
+  if (!safeEqual(request.headers.get("authorization") || "", `Bearer ${cronSecret}`)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await sweepDueWebhookDeliveries();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    log.error("Error sweeping outbound webhook deliveries", error);
+    return NextResponse.json(
+      { error: "Failed to sweep deliveries" },
+      { status: 500 }
+    );
+  }
+}
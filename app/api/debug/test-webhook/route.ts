@@ -1,6 +1,11 @@
 import { auth } from "@clerk/nextjs/server";
 import { NextRequest, NextResponse } from "next/server";
 import crypto from "crypto";
+import prisma from "@/lib/prisma";
+import { getPracticeWebhookSecret } from "@/lib/vapi-webhook-secrets.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/debug/test-webhook");
 
 export async function POST(request: NextRequest) {
   try {
@@ -22,8 +27,18 @@ export async function POST(request: NextRequest) {
     // Create a test webhook payload based on message type
     const testPayload = createTestPayload(messageType || 'end-of-call-report', assistantId, callId);
     
-    // Sign the payload
-    const WEBHOOK_SECRET = process.env.VAPI_WEBHOOK_SECRET || "laine-webhook-secret-change-me";
+    // Sign the payload with the secret the practice's assistant sends
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+    });
+    const WEBHOOK_SECRET = practice ? getPracticeWebhookSecret(practice) : null;
+
+    if (!WEBHOOK_SECRET) {
+      return NextResponse.json({
+        error: "No Vapi webhook secret configured. Save the AI configuration to provision one."
+      }, { status: 400 });
+    }
+
     const rawBody = JSON.stringify(testPayload);
     const signature = crypto
       .createHmac("sha256", WEBHOOK_SECRET)
@@ -32,17 +47,15 @@ export async function POST(request: NextRequest) {
     
     const expectedSignature = `sha256=${signature}`;
 
-    console.log("=== SENDING TEST WEBHOOK ===");
-    console.log("Assistant ID:", assistantId);
-    console.log("Call ID:", callId);
-    console.log("Message Type:", messageType);
-    console.log("Payload:", JSON.stringify(testPayload, null, 2));
-    console.log("Signature:", expectedSignature);
-
     // Send the test webhook to our own endpoint
     const webhookUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/vapi/tool-handler`;
-    
-    console.log("Sending to:", webhookUrl);
+
+    log.info("Sending test webhook", {
+      assistant_id: assistantId,
+      vapi_call_id: callId,
+      message_type: messageType,
+      webhook_url: webhookUrl,
+    });
     
     const response = await fetch(webhookUrl, {
       method: 'POST',
@@ -56,8 +69,7 @@ export async function POST(request: NextRequest) {
 
     const responseText = await response.text();
     
-    console.log("Webhook response status:", response.status);
-    console.log("Webhook response body:", responseText);
+    log.info("Test webhook response", { status: response.status });
 
     return NextResponse.json({
       success: true,
@@ -71,7 +83,7 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
-    console.error("Test webhook failed:", error);
+    log.error("Test webhook failed", error);
     return NextResponse.json(
       { 
         error: "Failed to send test webhook",
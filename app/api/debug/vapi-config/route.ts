@@ -1,6 +1,9 @@
 import { auth } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import db from "@/lib/prisma";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/debug/vapi-config");
 
 export async function GET() {
   try {
@@ -10,8 +13,7 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    console.log("=== VAPI DEBUG CONFIG CHECK ===");
-    console.log("User ID:", userId);
+    log.info("Vapi debug config check", { user_id: userId });
 
     // Get all practices and their assistant IDs
     const practices = await db.practice.findMany({
@@ -49,9 +51,12 @@ export async function GET() {
       webhookUrl: `${process.env.NEXT_PUBLIC_APP_URL}/api/vapi/tool-handler`
     };
 
-    console.log("Environment config:", envConfig);
-    console.log("All practices:", practices);
-    console.log("Current user practice:", userPractice);
+    log.debug("Vapi debug config", {
+      environment: envConfig,
+      practice_count: practices.length,
+      practice_id: userPractice?.id,
+      assistant_id: userPractice?.vapi_assistant_id,
+    });
 
     return NextResponse.json({
       timestamp: new Date().toISOString(),
@@ -67,7 +72,7 @@ export async function GET() {
     });
 
   } catch (error) {
-    console.error("Debug config check failed:", error);
+    log.error("Debug config check failed", error);
     return NextResponse.json(
       { 
         error: "Failed to get debug config",
@@ -1,6 +1,9 @@
 import { auth } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/laine-appointments");
 
 export async function GET() {
   try {
@@ -40,6 +43,11 @@ export async function GET() {
         booked_appointment_start_time: true,
         booked_appointment_end_time: true,
         booked_appointment_note: true,
+        booked_appointment_cancelled_at: true,
+        booked_appointment_cancellation_reason: true,
+        booked_appointment_ehr_updated_at: true,
+        ehr_appointment_foreign_id: true,
+        patient_ehr_foreign_id: true,
         call_status: true,
         detected_intent: true,
       },
@@ -50,7 +58,7 @@ export async function GET() {
 
     return NextResponse.json({ appointments: laineAppointments });
   } catch (error) {
-    console.error("Error fetching LAINE appointments:", error);
+    log.error("Error fetching LAINE appointments", error);
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
@@ -1,7 +1,10 @@
 import { auth } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
-import { getPatientById } from "@/lib/nexhealth.server";
+import { getNexHealthClient } from "@/lib/nexhealth.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/laine-patients");
 
 export async function GET() {
   try {
@@ -46,7 +49,8 @@ export async function GET() {
         call_status: true,
         detected_intent: true,
         booked_appointment_nexhealth_id: true,
-        ehr_appointment_foreign_id: true
+        ehr_appointment_foreign_id: true,
+        patient_ehr_foreign_id: true
       },
       orderBy: {
         call_timestamp_start: 'desc'
@@ -76,6 +80,7 @@ export async function GET() {
           last_intent: call.detected_intent,
           has_booked_appointment: !!call.booked_appointment_nexhealth_id,
           has_ehr_sync: !!call.ehr_appointment_foreign_id,
+          ehr_patient_id: call.patient_ehr_foreign_id,
           interaction_count: 0 // Will be updated below
         });
       }
@@ -96,10 +101,8 @@ export async function GET() {
       const patient = patientsData[i];
       
       try {
-        const nexhealthPatient = await getPatientById(
-          practice.nexhealth_subdomain,
-          patient.nexhealth_patient_id,
-          practice.nexhealth_location_id || undefined
+        const nexhealthPatient = await getNexHealthClient(practice.nexhealth_subdomain, practice.id).getPatient(
+          patient.nexhealth_patient_id
         );
 
         enrichedPatients.push({
@@ -111,7 +114,7 @@ export async function GET() {
           nexhealth_data_available: true
         });
       } catch (error) {
-        console.error(`Failed to fetch NexHealth data for patient ${patient.nexhealth_patient_id}:`, error);
+        log.error(`Failed to fetch NexHealth data for patient ${patient.nexhealth_patient_id}`, error);
         
         // Include patient without NexHealth enrichment
         enrichedPatients.push({
@@ -157,7 +160,7 @@ export async function GET() {
     });
 
   } catch (error) {
-    console.error("Error fetching LAINE patients:", error);
+    log.error("Error fetching LAINE patients", error);
     return NextResponse.json(
       { error: "Failed to fetch patients" },
       { status: 500 }
@@ -1,9 +1,12 @@
 import { auth } from "@clerk/nextjs/server";
 import { NextResponse, NextRequest } from "next/server";
 import prisma from "@/lib/prisma";
-import { getAppointmentTypes, createNexHealthAppointmentType } from "@/lib/nexhealth.server";
+import { getNexHealthClient } from "@/lib/nexhealth.server";
+import { createLogger } from "@/lib/logger.server";
 
-export async function GET() {
+const log = createLogger("api/nexhealth/appointment-types");
+
+export async function GET(request: NextRequest) {
   try {
     const { userId } = await auth();
     
@@ -14,21 +17,24 @@ export async function GET() {
     const practice = await prisma.practice.findUnique({
       where: { clerk_user_id: userId },
       select: {
+        id: true,
         nexhealth_subdomain: true,
         nexhealth_location_id: true,
       },
     });
 
-    if (!practice || !practice.nexhealth_subdomain || !practice.nexhealth_location_id) {
+    // Offices other than the primary one pass their own NexHealth location ID
+    const locationId = request.nextUrl.searchParams.get("locationId") || practice?.nexhealth_location_id;
+
+    if (!practice || !practice.nexhealth_subdomain || !locationId) {
       return NextResponse.json(
         { error: "Practice NexHealth configuration is incomplete. Please set subdomain and location ID first." },
         { status: 400 }
       );
     }
 
-    const appointmentTypes = await getAppointmentTypes(
-      practice.nexhealth_subdomain,
-      practice.nexhealth_location_id
+    const appointmentTypes = await getNexHealthClient(practice.nexhealth_subdomain, practice.id).getAppointmentTypes(
+      locationId
     );
 
     // Convert IDs to strings for consistency
@@ -39,7 +45,7 @@ export async function GET() {
 
     return NextResponse.json({ appointmentTypes: normalizedAppointmentTypes });
   } catch (error) {
-    console.error("Error fetching appointment types:", error);
+    log.error("Error fetching appointment types", error);
     return NextResponse.json(
       { error: "Failed to fetch appointment types from NexHealth" },
       { status: 500 }
@@ -54,7 +60,7 @@ export async function POST(request: NextRequest) {
 
     const practice = await prisma.practice.findUnique({
       where: { clerk_user_id: userId },
-      select: { nexhealth_subdomain: true, nexhealth_location_id: true },
+      select: { id: true, nexhealth_subdomain: true, nexhealth_location_id: true },
     });
 
     if (!practice?.nexhealth_subdomain || !practice?.nexhealth_location_id) {
@@ -63,6 +69,7 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json();
     const { name, minutes, bookable_online, emr_appt_descriptor_ids } = body;
+    const locationId = body.location_id?.toString() || practice.nexhealth_location_id;
 
     if (!name || !minutes) {
       return NextResponse.json({ error: "Name and minutes are required." }, { status: 400 });
@@ -73,22 +80,20 @@ export async function POST(request: NextRequest) {
       minutes,
       bookable_online: bookable_online !== undefined ? bookable_online : true,
       parent_type: "Location" as const, // Assuming location-scoped by default for LAINE-created types
-      parent_id: practice.nexhealth_location_id,
+      parent_id: locationId,
       emr_appt_descriptor_ids,
     };
 
-    const result = await createNexHealthAppointmentType(
-      practice.nexhealth_subdomain,
-      practice.nexhealth_location_id, // Used for parent_id if location-scoped
+    const result = await getNexHealthClient(practice.nexhealth_subdomain, practice.id).createAppointmentType(
+      locationId, // Used for parent_id if location-scoped
       newApptTypeDetails
     );
     
-    // The nexHealthRequest already wraps data in a { code, data, ... } structure.
-    // If createNexHealthAppointmentType returns the raw `data` part:
+    // The client unwraps NexHealth's { code, data, ... } structure and returns the `data` part
     return NextResponse.json({ code: true, data: result });
 
   } catch (error) {
-    console.error("Error creating NexHealth appointment type via API route:", error);
+    log.error("Error creating NexHealth appointment type via API route", error);
     const errorMessage = error instanceof Error ? error.message : "Failed to create appointment type";
     // Check if the error message from nexHealthRequest is already JSON
     try {
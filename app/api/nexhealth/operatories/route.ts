@@ -1,9 +1,12 @@
 import { auth } from "@clerk/nextjs/server";
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
-import { getOperatories } from "@/lib/nexhealth.server";
+import { getNexHealthClient } from "@/lib/nexhealth.server";
+import { createLogger } from "@/lib/logger.server";
 
-export async function GET() {
+const log = createLogger("api/nexhealth/operatories");
+
+export async function GET(request: NextRequest) {
   try {
     const { userId } = await auth();
     
@@ -14,21 +17,24 @@ export async function GET() {
     const practice = await prisma.practice.findUnique({
       where: { clerk_user_id: userId },
       select: {
+        id: true,
         nexhealth_subdomain: true,
         nexhealth_location_id: true,
       },
     });
 
-    if (!practice || !practice.nexhealth_subdomain || !practice.nexhealth_location_id) {
+    // Offices other than the primary one pass their own NexHealth location ID
+    const locationId = request.nextUrl.searchParams.get("locationId") || practice?.nexhealth_location_id;
+
+    if (!practice || !practice.nexhealth_subdomain || !locationId) {
       return NextResponse.json(
         { error: "Practice NexHealth configuration is incomplete. Please set subdomain and location ID first." },
         { status: 400 }
       );
     }
 
-    const operatories = await getOperatories(
-      practice.nexhealth_subdomain,
-      practice.nexhealth_location_id
+    const operatories = await getNexHealthClient(practice.nexhealth_subdomain, practice.id).getOperatories(
+      locationId
     );
 
     // Convert IDs to strings for consistency
@@ -39,7 +45,7 @@ export async function GET() {
 
     return NextResponse.json({ operatories: normalizedOperatories });
   } catch (error) {
-    console.error("Error fetching operatories:", error);
+    log.error("Error fetching operatories", error);
     return NextResponse.json(
       { error: "Failed to fetch operatories from NexHealth" },
       { status: 500 }
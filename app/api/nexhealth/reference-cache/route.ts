@@ -0,0 +1,53 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getReferenceCacheStats, invalidateReferenceData } from "@/lib/nexhealth-reference-cache.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/nexhealth/reference-cache");
+
+// Cache hit/miss counts for NexHealth reference data
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json({ stats: getReferenceCacheStats() });
+  } catch (error) {
+    log.error("Error fetching reference cache stats", error);
+    return NextResponse.json({ error: "Failed to fetch cache stats" }, { status: 500 });
+  }
+}
+
+// Drop the practice's cached NexHealth reference data so the next fetch goes to NexHealth
+export async function POST() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+      select: { nexhealth_subdomain: true },
+    });
+
+    if (!practice?.nexhealth_subdomain) {
+      return NextResponse.json(
+        { error: "Practice NexHealth configuration is incomplete. Please set subdomain first." },
+        { status: 400 }
+      );
+    }
+
+    const removed = invalidateReferenceData(practice.nexhealth_subdomain);
+
+    return NextResponse.json({ removed, stats: getReferenceCacheStats() });
+  } catch (error) {
+    log.error("Error refreshing reference cache", error);
+    return NextResponse.json({ error: "Failed to refresh NexHealth data" }, { status: 500 });
+  }
+}
@@ -1,9 +1,12 @@
 import { auth } from "@clerk/nextjs/server";
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
-import { getSyncStatus } from "@/lib/nexhealth.server";
+import { getNexHealthClient } from "@/lib/nexhealth.server";
+import { createLogger } from "@/lib/logger.server";
 
-export async function GET() {
+const log = createLogger("api/nexhealth/sync-status");
+
+export async function GET(request: NextRequest) {
   try {
     const { userId } = await auth();
     
@@ -14,26 +17,29 @@ export async function GET() {
     const practice = await prisma.practice.findUnique({
       where: { clerk_user_id: userId },
       select: {
+        id: true,
         nexhealth_subdomain: true,
         nexhealth_location_id: true,
       },
     });
 
-    if (!practice || !practice.nexhealth_subdomain || !practice.nexhealth_location_id) {
+    // Offices other than the primary one pass their own NexHealth location ID
+    const locationId = request.nextUrl.searchParams.get("locationId") || practice?.nexhealth_location_id;
+
+    if (!practice || !practice.nexhealth_subdomain || !locationId) {
       return NextResponse.json(
         { error: "Practice NexHealth configuration is incomplete. Please set subdomain and location ID first." },
         { status: 400 }
       );
     }
 
-    const syncStatus = await getSyncStatus(
-      practice.nexhealth_subdomain,
-      practice.nexhealth_location_id
+    const syncStatus = await getNexHealthClient(practice.nexhealth_subdomain, practice.id).getSyncStatus(
+      locationId
     );
 
     return NextResponse.json({ syncStatus });
   } catch (error) {
-    console.error("Error fetching sync status:", error);
+    log.error("Error fetching sync status", error);
     return NextResponse.json(
       { error: "Failed to fetch sync status from NexHealth" },
       { status: 500 }
@@ -1,25 +1,37 @@
 import { NextRequest, NextResponse } from "next/server";
 import crypto from "crypto";
-import prisma from "@/lib/prisma";
+import { NexHealthWebhookPayloadSchema } from "@/lib/nexhealth-schemas";
+import db from "@/lib/prisma";
+import { getNexHealthEventId, processNexHealthWebhookEvent } from "@/lib/nexhealth-webhook-events.server";
+import { processWebhookEvent, recordWebhookEvent } from "@/lib/webhook-inbox.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/nexhealth/webhook");
+
+// timingSafeEqual throws on buffers of different lengths, so a short or long signature is simply unequal
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
 
 export async function POST(request: NextRequest) {
   try {
-    console.log("=== NEXHEALTH WEBHOOK RECEIVED ===");
-    console.log("Timestamp:", new Date().toISOString());
-    
     // Get the raw body for signature verification
     const rawBody = await request.text();
-    console.log("Raw body length:", rawBody.length);
-    
     const nexHealthSignature = request.headers.get("X-Nexhealth-Signature");
-    console.log("NexHealth signature header:", nexHealthSignature);
-    
+
     // Get webhook secret from environment
     const WEBHOOK_SECRET = process.env.NEXHEALTH_WEBHOOK_SECRET;
-    console.log("Webhook secret present:", !!WEBHOOK_SECRET);
-    
+
+    log.info("NexHealth webhook received", {
+      body_length: rawBody.length,
+      has_signature: !!nexHealthSignature,
+      has_secret: !!WEBHOOK_SECRET,
+    });
+
     if (!nexHealthSignature || !WEBHOOK_SECRET) {
-      console.warn("NexHealth webhook signature or secret missing.");
+      log.warn("NexHealth webhook signature or secret missing.");
       return new Response("Unauthorized: Signature or secret missing", { status: 401 });
     }
 
@@ -30,92 +42,47 @@ export async function POST(request: NextRequest) {
       .digest("hex");
 
     const expectedSignature = `sha256=${generatedSignature}`;
-    console.log("Generated signature:", expectedSignature);
-    console.log("Received signature:", nexHealthSignature);
 
-    if (!crypto.timingSafeEqual(Buffer.from(expectedSignature), Buffer.from(nexHealthSignature))) {
-      console.warn("Invalid NexHealth webhook signature.");
+    if (!safeEqual(expectedSignature, nexHealthSignature)) {
+      log.warn("Invalid NexHealth webhook signature.");
       return new Response("Forbidden: Invalid signature", { status: 403 });
     }
     
-    console.log("✅ NexHealth webhook signature verification passed");
-
-    const payload = JSON.parse(rawBody);
-    console.log("Webhook payload:", JSON.stringify(payload, null, 2));
-
-    // Handle appointment insertion events
-    if (payload.resource_type === "Appointment" && payload.event === "appointment_insertion") {
-      console.log("=== HANDLING APPOINTMENT INSERTION WEBHOOK ===");
-      
-      const appointmentData = payload.data;
-      const status = payload.status; // "success" or "failure"
-      const appointmentId = appointmentData?.id;
-      const subdomain = payload.subdomain; // This identifies which practice
-      
-      console.log("Appointment ID:", appointmentId);
-      console.log("Status:", status);
-      console.log("Practice Subdomain:", subdomain);
-      
-      if (appointmentId && subdomain) {
-        try {
-          // Find the practice by subdomain
-          const practice = await prisma.practice.findFirst({
-            where: {
-              nexhealth_subdomain: subdomain
-            }
-          });
-
-          if (!practice) {
-            console.log(`❌ No practice found for subdomain: ${subdomain}`);
-            return NextResponse.json({ 
-              status: "error", 
-              message: `Practice not found for subdomain: ${subdomain}` 
-            });
-          }
-
-          console.log(`✅ Found practice: ${practice.name} (ID: ${practice.id})`);
-
-          // Find the call log entry for this appointment
-          const callLog = await prisma.callLog.findFirst({
-            where: {
-              booked_appointment_nexhealth_id: appointmentId.toString(),
-              practice_id: practice.id // Ensure we're updating the right practice's call log
-            }
-          });
-
-          if (callLog) {
-            console.log("Found matching call log:", callLog.id);
-            
-            // Update call log with EHR sync status
-            const updateData: any = {
-              call_status: status === "success" ? "COMPLETED_EHR_SYNCED" : "FAILED_EHR_SYNC"
-            };
-
-            // If successful, store any additional data from the webhook
-            if (status === "success" && appointmentData.foreign_id) {
-              updateData.summary = `Appointment successfully synced to EHR with ID: ${appointmentData.foreign_id}`;
-              updateData.ehr_appointment_foreign_id = appointmentData.foreign_id;
-            } else if (status === "failure") {
-              updateData.summary = `Appointment failed to sync to EHR: ${payload.message || "Unknown error"}`;
-            }
-
-            await prisma.callLog.update({
-              where: { id: callLog.id },
-              data: updateData
-            });
-
-            console.log("✅ Call log updated with EHR sync status");
-          } else {
-            console.log(`❌ No matching call log found for appointment ID: ${appointmentId} in practice: ${practice.name}`);
-          }
-        } catch (dbError) {
-          console.error("❌ Database error processing webhook:", dbError);
-        }
-      } else {
-        console.log("❌ Missing appointment ID or subdomain in webhook payload");
-      }
-    } else {
-      console.log(`ℹ️ Unhandled webhook event: ${payload.resource_type}/${payload.event}`);
+    log.debug("✅ NexHealth webhook signature verification passed");
+
+    const parsedPayload = NexHealthWebhookPayloadSchema.safeParse(JSON.parse(rawBody));
+    if (!parsedPayload.success) {
+      log.warn("❌ Malformed NexHealth webhook payload");
+      return NextResponse.json({ status: "error", message: "Malformed webhook payload" }, { status: 400 });
+    }
+
+    const payload = parsedPayload.data;
+    log.info("NexHealth webhook event", { resource_type: payload.resource_type, event: payload.event });
+
+    const practice = payload.subdomain
+      ? await db.practice.findFirst({ where: { nexhealth_subdomain: payload.subdomain }, select: { id: true } })
+      : null;
+
+    // Store the event before processing it; if it can't be stored, fail so NexHealth redelivers it
+    const inbox = await recordWebhookEvent({
+      source: "nexhealth",
+      eventType: `${payload.resource_type}/${payload.event}`,
+      externalId: getNexHealthEventId(payload),
+      practiceId: practice?.id,
+      rawBody,
+      payload,
+    });
+
+    if (inbox.duplicate) {
+      log.info("Duplicate NexHealth webhook skipped", { webhook_event_id: inbox.event.id });
+      return NextResponse.json({ status: "success", message: "Event already received" });
+    }
+
+    // A failed event stays in the inbox as FAILED; answering 5xx makes NexHealth redeliver it,
+    // and the redelivery is processed again rather than skipped as a duplicate
+    const result = await processWebhookEvent(inbox.event.id, () => processNexHealthWebhookEvent(payload));
+    if (result.status === "error") {
+      return NextResponse.json({ status: "error", message: result.message }, { status: 500 });
     }
 
     // Respond with success to acknowledge webhook receipt
@@ -126,7 +93,7 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
-    console.error("Error processing NexHealth webhook:", error);
+    log.error("Error processing NexHealth webhook", error);
     return NextResponse.json(
       { 
         status: "error", 
@@ -2,6 +2,9 @@ import { auth } from "@clerk/nextjs/server";
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { createOrUpdateVapiAssistant } from "@/lib/vapi.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/practice/ai-config");
 
 // Helper function to fetch assistant details from Vapi API
 async function getVapiAssistantDetails(assistantId: string) {
@@ -61,11 +64,12 @@ export async function GET(request: NextRequest) {
             model: assistantDetails.model,
             tools: assistantDetails.model?.tools || [],
             voice: assistantDetails.voice,
-            server: assistantDetails.server
+            // The server secret stays on the server
+            server: assistantDetails.server && { url: assistantDetails.server.url }
           }
         });
       } catch (error) {
-        console.error("Error fetching assistant tools:", error);
+        log.error("Error fetching assistant tools", error);
         return NextResponse.json({ 
           error: "Failed to fetch assistant tools",
           details: error instanceof Error ? error.message : "Unknown error"
@@ -75,7 +79,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({ practice });
   } catch (error) {
-    console.error("Error fetching AI config:", error);
+    log.error("Error fetching AI config", error);
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
@@ -118,7 +122,7 @@ export async function POST(request: NextRequest) {
 
     // Create or update Vapi assistant
     try {
-      console.log("Attempting to create/update Vapi assistant for practice:", practice.id);
+      log.info("Attempting to create/update Vapi assistant", { practice_id: practice.id });
       const assistantId = await createOrUpdateVapiAssistant(practice);
       
       if (assistantId && assistantId !== practice.vapi_assistant_id) {
@@ -127,10 +131,10 @@ export async function POST(request: NextRequest) {
           where: { id: practice.id },
           data: { vapi_assistant_id: assistantId },
         });
-        console.log("Practice updated with new assistant ID:", assistantId);
+        log.info("Practice updated with new assistant ID", { assistant_id: assistantId });
       }
     } catch (vapiError) {
-      console.error("Error creating/updating Vapi assistant:", vapiError);
+      log.error("Error creating/updating Vapi assistant", vapiError);
       // Continue with the response even if Vapi assistant creation fails
       // The user will get their settings saved, but assistant won't be updated
     }
@@ -147,7 +151,7 @@ export async function POST(request: NextRequest) {
       }
     });
   } catch (error) {
-    console.error("Error saving AI config:", error);
+    log.error("Error saving AI config", error);
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
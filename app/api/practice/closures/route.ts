@@ -0,0 +1,144 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getPracticeToday, DEFAULT_PRACTICE_TIMEZONE } from "@/lib/practice-time";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/practice/closures");
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Today's and upcoming closures
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+      select: { id: true, timezone: true },
+    });
+
+    if (!practice) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    const closures = await prisma.officeClosure.findMany({
+      where: {
+        practice_id: practice.id,
+        date: { gte: getPracticeToday(practice.timezone || DEFAULT_PRACTICE_TIMEZONE) },
+      },
+      orderBy: { date: "asc" },
+    });
+
+    return NextResponse.json({ closures });
+  } catch (error) {
+    log.error("Error fetching office closures", error);
+    return NextResponse.json(
+      { error: "Failed to fetch closures" },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a closure for one office, or for every office when no location_id is given
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+      select: { id: true },
+    });
+
+    if (!practice) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const date = typeof body.date === "string" ? body.date : "";
+    const locationId = body.location_id || null;
+
+    if (!name || !DATE_PATTERN.test(date)) {
+      return NextResponse.json({ error: "A date (YYYY-MM-DD) and name are required" }, { status: 400 });
+    }
+
+    if (locationId) {
+      const location = await prisma.practiceLocation.findFirst({
+        where: { id: locationId, practice_id: practice.id },
+        select: { id: true },
+      });
+
+      if (!location) {
+        return NextResponse.json({ error: "Office not found" }, { status: 404 });
+      }
+    }
+
+    const closure = await prisma.officeClosure.create({
+      data: {
+        practice_id: practice.id,
+        location_id: locationId,
+        date,
+        name,
+      },
+    });
+
+    log.info("Office closure added", { closure_id: closure.id, location_id: locationId });
+    return NextResponse.json({ closure });
+  } catch (error) {
+    log.error("Error saving office closure", error);
+    return NextResponse.json(
+      { error: "Failed to save closure" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+      select: { id: true },
+    });
+
+    if (!practice) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    const closureId = request.nextUrl.searchParams.get("id");
+
+    if (!closureId) {
+      return NextResponse.json({ error: "Closure ID is required" }, { status: 400 });
+    }
+
+    const { count } = await prisma.officeClosure.deleteMany({
+      where: { id: closureId, practice_id: practice.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Closure not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error("Error deleting office closure", error);
+    return NextResponse.json(
+      { error: "Failed to delete closure" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,200 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { getPracticeLocations, isPhoneNumberIdTakenByAnotherPractice } from "@/lib/practice-locations.server";
+import { OfficeHoursSchema } from "@/lib/office-hours";
+import { updateVapiPhoneNumberServers } from "@/lib/vapi.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/practice/locations");
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+    });
+
+    if (!practice) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    const locations = await getPracticeLocations(practice);
+
+    return NextResponse.json({ locations });
+  } catch (error) {
+    log.error("Error fetching practice locations", error);
+    return NextResponse.json(
+      { error: "Failed to fetch offices" },
+      { status: 500 }
+    );
+  }
+}
+
+// Add an office, or update one when an id is given
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+      select: { id: true },
+    });
+
+    if (!practice) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const nexhealthLocationId = body.nexhealth_location_id?.toString().trim() || "";
+    const vapiPhoneNumberId = body.vapi_phone_number_id?.toString().trim() || null;
+
+    if (!name) {
+      return NextResponse.json({ error: "Office name is required" }, { status: 400 });
+    }
+
+    if (vapiPhoneNumberId && await isPhoneNumberIdTakenByAnotherPractice(vapiPhoneNumberId, practice.id)) {
+      log.warn("Vapi phone number ID already belongs to another practice", { phone_number_id: vapiPhoneNumberId });
+      return NextResponse.json(
+        { error: "This Vapi phone number is already used by another practice" },
+        { status: 409 }
+      );
+    }
+
+    // Empty or missing hours clear them
+    const officeHours = body.office_hours ? OfficeHoursSchema.safeParse(body.office_hours) : null;
+    if (officeHours && !officeHours.success) {
+      return NextResponse.json(
+        { error: `Invalid office hours: ${officeHours.error.issues[0]?.message}` },
+        { status: 400 }
+      );
+    }
+    const officeHoursValue = officeHours?.success && Object.values(officeHours.data).some(Boolean)
+      ? officeHours.data
+      : Prisma.DbNull;
+
+    const existing = body.id
+      ? await prisma.practiceLocation.findFirst({ where: { id: body.id, practice_id: practice.id } })
+      : null;
+
+    if (body.id && !existing) {
+      return NextResponse.json({ error: "Office not found" }, { status: 404 });
+    }
+
+    try {
+      // The primary office's NexHealth settings are edited with the practice settings; its name, number and hours here
+      if (existing?.is_primary) {
+        const location = await prisma.practiceLocation.update({
+          where: { id: existing.id },
+          data: { name, vapi_phone_number_id: vapiPhoneNumberId, office_hours: officeHoursValue },
+        });
+        if (vapiPhoneNumberId) {
+          await updateVapiPhoneNumberServers(practice.id, [vapiPhoneNumberId]);
+        }
+        return NextResponse.json({ location });
+      }
+
+      if (!nexhealthLocationId) {
+        return NextResponse.json({ error: "NexHealth location ID is required" }, { status: 400 });
+      }
+
+      const locationData = {
+        name,
+        nexhealth_location_id: nexhealthLocationId,
+        nexhealth_selected_provider_ids: (body.nexhealth_selected_provider_ids || []).map((id: any) => id.toString()),
+        nexhealth_default_operatory_ids: (body.nexhealth_default_operatory_ids || []).map((id: any) => id.toString()),
+        timezone: body.timezone || "America/New_York",
+        vapi_phone_number_id: vapiPhoneNumberId,
+        office_hours: officeHoursValue,
+      };
+
+      const location = existing
+        ? await prisma.practiceLocation.update({ where: { id: existing.id }, data: locationData })
+        : await prisma.practiceLocation.create({ data: { practice_id: practice.id, ...locationData } });
+
+      log.info(existing ? "Office updated" : "Office added", { location_id: location.id });
+
+      // Calls to the office's number authenticate with the practice's webhook secret
+      if (vapiPhoneNumberId) {
+        await updateVapiPhoneNumberServers(practice.id, [vapiPhoneNumberId]);
+      }
+      return NextResponse.json({ location });
+    } catch (dbError) {
+      if (dbError instanceof Prisma.PrismaClientKnownRequestError && dbError.code === "P2002") {
+        return NextResponse.json(
+          { error: "Another office already uses this NexHealth location or phone number" },
+          { status: 409 }
+        );
+      }
+      throw dbError;
+    }
+  } catch (error) {
+    log.error("Error saving practice location", error);
+    return NextResponse.json(
+      { error: "Failed to save office" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+      select: { id: true },
+    });
+
+    if (!practice) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    const locationId = request.nextUrl.searchParams.get("id");
+
+    if (!locationId) {
+      return NextResponse.json({ error: "Office ID is required" }, { status: 400 });
+    }
+
+    const location = await prisma.practiceLocation.findFirst({
+      where: { id: locationId, practice_id: practice.id },
+    });
+
+    if (!location) {
+      return NextResponse.json({ error: "Office not found" }, { status: 404 });
+    }
+
+    if (location.is_primary) {
+      return NextResponse.json(
+        { error: "The primary office can't be removed; change the primary location in the practice settings instead" },
+        { status: 400 }
+      );
+    }
+
+    // Removes the office's own service mappings with it
+    await prisma.practiceLocation.delete({ where: { id: location.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error("Error deleting practice location", error);
+    return NextResponse.json(
+      { error: "Failed to delete office" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { listWebhookDeliveries, redeliverWebhook } from "@/lib/outbound-webhooks.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/practice/outbound-webhooks/deliveries");
+
+const DELIVERY_STATUSES = ["PENDING", "RETRYING", "DELIVERED", "FAILED"];
+
+// Recent outbound webhook deliveries, optionally filtered by ?status=
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+      select: { id: true },
+    });
+
+    if (!practice) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    const status = request.nextUrl.searchParams.get("status")?.toUpperCase();
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    const deliveries = await listWebhookDeliveries(practice.id, { status });
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    log.error("Error fetching outbound webhook deliveries", error);
+    return NextResponse.json(
+      { error: "Failed to fetch deliveries" },
+      { status: 500 }
+    );
+  }
+}
+
+// Send a failed delivery again
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+      select: { id: true },
+    });
+
+    if (!practice) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    if (!body.id) {
+      return NextResponse.json({ error: "Delivery ID is required" }, { status: 400 });
+    }
+
+    const result = await redeliverWebhook(body.id, practice.id);
+
+    if (!result) {
+      return NextResponse.json({ error: "Delivery not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: result.delivered, result });
+  } catch (error) {
+    log.error("Error redelivering outbound webhook", error);
+    return NextResponse.json(
+      { error: "Failed to redeliver webhook" },
+      { status: 500 }
+    );
+  }
+}
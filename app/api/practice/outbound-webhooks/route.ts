@@ -0,0 +1,269 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { createWebhookSubscription, rotateWebhookSubscriptionSecret } from "@/lib/outbound-webhooks.server";
+import { isOutboundWebhookEventType, OutboundWebhookEventType } from "@/lib/outbound-webhook-events";
+import { checkEndpointAddress } from "@/lib/outbound-webhook-address.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/practice/outbound-webhooks");
+
+const SUBSCRIPTION_SELECT = {
+  id: true,
+  url: true,
+  description: true,
+  event_types: true,
+  is_active: true,
+  created_at: true,
+} as const;
+
+/**
+ * Check an endpoint URL; plain http is only accepted outside production, for local receivers
+ */
+function validateEndpointUrl(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  try {
+    const url = new URL(value.trim());
+    const allowedProtocols = process.env.NODE_ENV === "production" ? ["https:"] : ["https:", "http:"];
+    return allowedProtocols.includes(url.protocol) ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Why events can't be sent to the endpoint, or null: its host must resolve, and only to public addresses
+ */
+async function checkEndpointHost(url: string): Promise<string | null> {
+  try {
+    return await checkEndpointAddress(url);
+  } catch {
+    return `Could not resolve ${new URL(url).hostname}`;
+  }
+}
+
+function validateEventTypes(value: unknown): OutboundWebhookEventType[] | null {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(isOutboundWebhookEventType)) {
+    return null;
+  }
+  return Array.from(new Set(value));
+}
+
+// The practice's outbound webhook subscriptions; signing secrets are never listed
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+      select: { id: true },
+    });
+
+    if (!practice) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    const subscriptions = await prisma.outboundWebhookSubscription.findMany({
+      where: { practice_id: practice.id },
+      orderBy: { created_at: "asc" },
+      select: SUBSCRIPTION_SELECT,
+    });
+
+    return NextResponse.json({ subscriptions });
+  } catch (error) {
+    log.error("Error fetching outbound webhooks", error);
+    return NextResponse.json(
+      { error: "Failed to fetch outbound webhooks" },
+      { status: 500 }
+    );
+  }
+}
+
+// Subscribe an endpoint; the response carries the signing secret, shown only this once
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+      select: { id: true },
+    });
+
+    if (!practice) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const url = validateEndpointUrl(body.url);
+    const eventTypes = validateEventTypes(body.event_types);
+
+    if (!url) {
+      return NextResponse.json({ error: "Enter a valid https:// URL" }, { status: 400 });
+    }
+    if (!eventTypes) {
+      return NextResponse.json({ error: "Choose at least one event" }, { status: 400 });
+    }
+
+    const hostError = await checkEndpointHost(url);
+    if (hostError) {
+      return NextResponse.json({ error: hostError }, { status: 400 });
+    }
+
+    const { subscription, secret } = await createWebhookSubscription(practice.id, {
+      url,
+      description: typeof body.description === "string" ? body.description.trim() : null,
+      eventTypes,
+    });
+
+    return NextResponse.json({
+      subscription: {
+        id: subscription.id,
+        url: subscription.url,
+        description: subscription.description,
+        event_types: subscription.event_types,
+        is_active: subscription.is_active,
+        created_at: subscription.created_at,
+      },
+      secret,
+    });
+  } catch (error) {
+    log.error("Error creating outbound webhook", error);
+    return NextResponse.json(
+      { error: "Failed to create outbound webhook" },
+      { status: 500 }
+    );
+  }
+}
+
+// Change a subscription's events or URL, pause or resume it, or rotate its secret ({ id, rotate_secret: true })
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+      select: { id: true },
+    });
+
+    if (!practice) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    if (!body.id) {
+      return NextResponse.json({ error: "Subscription ID is required" }, { status: 400 });
+    }
+
+    const existing = await prisma.outboundWebhookSubscription.findFirst({
+      where: { id: body.id, practice_id: practice.id },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Outbound webhook not found" }, { status: 404 });
+    }
+
+    if (body.rotate_secret) {
+      const secret = await rotateWebhookSubscriptionSecret(existing.id);
+      return NextResponse.json({ secret });
+    }
+
+    const data: { url?: string; event_types?: OutboundWebhookEventType[]; is_active?: boolean } = {};
+
+    if (body.url !== undefined) {
+      const url = validateEndpointUrl(body.url);
+      if (!url) {
+        return NextResponse.json({ error: "Enter a valid https:// URL" }, { status: 400 });
+      }
+      const hostError = await checkEndpointHost(url);
+      if (hostError) {
+        return NextResponse.json({ error: hostError }, { status: 400 });
+      }
+      data.url = url;
+    }
+
+    if (body.event_types !== undefined) {
+      const eventTypes = validateEventTypes(body.event_types);
+      if (!eventTypes) {
+        return NextResponse.json({ error: "Choose at least one event" }, { status: 400 });
+      }
+      data.event_types = eventTypes;
+    }
+
+    if (typeof body.is_active === "boolean") {
+      data.is_active = body.is_active;
+    }
+
+    const subscription = await prisma.outboundWebhookSubscription.update({
+      where: { id: existing.id },
+      data,
+      select: SUBSCRIPTION_SELECT,
+    });
+
+    log.info("Outbound webhook updated", { subscription_id: subscription.id, is_active: subscription.is_active });
+    return NextResponse.json({ subscription });
+  } catch (error) {
+    log.error("Error updating outbound webhook", error);
+    return NextResponse.json(
+      { error: "Failed to update outbound webhook" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+      select: { id: true },
+    });
+
+    if (!practice) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    const subscriptionId = request.nextUrl.searchParams.get("id");
+
+    if (!subscriptionId) {
+      return NextResponse.json({ error: "Subscription ID is required" }, { status: 400 });
+    }
+
+    const { count } = await prisma.outboundWebhookSubscription.deleteMany({
+      where: { id: subscriptionId, practice_id: practice.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Outbound webhook not found" }, { status: 404 });
+    }
+
+    log.info("Outbound webhook deleted", { subscription_id: subscriptionId });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error("Error deleting outbound webhook", error);
+    return NextResponse.json(
+      { error: "Failed to delete outbound webhook" },
+      { status: 500 }
+    );
+  }
+}
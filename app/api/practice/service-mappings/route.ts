@@ -1,6 +1,10 @@
 import { auth } from "@clerk/nextjs/server";
 import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
 import prisma from "@/lib/prisma";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/practice/service-mappings");
 
 export async function GET() {
   try {
@@ -26,7 +30,7 @@ export async function GET() {
 
     return NextResponse.json({ serviceMappings });
   } catch (error) {
-    console.error("Error fetching service mappings:", error);
+    log.error("Error fetching service mappings", error);
     return NextResponse.json(
       { error: "Failed to fetch service mappings" },
       { status: 500 }
@@ -102,6 +106,7 @@ export async function POST(request: NextRequest) {
           const existing = await prisma.serviceMapping.findFirst({
             where: {
               practice_id: practice.id,
+              location_id: null,
               spoken_service_name: {
                 equals: spokenName,
                 mode: 'insensitive'
@@ -121,7 +126,7 @@ export async function POST(request: NextRequest) {
             createdMappings.push(mapping);
           }
         } catch (mappingError) {
-          console.warn(`Failed to create mapping for "${spokenName}":`, mappingError);
+          log.warn(`Failed to create mapping for "${spokenName}"`, mappingError);
           // Continue with other mappings
         }
       }
@@ -133,7 +138,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Handle individual service mapping creation
-    const { spoken_service_name, nexhealth_appointment_type_id, default_duration_minutes } = body;
+    const { spoken_service_name, nexhealth_appointment_type_id, default_duration_minutes, synonyms } = body;
+    // A mapping for one office overrides the practice-wide mapping of the same name at that office
+    const locationId: string | null = body.location_id || null;
 
     if (!spoken_service_name || !nexhealth_appointment_type_id) {
       return NextResponse.json(
@@ -142,10 +149,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (locationId) {
+      const location = await prisma.practiceLocation.findFirst({
+        where: { id: locationId, practice_id: practice.id },
+        select: { id: true },
+      });
+      if (!location) {
+        return NextResponse.json({ error: "Office not found" }, { status: 404 });
+      }
+    }
+
     // Check for duplicate
     const existingMapping = await prisma.serviceMapping.findFirst({
       where: {
         practice_id: practice.id,
+        location_id: locationId,
         spoken_service_name: {
           equals: spoken_service_name,
           mode: 'insensitive'
@@ -153,26 +171,40 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    const duplicateError = locationId
+      ? "This office already has a service mapping with this name"
+      : "A service mapping with this name already exists";
+
     if (existingMapping) {
-      return NextResponse.json(
-        { error: "A service mapping with this name already exists" },
-        { status: 409 }
-      );
+      return NextResponse.json({ error: duplicateError }, { status: 409 });
     }
 
-    const serviceMapping = await prisma.serviceMapping.create({
-      data: {
-        practice_id: practice.id,
-        spoken_service_name,
-        nexhealth_appointment_type_id,
-        default_duration_minutes,
-        is_active: true,
-      },
-    });
+    try {
+      const serviceMapping = await prisma.serviceMapping.create({
+        data: {
+          practice_id: practice.id,
+          location_id: locationId,
+          spoken_service_name,
+          nexhealth_appointment_type_id,
+          default_duration_minutes,
+          // Accept a list or a comma-separated string of extra phrases for this service
+          synonyms: (Array.isArray(synonyms) ? synonyms : String(synonyms || "").split(","))
+            .map((synonym: string) => synonym.trim())
+            .filter(Boolean),
+          is_active: true,
+        },
+      });
 
-    return NextResponse.json({ serviceMapping });
+      return NextResponse.json({ serviceMapping });
+    } catch (dbError) {
+      // A concurrent request created the same name between the check above and this insert
+      if (dbError instanceof Prisma.PrismaClientKnownRequestError && dbError.code === "P2002") {
+        return NextResponse.json({ error: duplicateError }, { status: 409 });
+      }
+      throw dbError;
+    }
   } catch (error) {
-    console.error("Error creating service mapping:", error);
+    log.error("Error creating service mapping", error);
     return NextResponse.json(
       { error: "Failed to create service mapping" },
       { status: 500 }
@@ -213,7 +245,7 @@ export async function DELETE(request: NextRequest) {
 
     return NextResponse.json({ success: true });
   } catch (error) {
-    console.error("Error deleting service mapping:", error);
+    log.error("Error deleting service mapping", error);
     return NextResponse.json(
       { error: "Failed to delete service mapping" },
       { status: 500 }
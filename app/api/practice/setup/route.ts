@@ -3,6 +3,13 @@ import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { createOrUpdateVapiAssistant } from "@/lib/vapi.server";
 import { subscribePracticeToWebhooks } from "@/lib/nexhealth-webhook.server";
+import { testNexHealthApiKey } from "@/lib/nexhealth.server";
+import { invalidateNexHealthApiKey } from "@/lib/nexhealth-credentials.server";
+import { encryptSecret, decryptSecret } from "@/lib/encryption.server";
+import { syncPrimaryLocation } from "@/lib/practice-locations.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/practice/setup");
 
 export async function GET() {
   try {
@@ -22,12 +29,24 @@ export async function GET() {
         nexhealth_selected_provider_ids: true,
         nexhealth_default_operatory_ids: true,
         timezone: true,
+        nexhealth_api_key_encrypted: true,
       },
     });
 
-    return NextResponse.json({ practice });
+    if (!practice) {
+      return NextResponse.json({ practice });
+    }
+
+    // Never send the key itself back to the browser
+    const { nexhealth_api_key_encrypted, ...practiceData } = practice;
+    return NextResponse.json({
+      practice: {
+        ...practiceData,
+        nexhealth_api_key_configured: !!nexhealth_api_key_encrypted,
+      },
+    });
   } catch (error) {
-    console.error("Error fetching practice:", error);
+    log.error("Error fetching practice", error);
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
@@ -44,6 +63,32 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
+
+    // Test NexHealth credentials without saving them
+    if (body.action === "test_nexhealth_credentials") {
+      let apiKey: string | undefined = body.nexhealth_api_key?.trim();
+
+      if (!apiKey) {
+        const existingPractice = await prisma.practice.findUnique({
+          where: { clerk_user_id: userId },
+          select: { nexhealth_api_key_encrypted: true },
+        });
+        if (existingPractice?.nexhealth_api_key_encrypted) {
+          apiKey = decryptSecret(existingPractice.nexhealth_api_key_encrypted);
+        }
+      }
+
+      if (!apiKey) {
+        return NextResponse.json(
+          { success: false, message: "Enter a NexHealth API key to test" },
+          { status: 400 }
+        );
+      }
+
+      const testResult = await testNexHealthApiKey(apiKey, body.nexhealth_subdomain || undefined);
+      return NextResponse.json(testResult);
+    }
+
     const {
       name,
       nexhealth_subdomain,
@@ -51,8 +96,14 @@ export async function POST(request: NextRequest) {
       nexhealth_selected_provider_ids,
       nexhealth_default_operatory_ids,
       timezone,
+      nexhealth_api_key,
     } = body;
 
+    // A blank key field keeps the stored key
+    const apiKeyUpdate = typeof nexhealth_api_key === "string" && nexhealth_api_key.trim()
+      ? { nexhealth_api_key_encrypted: encryptSecret(nexhealth_api_key.trim()) }
+      : {};
+
     // Convert ID arrays to strings
     const providerIds = nexhealth_selected_provider_ids ? 
       nexhealth_selected_provider_ids.map((id: any) => id.toString()) : [];
@@ -70,6 +121,7 @@ export async function POST(request: NextRequest) {
         nexhealth_selected_provider_ids: providerIds,
         nexhealth_default_operatory_ids: operatoryIds,
         timezone,
+        ...apiKeyUpdate,
       },
       update: {
         name,
@@ -78,9 +130,16 @@ export async function POST(request: NextRequest) {
         nexhealth_selected_provider_ids: providerIds,
         nexhealth_default_operatory_ids: operatoryIds,
         timezone,
+        ...apiKeyUpdate,
       },
     });
 
+    // The location fields above describe the primary office
+    await syncPrimaryLocation(practice);
+
+    // Make sure the next NexHealth request picks up the saved credentials
+    invalidateNexHealthApiKey(practice.id);
+
     // Create or update Vapi assistant if practice has AI config
     try {
       const assistantId = await createOrUpdateVapiAssistant(practice);
@@ -93,7 +152,7 @@ export async function POST(request: NextRequest) {
         });
       }
     } catch (vapiError) {
-      console.error("Error creating/updating Vapi assistant:", vapiError);
+      log.error("Error creating/updating Vapi assistant", vapiError);
       // Continue with the response even if Vapi assistant creation fails
     }
 
@@ -101,9 +160,9 @@ export async function POST(request: NextRequest) {
     let webhookSetupResult = null;
     if (nexhealth_subdomain) {
       try {
-        console.log(`Setting up webhook subscription for practice: ${name} (${nexhealth_subdomain})`);
+        log.info(`Setting up webhook subscription for practice: ${name} (${nexhealth_subdomain})`);
         
-        const webhookResult = await subscribePracticeToWebhooks(nexhealth_subdomain);
+        const webhookResult = await subscribePracticeToWebhooks(nexhealth_subdomain, practice.id);
         webhookSetupResult = webhookResult;
 
         // Update practice with webhook status
@@ -118,9 +177,9 @@ export async function POST(request: NextRequest) {
           },
         });
 
-        console.log(`✅ Webhook subscription setup successful for ${name}`);
+        log.info(`✅ Webhook subscription setup successful for ${name}`);
       } catch (webhookError) {
-        console.warn(`⚠️ Webhook subscription setup failed for ${name}:`, webhookError);
+        log.warn(`⚠️ Webhook subscription setup failed for ${name}`, webhookError);
         
         // Update practice with error status
         await prisma.practice.update({
@@ -150,11 +209,12 @@ export async function POST(request: NextRequest) {
         nexhealth_selected_provider_ids: practice.nexhealth_selected_provider_ids,
         nexhealth_default_operatory_ids: practice.nexhealth_default_operatory_ids,
         timezone: practice.timezone,
+        nexhealth_api_key_configured: !!practice.nexhealth_api_key_encrypted,
       },
       webhook: webhookSetupResult // Include webhook setup result
     });
   } catch (error) {
-    console.error("Error saving practice:", error);
+    log.error("Error saving practice", error);
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
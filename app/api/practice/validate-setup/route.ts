@@ -1,6 +1,9 @@
 import { auth } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/practice/validate-setup");
 
 export async function GET() {
   try {
@@ -15,6 +18,9 @@ export async function GET() {
       include: {
         service_mappings: {
           where: { is_active: true }
+        },
+        locations: {
+          where: { is_active: true }
         }
       }
     });
@@ -53,6 +59,14 @@ export async function GET() {
       recommendations.push("Select at least one provider for appointment booking");
     }
 
+    // Offices beyond the primary one need their own providers
+    for (const location of practice.locations.filter((l) => !l.is_primary)) {
+      if (location.nexhealth_selected_provider_ids.length === 0) {
+        issues.push(`No providers selected for the ${location.name} office`);
+        recommendations.push(`Select providers for ${location.name} in the Offices section of admin setup`);
+      }
+    }
+
     // Check service mappings
     if (practice.service_mappings.length === 0) {
       issues.push("No service mappings configured");
@@ -95,6 +109,7 @@ export async function GET() {
         name: practice.name,
         hasNexHealthConfig: !!(practice.nexhealth_subdomain && practice.nexhealth_location_id),
         providerCount: practice.nexhealth_selected_provider_ids?.length || 0,
+        officeCount: Math.max(practice.locations.length, practice.nexhealth_location_id ? 1 : 0),
         serviceMappingCount: practice.service_mappings.length,
         hasAIAssistant: !!practice.vapi_assistant_id,
         timezone: practice.timezone
@@ -102,7 +117,7 @@ export async function GET() {
     });
 
   } catch (error) {
-    console.error("Error validating practice setup:", error);
+    log.error("Error validating practice setup", error);
     return NextResponse.json(
       { error: "Failed to validate practice setup" },
       { status: 500 }
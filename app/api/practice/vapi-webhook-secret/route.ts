@@ -0,0 +1,90 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { createOrUpdateVapiAssistant } from "@/lib/vapi.server";
+import { rotatePracticeWebhookSecret } from "@/lib/vapi-webhook-secrets.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/practice/vapi-webhook-secret");
+
+// Whether the practice has its own webhook secret and how long a rotated one is still accepted
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+      select: {
+        vapi_webhook_secret_encrypted: true,
+        vapi_webhook_previous_secret_expires_at: true,
+      },
+    });
+
+    if (!practice) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    const previousExpiresAt = practice.vapi_webhook_previous_secret_expires_at;
+
+    return NextResponse.json({
+      hasPracticeSecret: !!practice.vapi_webhook_secret_encrypted,
+      previousSecretExpiresAt: previousExpiresAt && previousExpiresAt > new Date() ? previousExpiresAt : null,
+    });
+  } catch (error) {
+    log.error("Error fetching webhook secret status", error);
+    return NextResponse.json(
+      { error: "Failed to fetch webhook secret status" },
+      { status: 500 }
+    );
+  }
+}
+
+// Rotate the practice's webhook secret and re-provision the assistant with the new one
+export async function POST() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+    });
+
+    if (!practice) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    if (!practice.vapi_assistant_id) {
+      return NextResponse.json(
+        { error: "Save the AI configuration to create the assistant first" },
+        { status: 400 }
+      );
+    }
+
+    const { previousSecretExpiresAt } = await rotatePracticeWebhookSecret(practice.id);
+
+    // Until the assistant is updated Vapi keeps sending the previous secret, which is still accepted
+    const assistantId = await createOrUpdateVapiAssistant(practice);
+    if (assistantId && assistantId !== practice.vapi_assistant_id) {
+      await prisma.practice.update({
+        where: { id: practice.id },
+        data: { vapi_assistant_id: assistantId },
+      });
+      log.info("Practice updated with new assistant ID", { assistant_id: assistantId });
+    }
+
+    return NextResponse.json({ success: true, previousSecretExpiresAt });
+  } catch (error) {
+    log.error("Error rotating webhook secret", error);
+    return NextResponse.json(
+      { error: "Failed to rotate webhook secret" },
+      { status: 500 }
+    );
+  }
+}
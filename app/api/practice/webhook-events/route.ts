@@ -0,0 +1,85 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { listWebhookEvents, replayWebhookEvent } from "@/lib/webhook-inbox.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/practice/webhook-events");
+
+const EVENT_STATUSES = ["RECEIVED", "PROCESSED", "IGNORED", "FAILED"];
+
+// Recent inbound webhook events, optionally filtered by ?status=
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+      select: { id: true },
+    });
+
+    if (!practice) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    const status = request.nextUrl.searchParams.get("status")?.toUpperCase();
+    if (status && !EVENT_STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    const events = await listWebhookEvents(practice.id, { status });
+
+    return NextResponse.json({ events });
+  } catch (error) {
+    log.error("Error fetching webhook events", error);
+    return NextResponse.json(
+      { error: "Failed to fetch webhook events" },
+      { status: 500 }
+    );
+  }
+}
+
+// Replay a failed event through the handler that first received it
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const practice = await prisma.practice.findUnique({
+      where: { clerk_user_id: userId },
+      select: { id: true },
+    });
+
+    if (!practice) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    if (!body.id) {
+      return NextResponse.json({ error: "Event ID is required" }, { status: 400 });
+    }
+
+    const result = await replayWebhookEvent(body.id, practice.id);
+
+    if (!result) {
+      return NextResponse.json({ error: "Webhook event not found" }, { status: 404 });
+    }
+
+    log.info("Webhook event replayed", { webhook_event_id: body.id, status: result.status });
+    return NextResponse.json({ success: result.status !== "error", result });
+  } catch (error) {
+    log.error("Error replaying webhook event", error);
+    return NextResponse.json(
+      { error: "Failed to replay webhook event" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,9 @@ import { auth } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { subscribePracticeToWebhooks } from "@/lib/nexhealth-webhook.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/practice/webhook-setup");
 
 /**
  * Manually subscribe a practice to NexHealth webhook events
@@ -31,7 +34,7 @@ export async function POST() {
       );
     }
 
-    console.log(`Manual webhook subscription for practice: ${practice.name} (${practice.nexhealth_subdomain})`);
+    log.info(`Manual webhook subscription for practice: ${practice.name} (${practice.nexhealth_subdomain})`);
 
     // Update status to show we're attempting
     await prisma.practice.update({
@@ -42,7 +45,7 @@ export async function POST() {
       },
     });
 
-    const result = await subscribePracticeToWebhooks(practice.nexhealth_subdomain);
+    const result = await subscribePracticeToWebhooks(practice.nexhealth_subdomain, practice.id);
 
     // Update practice with final result
     await prisma.practice.update({
@@ -62,7 +65,7 @@ export async function POST() {
     });
 
   } catch (error) {
-    console.error("Error setting up webhook subscription:", error);
+    log.error("Error setting up webhook subscription", error);
     
     // Update status to error
     const { userId } = await auth();
@@ -1,6 +1,9 @@
 import { auth } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("api/practice/webhook-status");
 
 /**
  * Get webhook status for the current practice
@@ -79,7 +82,7 @@ export async function GET() {
     });
 
   } catch (error) {
-    console.error("Error fetching webhook status:", error);
+    log.error("Error fetching webhook status", error);
     return NextResponse.json(
       { 
         error: "Failed to fetch webhook status",
@@ -1,32 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
-import { 
-  getAppointmentTypes,
-  getProviders,
-  getAppointmentSlots,
-  getOperatories,
-  getLocationDetails
-} from "@/lib/nexhealth.server";
+import { getNexHealthClient } from "@/lib/nexhealth.server";
+import { FAKE_NEXHEALTH_SEED } from "@/lib/fake-nexhealth.server";
+import { createLogger, runWithLogContext } from "@/lib/logger.server";
+
+const log = createLogger("api/test");
 
 // Tool response type
 interface ToolResponse {
   result: string;
 }
 
-// Test configuration - hardcoded for simplicity
+// Test configuration - defaults to the fake NexHealth's seeded practice (npm run fake-nexhealth)
 const TEST_CONFIG = {
-  subdomain: "xyz", // Replace with your test subdomain
-  locationId: "318534", // Replace with your test location ID
-  providerId: "377851144", // Replace with your test provider ID
-  appointmentTypeId: "997003", // Replace with your test appointment type ID
-  operatoryId: "159815" // Replace with your test operatory ID
+  subdomain: process.env.NEXHEALTH_TEST_SUBDOMAIN || FAKE_NEXHEALTH_SEED.subdomain,
+  locationId: process.env.NEXHEALTH_TEST_LOCATION_ID || FAKE_NEXHEALTH_SEED.locationId,
+  providerId: process.env.NEXHEALTH_TEST_PROVIDER_ID || FAKE_NEXHEALTH_SEED.providerIds[0],
+  appointmentTypeId: process.env.NEXHEALTH_TEST_APPOINTMENT_TYPE_ID || FAKE_NEXHEALTH_SEED.appointmentTypeIds[0],
+  operatoryId: process.env.NEXHEALTH_TEST_OPERATORY_ID || FAKE_NEXHEALTH_SEED.operatoryIds[0]
 };
 
 // GET method for health check
 export async function GET() {
   try {
-    console.log("=== TEST WEBHOOK HEALTH CHECK ===");
-    console.log("Timestamp:", new Date().toISOString());
-    console.log("Test configuration:", TEST_CONFIG);
+    log.info("Test webhook health check", TEST_CONFIG);
     
     return NextResponse.json({
       status: "healthy",
@@ -35,7 +31,7 @@ export async function GET() {
       config: TEST_CONFIG
     });
   } catch (error) {
-    console.error("Test health check failed:", error);
+    log.error("Test health check failed", error);
     return NextResponse.json({
       status: "unhealthy",
       timestamp: new Date().toISOString(),
@@ -46,111 +42,26 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
-    // === EXTENSIVE DEBUGGING LOGGING ===
-    console.log("=== TEST VAPI WEBHOOK RECEIVED ===");
-    console.log("Timestamp:", new Date().toISOString());
-    console.log("Request URL:", request.url);
-    console.log("Request method:", request.method);
-    
-    // Log all headers for debugging
-    const headers: { [key: string]: string } = {};
-    request.headers.forEach((value, key) => {
-      headers[key] = value;
-    });
-    console.log("Request headers:", JSON.stringify(headers, null, 2));
-    
     // Get the raw body
     const rawBody = await request.text();
-    console.log("Raw body length:", rawBody.length);
-    console.log("Raw body:", rawBody);
-    
-    const vapiSignature = request.headers.get("X-Vapi-Signature");
-    const vapiSecret = request.headers.get("x-vapi-secret");
-    console.log("Vapi signature header:", vapiSignature);
-    console.log("Vapi secret header:", vapiSecret);
-    
-    // For testing, we'll skip signature verification but log it
-    console.log("⚠️ SKIPPING SIGNATURE VERIFICATION FOR TESTING");
-    
+
+    // For testing, we'll skip signature verification but log whether it was sent
+    log.warn("⚠️ Skipping signature verification for testing", {
+      has_signature: !!request.headers.get("X-Vapi-Signature"),
+      has_secret: !!request.headers.get("x-vapi-secret"),
+    });
+
     const payload = JSON.parse(rawBody);
     const { message } = payload;
 
-    console.log("=== PARSED PAYLOAD ===");
-    console.log("Full payload structure:", JSON.stringify(payload, null, 2));
-    console.log("Message type:", message?.type);
-    console.log("Message keys:", Object.keys(message || {}));
-
     // Extract common data
     const vapiCallId = message?.call?.id;
     const vapiAssistantId = message?.assistant?.id || message?.call?.assistantId;
-    
-    console.log("=== EXTRACTED DATA ===");
-    console.log("Vapi Call ID:", vapiCallId);
-    console.log("Vapi Assistant ID:", vapiAssistantId);
-
-    if (message.type === "tool-calls") {
-      console.log("=== HANDLING TEST TOOL-CALLS ===");
-      console.log("Tool calls received:", JSON.stringify(message.toolCallList || [], null, 2));
-      
-      // Execute tools and return results
-      const toolResults = await executeTestTools(message.toolCallList || [], vapiCallId);
-      console.log("=== TOOL RESULTS ===");
-      console.log("Returning results:", JSON.stringify(toolResults, null, 2));
-      
-      return NextResponse.json({ results: toolResults });
-
-    } else if (message.type === "status-update") {
-      console.log("=== HANDLING TEST STATUS-UPDATE ===");
-      console.log("Status update data:", { status: message?.status, call: message?.call });
-      
-      return NextResponse.json({ 
-        received: true, 
-        timestamp: new Date().toISOString(),
-        type: "status-update" 
-      });
-
-    } else if (message.type === "transcript") {
-      console.log("=== HANDLING TEST TRANSCRIPT ===");
-      console.log("Transcript data:", {
-        text: message?.transcript?.text,
-        role: message?.transcript?.role,
-        timestamp: message?.transcript?.timestamp
-      });
-      
-      return NextResponse.json({ 
-        received: true, 
-        timestamp: new Date().toISOString(),
-        type: "transcript" 
-      });
-
-    } else if (message.type === "hang") {
-      console.log("=== HANDLING TEST HANG ===");
-      console.log("Call ended:", message?.call);
-      
-      return NextResponse.json({ 
-        received: true, 
-        timestamp: new Date().toISOString(),
-        type: "hang" 
-      });
-
-    } else {
-      console.log("=== UNKNOWN MESSAGE TYPE ===");
-      console.log("Message type:", message?.type);
-      console.log("Full message:", JSON.stringify(message, null, 2));
-      
-      return NextResponse.json({ 
-        received: true, 
-        timestamp: new Date().toISOString(),
-        type: "unknown",
-        messageType: message?.type 
-      });
-    }
 
+    return await runWithLogContext({ vapi_call_id: vapiCallId }, () => handleTestMessage(message, vapiAssistantId));
   } catch (error) {
-    console.error("=== TEST WEBHOOK ERROR ===");
-    console.error("Error processing test webhook:", error);
-    console.error("Stack trace:", error instanceof Error ? error.stack : "No stack trace");
-    
+    log.error("Error processing test webhook", error);
+
     return NextResponse.json({
       error: "Internal server error",
       message: error instanceof Error ? error.message : "Unknown error",
@@ -159,67 +70,95 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function executeTestTools(toolCallList: any[], vapiCallId: string) {
-  console.log("=== EXECUTING TEST TOOLS ===");
-  console.log("Number of tools to execute:", toolCallList.length);
-  console.log("Call ID:", vapiCallId);
+async function handleTestMessage(message: any, vapiAssistantId: string) {
+  log.info("Test Vapi webhook received", { message_type: message?.type, assistant_id: vapiAssistantId });
+
+  if (message.type === "tool-calls") {
+    // Execute tools and return results
+    const toolResults = await executeTestTools(message.toolCallList || []);
+    log.debug("Returning tool results", { results: toolResults });
+    
+    return NextResponse.json({ results: toolResults });
+
+  } else if (message.type === "status-update") {
+    log.info("Handling test status-update", { status: message?.status });
+    
+    return NextResponse.json({ 
+      received: true, 
+      timestamp: new Date().toISOString(),
+      type: "status-update" 
+    });
+
+  } else if (message.type === "transcript") {
+    log.debug("Handling test transcript", { role: message?.transcript?.role });
+    
+    return NextResponse.json({ 
+      received: true, 
+      timestamp: new Date().toISOString(),
+      type: "transcript" 
+    });
+
+  } else if (message.type === "hang") {
+    log.info("Handling test hang");
+    
+    return NextResponse.json({ 
+      received: true, 
+      timestamp: new Date().toISOString(),
+      type: "hang" 
+    });
+
+  } else {
+    log.warn("Unknown message type", { message_type: message?.type });
+    
+    return NextResponse.json({ 
+      received: true, 
+      timestamp: new Date().toISOString(),
+      type: "unknown",
+      messageType: message?.type 
+    });
+  }
+}
+
+async function executeTestTools(toolCallList: any[]) {
+  log.info("Executing test tools", { tool_count: toolCallList.length });
 
   const results = [];
 
   for (const toolCall of toolCallList) {
-    console.log("=== PROCESSING TOOL CALL ===");
-    console.log("Tool ID:", toolCall.id);
-    console.log("Function name:", toolCall.function?.name);
-    console.log("Function arguments:", toolCall.function?.arguments);
+    log.info("Processing tool call", { tool_call_id: toolCall.id, tool_name: toolCall.function?.name });
 
     try {
       let result: ToolResponse;
 
       switch (toolCall.function?.name) {
         case "get_appointment_types":
-          result = await handleGetAppointmentTypes(
-            toolCall.function.arguments, 
-            vapiCallId
-          );
+          result = await handleGetAppointmentTypes(toolCall.function.arguments);
           break;
 
         case "get_providers":
-          result = await handleGetProviders(
-            toolCall.function.arguments, 
-            vapiCallId
-          );
+          result = await handleGetProviders(toolCall.function.arguments);
           break;
 
         case "get_appointment_slots":
-          result = await handleGetAppointmentSlots(
-            toolCall.function.arguments, 
-            vapiCallId
-          );
+          result = await handleGetAppointmentSlots(toolCall.function.arguments);
           break;
 
         case "get_operatories":
-          result = await handleGetOperatories(
-            toolCall.function.arguments, 
-            vapiCallId
-          );
+          result = await handleGetOperatories(toolCall.function.arguments);
           break;
 
         case "get_locations":
-          result = await handleGetLocations(
-            toolCall.function.arguments, 
-            vapiCallId
-          );
+          result = await handleGetLocations(toolCall.function.arguments);
           break;
 
         default:
-          console.log("❌ Unknown function:", toolCall.function?.name);
+          log.warn("❌ Unknown function", { tool_name: toolCall.function?.name });
           result = {
             result: `Error: Unknown function '${toolCall.function?.name}'. Available functions: get_appointment_types, get_providers, get_appointment_slots, get_operatories, get_locations`
           };
       }
 
-      console.log("✅ Tool executed successfully:", toolCall.function?.name);
-      console.log("Result:", result.result);
+      log.info("✅ Tool executed successfully", { tool_name: toolCall.function?.name });
 
       results.push({
         toolCallId: toolCall.id,
@@ -227,7 +166,7 @@ async function executeTestTools(toolCallList: any[], vapiCallId: string) {
       });
 
     } catch (error) {
-      console.error("❌ Tool execution failed:", toolCall.function?.name, error);
+      log.error("❌ Tool execution failed", { tool_name: toolCall.function?.name, error });
       
       results.push({
         toolCallId: toolCall.id,
@@ -236,26 +175,20 @@ async function executeTestTools(toolCallList: any[], vapiCallId: string) {
     }
   }
 
-  console.log("=== ALL TOOLS EXECUTED ===");
-  console.log("Total results:", results.length);
+  log.info("All tools executed", { result_count: results.length });
   
   return results;
 }
 
-async function handleGetAppointmentTypes(params: any, vapiCallId: string): Promise<ToolResponse> {
-  console.log("=== GET APPOINTMENT TYPES ===");
-  console.log("Call ID:", vapiCallId);
-  console.log("Parameters:", params);
-  console.log("Using config:", { subdomain: TEST_CONFIG.subdomain, locationId: TEST_CONFIG.locationId });
+async function handleGetAppointmentTypes(params: any): Promise<ToolResponse> {
+  log.info("Get appointment types", { subdomain: TEST_CONFIG.subdomain, location_id: TEST_CONFIG.locationId, arguments: params });
 
   try {
-    const appointmentTypes = await getAppointmentTypes(
-      TEST_CONFIG.subdomain,
+    const appointmentTypes = await getNexHealthClient(TEST_CONFIG.subdomain).getAppointmentTypes(
       TEST_CONFIG.locationId
     );
 
-    console.log("✅ Appointment types retrieved:", appointmentTypes?.length || 0);
-    console.log("Raw data:", JSON.stringify(appointmentTypes, null, 2));
+    log.info("✅ Appointment types retrieved", { count: appointmentTypes?.length || 0 });
 
     if (!appointmentTypes || appointmentTypes.length === 0) {
       return {
@@ -273,27 +206,22 @@ async function handleGetAppointmentTypes(params: any, vapiCallId: string): Promi
     };
 
   } catch (error) {
-    console.error("❌ Error getting appointment types:", error);
+    log.error("❌ Error getting appointment types", error);
     return {
       result: `Error retrieving appointment types: ${error instanceof Error ? error.message : "Unknown error"}`
     };
   }
 }
 
-async function handleGetProviders(params: any, vapiCallId: string): Promise<ToolResponse> {
-  console.log("=== GET PROVIDERS ===");
-  console.log("Call ID:", vapiCallId);
-  console.log("Parameters:", params);
-  console.log("Using config:", { subdomain: TEST_CONFIG.subdomain, locationId: TEST_CONFIG.locationId });
+async function handleGetProviders(params: any): Promise<ToolResponse> {
+  log.info("Get providers", { subdomain: TEST_CONFIG.subdomain, location_id: TEST_CONFIG.locationId, arguments: params });
 
   try {
-    const providers = await getProviders(
-      TEST_CONFIG.subdomain,
+    const providers = await getNexHealthClient(TEST_CONFIG.subdomain).getProviders(
       TEST_CONFIG.locationId
     );
 
-    console.log("✅ Providers retrieved:", providers?.length || 0);
-    console.log("Raw data:", JSON.stringify(providers, null, 2));
+    log.info("✅ Providers retrieved", { count: providers?.length || 0 });
 
     if (!providers || providers.length === 0) {
       return {
@@ -311,18 +239,15 @@ async function handleGetProviders(params: any, vapiCallId: string): Promise<Tool
     };
 
   } catch (error) {
-    console.error("❌ Error getting providers:", error);
+    log.error("❌ Error getting providers", error);
     return {
       result: `Error retrieving providers: ${error instanceof Error ? error.message : "Unknown error"}`
     };
   }
 }
 
-async function handleGetAppointmentSlots(params: any, vapiCallId: string): Promise<ToolResponse> {
-  console.log("=== GET APPOINTMENT SLOTS ===");
-  console.log("Call ID:", vapiCallId);
-  console.log("Parameters:", params);
-  console.log("Using config:", TEST_CONFIG);
+async function handleGetAppointmentSlots(params: any): Promise<ToolResponse> {
+  log.info("Get appointment slots", { subdomain: TEST_CONFIG.subdomain, location_id: TEST_CONFIG.locationId, arguments: params });
 
   try {
     const parsedParams = typeof params === 'string' ? JSON.parse(params) : params;
@@ -335,10 +260,9 @@ async function handleGetAppointmentSlots(params: any, vapiCallId: string): Promi
       };
     }
 
-    console.log("Getting slots for:", { date, appointmentTypeId });
+    log.info("Getting slots", { date, appointment_type_id: appointmentTypeId });
 
-    const slots = await getAppointmentSlots(
-      TEST_CONFIG.subdomain,
+    const slots = await getNexHealthClient(TEST_CONFIG.subdomain).getAppointmentSlots(
       TEST_CONFIG.locationId,
       {
         appointment_type_id: appointmentTypeId,
@@ -349,8 +273,7 @@ async function handleGetAppointmentSlots(params: any, vapiCallId: string): Promi
       }
     );
 
-    console.log("✅ Appointment slots retrieved:", slots?.length || 0);
-    console.log("Raw data:", JSON.stringify(slots, null, 2));
+    log.info("✅ Appointment slots retrieved", { count: slots?.length || 0 });
 
     if (!slots || slots.length === 0) {
       return {
@@ -375,27 +298,22 @@ async function handleGetAppointmentSlots(params: any, vapiCallId: string): Promi
     };
 
   } catch (error) {
-    console.error("❌ Error getting appointment slots:", error);
+    log.error("❌ Error getting appointment slots", error);
     return {
       result: `Error retrieving appointment slots: ${error instanceof Error ? error.message : "Unknown error"}`
     };
   }
 }
 
-async function handleGetOperatories(params: any, vapiCallId: string): Promise<ToolResponse> {
-  console.log("=== GET OPERATORIES ===");
-  console.log("Call ID:", vapiCallId);
-  console.log("Parameters:", params);
-  console.log("Using config:", { subdomain: TEST_CONFIG.subdomain, locationId: TEST_CONFIG.locationId });
+async function handleGetOperatories(params: any): Promise<ToolResponse> {
+  log.info("Get operatories", { subdomain: TEST_CONFIG.subdomain, location_id: TEST_CONFIG.locationId, arguments: params });
 
   try {
-    const operatories = await getOperatories(
-      TEST_CONFIG.subdomain,
+    const operatories = await getNexHealthClient(TEST_CONFIG.subdomain).getOperatories(
       TEST_CONFIG.locationId
     );
 
-    console.log("✅ Operatories retrieved:", operatories?.length || 0);
-    console.log("Raw data:", JSON.stringify(operatories, null, 2));
+    log.info("✅ Operatories retrieved", { count: operatories?.length || 0 });
 
     if (!operatories || operatories.length === 0) {
       return {
@@ -413,27 +331,22 @@ async function handleGetOperatories(params: any, vapiCallId: string): Promise<To
     };
 
   } catch (error) {
-    console.error("❌ Error getting operatories:", error);
+    log.error("❌ Error getting operatories", error);
     return {
       result: `Error retrieving operatories: ${error instanceof Error ? error.message : "Unknown error"}`
     };
   }
 }
 
-async function handleGetLocations(params: any, vapiCallId: string): Promise<ToolResponse> {
-  console.log("=== GET LOCATIONS ===");
-  console.log("Call ID:", vapiCallId);
-  console.log("Parameters:", params);
-  console.log("Using config:", { subdomain: TEST_CONFIG.subdomain, locationId: TEST_CONFIG.locationId });
+async function handleGetLocations(params: any): Promise<ToolResponse> {
+  log.info("Get locations", { subdomain: TEST_CONFIG.subdomain, location_id: TEST_CONFIG.locationId, arguments: params });
 
   try {
-    const location = await getLocationDetails(
-      TEST_CONFIG.subdomain,
+    const location = await getNexHealthClient(TEST_CONFIG.subdomain).getLocation(
       TEST_CONFIG.locationId
     );
 
-    console.log("✅ Location details retrieved");
-    console.log("Raw data:", JSON.stringify(location, null, 2));
+    log.info("✅ Location details retrieved");
 
     if (!location) {
       return {
@@ -442,7 +355,8 @@ async function handleGetLocations(params: any, vapiCallId: string): Promise<Tool
     }
 
     // Format the results for voice response
-    const locationInfo = `${location.name || "Unnamed location"} located at ${location.address?.street || "address not available"}`;
+    const address = location.address as { street?: string } | undefined;
+    const locationInfo = `${location.name || "Unnamed location"} located at ${address?.street || "address not available"}`;
     const additionalInfo = location.phone ? `, phone: ${location.phone}` : "";
 
     return {
@@ -450,7 +364,7 @@ async function handleGetLocations(params: any, vapiCallId: string): Promise<Tool
     };
 
   } catch (error) {
-    console.error("❌ Error getting location details:", error);
+    log.error("❌ Error getting location details", error);
     return {
       result: `Error retrieving location information: ${error instanceof Error ? error.message : "Unknown error"}`
     };
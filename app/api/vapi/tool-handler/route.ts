@@ -1,32 +1,127 @@
 import { NextRequest, NextResponse } from "next/server";
 import crypto from "crypto";
 import db from "@/lib/prisma";
-import { 
-  createPatient, 
-  getAppointmentSlots, 
-  bookAppointment,
-  searchPatients,
-  getAppointmentTypeById
-} from "@/lib/nexhealth.server";
+import { getNexHealthClient } from "@/lib/nexhealth.server";
+import { countNexHealthRequests, getNexHealthErrorText, isNexHealthRejection } from "@/lib/nexhealth-client.server";
+import { NexHealthProviderSlots } from "@/lib/nexhealth-schemas";
+import {
+  AppointmentSlot,
+  getCallSession,
+  updateCallSession,
+  getOfferedSlot,
+  getCallerCandidates
+} from "@/lib/call-session.server";
+import {
+  getProcessedToolCall,
+  recordProcessedToolCall,
+  getBookingFingerprint,
+  claimBooking,
+  releaseBookingClaim,
+  isStaleBookingClaim
+} from "@/lib/processed-tool-calls.server";
+import { resolveSearchWindow } from "@/lib/date-resolution";
+import { ServiceMatchResult, matchService } from "@/lib/service-matching";
+import { VapiToolArgs, VapiToolName, parseToolArguments } from "@/lib/vapi-tools";
+import { recordToolInvocation } from "@/lib/tool-invocations.server";
+import {
+  WEEKDAYS,
+  DEFAULT_PRACTICE_TIMEZONE,
+  getLocalTimeParts,
+  parseTimeOfDay,
+  formatSpokenDateTime
+} from "@/lib/practice-time";
+import { addLogContext, createLogger, runWithLogContext } from "@/lib/logger.server";
+import { getAcceptedWebhookSecrets, verifyVapiWebhook } from "@/lib/vapi-webhook-secrets.server";
+import { completeWebhookEvent, processWebhookEvent, recordWebhookEvent } from "@/lib/webhook-inbox.server";
+import { getVapiEventId, processVapiCallEvent } from "@/lib/vapi-call-events.server";
+import type { PracticeLocation } from "@prisma/client";
+import {
+  getPracticeLocations,
+  scopePracticeToLocation,
+  resolveCallLocation,
+  findLocationByPhoneNumberId,
+  findLocationByNexHealthId,
+  findLocationByName,
+  findPracticeByPhoneNumberId,
+  formatSpokenOfficeList
+} from "@/lib/practice-locations.server";
+import { buildCallTimeAssistant } from "@/lib/vapi-assistant-request.server";
+import { emitPracticeEvent } from "@/lib/outbound-webhooks.server";
+
+const log = createLogger("api/vapi/tool-handler");
 
 // Tool response type
 interface ToolResponse {
   result: string;
+  transient?: boolean; // Placeholder answer (e.g. a booking still in progress); never stored as the tool call's result
+  bookingFingerprint?: string; // Booking claim this response settles; only its holder completes the claim row
 }
 
+interface ToolContext {
+  practice: any; // Scoped to the call's office once it is known
+  locations: PracticeLocation[];
+  vapiCallId: string;
+  toolCallId?: string;
+}
+
+// Handlers for the tools in the registry; the mapped type makes a missing handler a type error
+const TOOL_HANDLERS: { [N in VapiToolName]: (args: VapiToolArgs<N>, context: ToolContext) => Promise<ToolResponse> } = {
+  select_location: (args, { practice, locations, vapiCallId }) => handleSelectLocation(args, practice, locations, vapiCallId),
+  lookup_caller: (args, { practice, vapiCallId }) => handleLookupCaller(args, practice, vapiCallId),
+  identify_patient: (args, { practice, vapiCallId }) => handleIdentifyPatient(args, practice, vapiCallId),
+  check_appointment_type: (args, { practice, vapiCallId }) => handleCheckAppointmentType(args, practice, vapiCallId),
+  check_availability: (args, { practice, vapiCallId }) => handleFindAppointmentSlots(args, practice, vapiCallId),
+  schedule_appointment: (args, { practice, vapiCallId, toolCallId }) => handleBookAppointment(args, practice, vapiCallId, toolCallId),
+  get_patient_appointments: (args, { practice, locations, vapiCallId }) => handleGetPatientAppointments(args, practice, locations, vapiCallId),
+  cancel_appointment: (args, { practice, locations, vapiCallId }) => handleCancelAppointment(args, practice, locations, vapiCallId),
+  reschedule_appointment: (args, { practice, locations, vapiCallId, toolCallId }) => handleRescheduleAppointment(args, practice, locations, vapiCallId, toolCallId),
+};
+
+// Tools whose appointment types, providers and slots differ between offices. Caller lookups
+// and existing appointments work across offices, so only these wait for the office to be known.
+const LOCATION_SCOPED_TOOLS: VapiToolName[] = ["check_appointment_type", "check_availability", "schedule_appointment"];
+
+// Caller's scheduling preferences for check_availability
+interface SlotPreferences {
+  part_of_day?: "morning" | "afternoon" | "evening";
+  earliest_time?: string;
+  latest_time?: string;
+  weekdays?: string[];
+  preferred_provider?: string;
+}
+
+// Local time ranges (minutes since midnight) for each part of day
+const PART_OF_DAY_RANGES: Record<string, { start: number; end: number }> = {
+  morning: { start: 0, end: 12 * 60 },
+  afternoon: { start: 12 * 60, end: 17 * 60 },
+  evening: { start: 17 * 60, end: 24 * 60 }
+};
+
+// Caller-ID lookups on shared family numbers can return many patients; only keep the first few
+const MAX_CALLER_CANDIDATES = 5;
+
+// When a requested slot has been taken, look this many days ahead for the nearest alternatives
+const ALTERNATIVE_SLOT_SEARCH_DAYS = 3;
+
+// How far ahead get_patient_appointments looks for upcoming appointments
+const UPCOMING_APPOINTMENTS_WINDOW_DAYS = 365;
+
+// How long an assistant-request waits for the caller-ID lookup before answering without it
+const ASSISTANT_REQUEST_CALLER_LOOKUP_MS = 2500;
+
+// Vapi waits about 20 seconds for a tool result; all NexHealth requests of one tool call share this much
+const TOOL_CALL_NEXHEALTH_BUDGET_MS = 15000;
+
 // GET method for health check and connectivity testing
 export async function GET() {
   try {
-    console.log("=== WEBHOOK HEALTH CHECK ===");
-    console.log("Timestamp:", new Date().toISOString());
-    console.log("Environment check:");
-    console.log("- NEXT_PUBLIC_APP_URL:", process.env.NEXT_PUBLIC_APP_URL);
-    console.log("- VAPI_WEBHOOK_SECRET present:", !!process.env.VAPI_WEBHOOK_SECRET);
-    console.log("- Database connection:", "Testing...");
-    
     // Test database connection
     const testQuery = await db.practice.count();
-    console.log("- Database test result: Practice count =", testQuery);
+    log.info("Webhook health check", {
+      app_url: process.env.NEXT_PUBLIC_APP_URL,
+      has_webhook_secret: !!process.env.VAPI_WEBHOOK_SECRET,
+      practice_count: testQuery,
+    });
     
     return NextResponse.json({
       status: "healthy",
@@ -40,7 +135,7 @@ export async function GET() {
       }
     });
   } catch (error) {
-    console.error("Health check failed:", error);
+    log.error("Health check failed", error);
     return NextResponse.json({
       status: "unhealthy",
       timestamp: new Date().toISOString(),
@@ -50,114 +145,88 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
+  // Every entry logged while handling this webhook carries the request id, and the
+  // Vapi call id once it has been read from the payload
+  return runWithLogContext({ request_id: crypto.randomUUID() }, () => handleWebhook(request));
+}
+
+async function handleWebhook(request: NextRequest) {
   try {
-    // === EXTENSIVE DEBUGGING LOGGING ===
-    console.log("=== VAPI WEBHOOK RECEIVED ===");
-    console.log("Timestamp:", new Date().toISOString());
-    console.log("Request URL:", request.url);
-    console.log("Request method:", request.method);
-    
-    // Log all headers for debugging
-    const headers: { [key: string]: string } = {};
-    request.headers.forEach((value, key) => {
-      headers[key] = value;
-    });
-    console.log("Request headers:", JSON.stringify(headers, null, 2));
-    
     // Get the raw body for signature verification
     const rawBody = await request.text();
-    console.log("Raw body length:", rawBody.length);
-    console.log("Raw body preview (first 500 chars):", rawBody.substring(0, 500));
-    
-    const vapiSignature = request.headers.get("X-Vapi-Signature");
-    const vapiSecret = request.headers.get("x-vapi-secret");
-    console.log("Vapi signature header:", vapiSignature);
-    console.log("Vapi secret header:", vapiSecret);
-    
-    // --- Webhook Signature Verification ---
-    const WEBHOOK_SECRET = process.env.VAPI_WEBHOOK_SECRET || "laine-webhook-secret-change-me";
-    console.log("Using webhook secret:", WEBHOOK_SECRET.substring(0, 10) + "...");
-    
-    // Check if Vapi is sending the secret directly in x-vapi-secret header
-    if (vapiSecret) {
-      console.log("Using direct secret verification");
-      if (vapiSecret !== WEBHOOK_SECRET) {
-        console.warn("Invalid webhook secret in x-vapi-secret header");
-        return new Response("Forbidden: Invalid secret", { status: 403 });
-      }
-      console.log("✅ Direct secret verification passed");
-    } else if (vapiSignature && WEBHOOK_SECRET) {
-      // Traditional HMAC signature verification
-      console.log("Using HMAC signature verification");
-      const generatedSignature = crypto
-        .createHmac("sha256", WEBHOOK_SECRET)
-        .update(rawBody)
-        .digest("hex");
-
-      const expectedSignature = `sha256=${generatedSignature}`;
-      console.log("Generated signature:", expectedSignature);
-      console.log("Received signature:", vapiSignature);
-      console.log("Signatures match:", expectedSignature === vapiSignature);
-
-      if (!crypto.timingSafeEqual(Buffer.from(expectedSignature), Buffer.from(vapiSignature))) {
-        console.warn("Invalid webhook signature.");
-        return new Response("Forbidden: Invalid signature", { status: 403 });
-      }
-      console.log("✅ HMAC signature verification passed");
-    } else {
-      console.warn("No valid authentication method found");
-      console.log("Signature present:", !!vapiSignature);
-      console.log("Secret present:", !!vapiSecret);
-      console.log("Webhook secret configured:", !!WEBHOOK_SECRET);
-      return new Response("Unauthorized: No valid authentication", { status: 401 });
-    }
-    // --- End Signature Verification ---
 
-    const payload = JSON.parse(rawBody);
+    let payload: any;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      log.warn("Vapi webhook body is not valid JSON");
+      return new Response("Bad Request: Invalid JSON", { status: 400 });
+    }
     const { message } = payload;
 
-    console.log("=== PARSED PAYLOAD ===");
-    console.log("Full payload structure:", JSON.stringify(payload, null, 2));
-    console.log("Message type:", message?.type);
-    console.log("Message keys:", Object.keys(message || {}));
-
     // Extract common data
     const vapiCallId = message?.call?.id;
     const vapiAssistantId = message?.assistant?.id || message?.call?.assistantId;
-    
-    console.log("=== EXTRACTED DATA ===");
-    console.log("Vapi Call ID:", vapiCallId);
-    console.log("Vapi Assistant ID:", vapiAssistantId);
-    console.log("Call data keys:", Object.keys(message?.call || {}));
-    console.log("Assistant data keys:", Object.keys(message?.assistant || {}));
+    // Calls answered by an assistant assembled at call time have no assistant id; the dialed number identifies the practice
+    const dialedPhoneNumberId = message?.phoneNumber?.id || message?.call?.phoneNumberId;
 
-    if (vapiCallId && vapiAssistantId) {
-      try {
-        // Find the practice associated with this assistant
-        console.log("=== PRACTICE LOOKUP ===");
-        console.log("Searching for practice with vapi_assistant_id:", vapiAssistantId);
-        
-        const practice = await db.practice.findFirst({
-          where: { vapi_assistant_id: vapiAssistantId },
-        });
+    // --- Webhook Signature Verification ---
+    // Each practice's assistant sends its own secret, so the practice is resolved before verifying
+    const practice = (vapiAssistantId
+      ? await db.practice.findFirst({ where: { vapi_assistant_id: vapiAssistantId } })
+      : null) || await findPracticeByPhoneNumberId(dialedPhoneNumberId);
+
+    // assistant-request is sent with the phone number's server settings, before any assistant exists
+    const acceptedSecrets = getAcceptedWebhookSecrets(practice, { includeGlobal: message?.type === "assistant-request" });
+    const verification = verifyVapiWebhook(request.headers, rawBody, acceptedSecrets);
+    if (verification === "invalid_secret") {
+      log.warn("Invalid webhook secret in x-vapi-secret header", { assistant_id: vapiAssistantId });
+      return new Response("Forbidden: Invalid secret", { status: 403 });
+    } else if (verification === "invalid_signature") {
+      log.warn("Invalid webhook signature.", { assistant_id: vapiAssistantId });
+      return new Response("Forbidden: Invalid signature", { status: 403 });
+    } else if (verification === "unauthenticated") {
+      log.warn("No valid authentication method found", {
+        assistant_id: vapiAssistantId,
+        has_signature: !!request.headers.get("X-Vapi-Signature"),
+        has_secret: !!request.headers.get("x-vapi-secret"),
+        practice_found: !!practice,
+      });
+      return new Response("Unauthorized: No valid authentication", { status: 401 });
+    }
+    log.debug("✅ Webhook verification passed");
+    // --- End Signature Verification ---
 
-        console.log("Practice found:", !!practice);
-        if (practice) {
-          console.log("Practice ID:", practice.id);
-          console.log("Practice name:", practice.name);
-        } else {
-          console.log("❌ No practice found for assistant ID:", vapiAssistantId);
-          // Let's also check what assistant IDs exist in the database
-          const allPractices = await db.practice.findMany({
-            select: { id: true, name: true, vapi_assistant_id: true }
-          });
-          console.log("All practices in database:", JSON.stringify(allPractices, null, 2));
-        }
+    addLogContext({ vapi_call_id: vapiCallId, assistant_id: vapiAssistantId });
+    log.info("Vapi webhook received", { message_type: message?.type });
+    log.debug("Vapi webhook payload", payload);
 
+    if (vapiCallId && (vapiAssistantId || dialedPhoneNumberId)) {
+      try {
         if (practice) {
+          addLogContext({ practice_id: practice.id });
+          const locations = await getPracticeLocations(practice);
+          await rememberDialedLocation(message, practice, locations, vapiCallId);
+          // Look the caller up by caller ID once per call, ahead of any tool that needs it
+          const callerLookup = preidentifyCaller(message, practice, vapiCallId);
+          // Vapi only waits a few seconds for an assistant, so the greeting doesn't wait on a slow lookup
+          await (message.type === "assistant-request"
+            ? Promise.race([callerLookup, new Promise((resolve) => setTimeout(resolve, ASSISTANT_REQUEST_CALLER_LOOKUP_MS))])
+            : callerLookup);
+          const inbox = await recordVapiEvent(rawBody, payload, practice.id);
+
+          if (message.type === "assistant-request") {
+            log.info("Handling assistant-request", { phone_number_id: dialedPhoneNumberId });
+            const assistant = await buildCallTimeAssistant(practice, locations, message, vapiCallId);
+            if (inbox) {
+              await completeWebhookEvent(inbox.event.id, { status: "processed", message: "Assistant assembled for call" });
+            }
+            return NextResponse.json({ assistant });
+          }
+
           if (message.type === "tool-calls") {
             // Handle tool calls
-            console.log("=== HANDLING TOOL-CALLS ===");
+            log.info("Handling tool-calls", { tool_count: message.toolCallList?.length || 0 });
             await handleToolCalls(message, practice, vapiCallId);
             
             // Create or update basic call log
@@ -169,7 +238,6 @@ export async function POST(request: NextRequest) {
               detected_intent: "tool_call_initiated",
               patient_phone_number: message?.call?.customerPhoneNumber || null,
             };
-            console.log("Preparing tool-call log data:", JSON.stringify(toolCallLogData, null, 2));
             
             try {
               const upsertResult = await db.callLog.upsert({
@@ -180,144 +248,56 @@ export async function POST(request: NextRequest) {
                 },
                 create: toolCallLogData,
               });
-              console.log("✅ Tool-call log upserted successfully:", upsertResult.id);
+              log.debug("✅ Tool-call log upserted", { call_log_id: upsertResult.id });
             } catch (dbError) {
-              console.error("❌ Database error during tool-call log upsert:", dbError);
+              log.error("❌ Database error during tool-call log upsert", dbError);
             }
 
             // Return tool results
-            const toolResults = await executeTools(message.toolCallList || [], practice, vapiCallId);
-            return NextResponse.json({ results: toolResults });
-
-          } else if (message.type === "status-update") {
-            // Update call status
-            console.log("=== HANDLING STATUS-UPDATE ===");
-            console.log("Status update data:", { status: message?.status, call: message?.call });
-            
-            const statusUpdateData = {
-              vapi_call_id: vapiCallId,
-              practice_id: practice.id,
-              call_timestamp_start: message?.call?.startedAt ? new Date(message.call.startedAt) : new Date(),
-              call_status: message?.status || "INITIATED",
-              patient_phone_number: message?.call?.customerPhoneNumber || null,
-            };
-            console.log("Preparing status-update log data:", JSON.stringify(statusUpdateData, null, 2));
-            
-            try {
-              const upsertResult = await db.callLog.upsert({
-                where: { vapi_call_id: vapiCallId },
-                update: {
-                  call_status: message?.status || "UNKNOWN",
-                },
-                create: statusUpdateData,
-              });
-              console.log("✅ Status-update log upserted successfully:", upsertResult.id);
-            } catch (dbError) {
-              console.error("❌ Database error during status-update log upsert:", dbError);
-            }
-
-          } else if (message.type === "transcript" && message.transcriptType === "final") {
-            // Update transcript incrementally
-            console.log("=== HANDLING TRANSCRIPT ===");
-            console.log("Transcript data:", { transcript: message?.transcript, transcriptType: message?.transcriptType });
-            
-            const transcriptUpdateData = {
-              vapi_call_id: vapiCallId,
-              practice_id: practice.id,
-              call_timestamp_start: message?.call?.startedAt ? new Date(message.call.startedAt) : new Date(),
-              call_status: "IN_PROGRESS",
-              transcript_text: message?.transcript || null,
-              patient_phone_number: message?.call?.customerPhoneNumber || null,
-            };
-            console.log("Preparing transcript log data:", JSON.stringify(transcriptUpdateData, null, 2));
-            
-            try {
-              const upsertResult = await db.callLog.upsert({
-                where: { vapi_call_id: vapiCallId },
-                update: {
-                  transcript_text: message?.transcript || null,
-                },
-                create: transcriptUpdateData,
-              });
-              console.log("✅ Transcript log upserted successfully:", upsertResult.id);
-            } catch (dbError) {
-              console.error("❌ Database error during transcript log upsert:", dbError);
+            const toolResults = await executeTools(message.toolCallList || [], practice, locations, vapiCallId);
+            if (inbox) {
+              await completeWebhookEvent(inbox.event.id, { status: "processed", message: `${toolResults.length} tool result(s) returned` });
             }
+            return NextResponse.json({ results: toolResults });
+          }
 
-          } else if (message.type === "end-of-call-report") {
-            // Final call summary and cleanup
-            console.log("=== HANDLING END-OF-CALL-REPORT ===");
-            console.log("End-of-call data:", { 
-              call: message?.call, 
-              analysis: message?.analysis, 
-              artifact: message?.artifact 
-            });
-            
-            const endOfCallData = {
-              vapi_call_id: vapiCallId,
-              practice_id: practice.id,
-              call_timestamp_start: message?.call?.startedAt ? new Date(message.call.startedAt) : new Date(),
-              call_timestamp_end: message.call?.endedAt ? new Date(message.call.endedAt) : new Date(),
-              call_status: "ENDED",
-              transcript_text: message.artifact?.transcript || null,
-              summary: message.analysis?.summary || null,
-              vapi_transcript_url: message.artifact?.recording?.stereoUrl || message.artifact?.recordingUrl || null,
-              patient_phone_number: message.call?.customerPhoneNumber || null,
-            };
-            console.log("Preparing end-of-call log data:", JSON.stringify(endOfCallData, null, 2));
-            
-            try {
-              const upsertResult = await db.callLog.upsert({
-                where: { vapi_call_id: vapiCallId },
-                update: {
-                  call_status: "ENDED",
-                  call_timestamp_end: message.call?.endedAt ? new Date(message.call.endedAt) : new Date(),
-                  transcript_text: message.artifact?.transcript || null,
-                  summary: message.analysis?.summary || null,
-                  vapi_transcript_url: message.artifact?.recording?.stereoUrl || message.artifact?.recordingUrl || null,
-                },
-                create: endOfCallData,
-              });
-              console.log("✅ End-of-call log upserted successfully:", upsertResult.id);
-              console.log(`Call ${vapiCallId} ended and logged for practice ${practice.id}`);
-            } catch (dbError) {
-              console.error("❌ Database error during end-of-call log upsert:", dbError);
-            }
+          if (inbox?.duplicate) {
+            log.info("Duplicate webhook event skipped", { webhook_event_id: inbox.event.id });
           } else {
-            console.log("=== UNHANDLED MESSAGE TYPE ===");
-            console.log("Message type:", message?.type);
-            console.log("Available message types: tool-calls, status-update, transcript, end-of-call-report");
+            await processWebhookEvent(inbox?.event.id ?? null, () => processVapiCallEvent(message, practice));
           }
         } else {
-          console.warn(`No practice found for assistant ID: ${vapiAssistantId}`);
+          log.warn("No practice found for assistant or phone number", {
+            assistant_id: vapiAssistantId,
+            phone_number_id: dialedPhoneNumberId,
+          });
+          const inbox = await recordVapiEvent(rawBody, payload, null);
+          if (inbox && !inbox.duplicate) {
+            await completeWebhookEvent(inbox.event.id, { status: "ignored", message: "No practice for this assistant or phone number" });
+          }
         }
       } catch (dbError) {
-        console.error("Database error in webhook handler:", dbError);
+        log.error("Database error in webhook handler", dbError);
       }
     } else {
-      console.log("=== MISSING REQUIRED DATA ===");
-      console.log("Call ID present:", !!vapiCallId);
-      console.log("Assistant ID present:", !!vapiAssistantId);
-      console.log("Skipping database operations due to missing IDs");
+      log.info("Skipping database operations due to missing IDs", {
+        has_call_id: !!vapiCallId,
+        has_assistant_id: !!vapiAssistantId,
+        has_phone_number_id: !!dialedPhoneNumberId,
+      });
+    }
+
+    if (message?.type === "assistant-request") {
+      // Reaching here means no assistant could be assembled; Vapi reads the error to the caller
+      return NextResponse.json({ error: "Sorry, we can't take your call right now. Please call back later." });
     }
 
-    console.log("=== WEBHOOK PROCESSING COMPLETE ===");
+    log.debug("Webhook processing complete");
     return NextResponse.json({ status: "webhook_received", type: message.type });
 
   } catch (error) {
-    console.error("=== ERROR PROCESSING VAPI WEBHOOK ===");
-    console.error("Error details:", error);
-    console.error("Error message:", error instanceof Error ? error.message : "Unknown error");
-    console.error("Error stack:", error instanceof Error ? error.stack : "No stack trace");
-    
-    // Log request details for debugging
-    try {
-      console.error("Failed request URL:", request.url);
-      console.error("Failed request method:", request.method);
-    } catch (logError) {
-      console.error("Could not log request details:", logError);
-    }
-    
+    log.error("Error processing Vapi webhook", error);
+
     return NextResponse.json(
       { 
         error: "Internal server error", 
@@ -329,82 +309,228 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Vapi message types kept in the webhook inbox. Status updates, transcripts and the like arrive
+// many times per call and are only processed, so they don't fill the inbox.
+const INBOX_VAPI_MESSAGE_TYPES = ["tool-calls", "end-of-call-report", "assistant-request"];
+
+/**
+ * Store the event in the webhook inbox. A live call must not fail because the inbox can't be
+ * written, so errors are logged and the event is processed without an inbox entry.
+ */
+async function recordVapiEvent(rawBody: string, payload: any, practiceId: string | null) {
+  if (!INBOX_VAPI_MESSAGE_TYPES.includes(payload?.message?.type)) {
+    return null;
+  }
+
+  try {
+    return await recordWebhookEvent({
+      source: "vapi",
+      eventType: payload?.message?.type || "unknown",
+      externalId: getVapiEventId(payload?.message),
+      practiceId,
+      rawBody,
+      payload,
+    });
+  } catch (error) {
+    log.error("❌ Failed to record webhook event", error);
+    return null;
+  }
+}
+
 async function handleToolCalls(message: any, practice: any, vapiCallId: string) {
-  console.log(`Handling tool calls for practice ${practice.id}, call ${vapiCallId}`);
+  log.info(`Handling tool calls for practice ${practice.id}, call ${vapiCallId}`);
   // Tool call handling logic will be expanded in future phases
 }
 
-async function executeTools(toolCallList: any[], practice: any, vapiCallId: string) {
+/**
+ * Remember which office the call is for when the caller dialed an office's own number
+ */
+async function rememberDialedLocation(message: any, practice: any, locations: PracticeLocation[], vapiCallId: string) {
+  const dialedLocation = findLocationByPhoneNumberId(locations, message?.phoneNumber?.id || message?.call?.phoneNumberId);
+  if (!dialedLocation) {
+    return;
+  }
+
+  const session = await getCallSession(vapiCallId);
+  if (session?.location_id) {
+    return;
+  }
+
+  log.info("Office resolved from dialed number", { location_id: dialedLocation.id });
+  await updateCallSession(vapiCallId, practice.id, { location_id: dialedLocation.id });
+}
+
+/**
+ * Search NexHealth for patients matching the caller's number on the first webhook of a call
+ */
+async function preidentifyCaller(message: any, practice: any, vapiCallId: string) {
+  const callerNumber: string | undefined =
+    message?.call?.customerPhoneNumber || message?.call?.customer?.number || message?.customer?.number;
+  if (!callerNumber || !practice.nexhealth_subdomain || !practice.nexhealth_location_id) {
+    return;
+  }
+
+  try {
+    const session = await getCallSession(vapiCallId);
+    if (session?.caller_lookup_at) {
+      return;
+    }
+
+    log.info("Caller-ID patient lookup");
+    const searchResults = await getNexHealthClient(practice.nexhealth_subdomain, practice.id).searchPatients(
+      practice.nexhealth_location_id,
+      { phone_number: callerNumber.replace(/\D/g, '').slice(-10) }
+    );
+
+    const candidates = searchResults
+      .filter((p: any) => patientHasPhoneNumber(p, callerNumber))
+      .slice(0, MAX_CALLER_CANDIDATES)
+      .map((p: any) => ({
+        patient_id: p.id.toString(),
+        first_name: p.first_name || null,
+        last_name: p.last_name || null,
+        date_of_birth: p.bio?.date_of_birth || null
+      }));
+
+    log.info(`Caller-ID lookup found ${candidates.length} candidate patient(s)`);
+
+    await updateCallSession(vapiCallId, practice.id, {
+      caller_phone_number: callerNumber,
+      caller_lookup_at: new Date(),
+      caller_candidates: candidates
+    });
+  } catch (error) {
+    // Pre-identification is best effort; the assistant can always fall back to identify_patient
+    log.error("Caller-ID lookup failed", error);
+  }
+}
+
+async function executeTools(toolCallList: any[], practice: any, locations: PracticeLocation[], vapiCallId: string) {
   const results = [];
 
   for (const toolCall of toolCallList) {
     const { id, function: fn } = toolCall;
     let result;
 
+    // Vapi retries webhooks; answer an already executed tool call with its original result
+    const processedToolCall = id ? await getProcessedToolCall(id) : null;
+    if (processedToolCall?.status === "COMPLETED" && processedToolCall.result) {
+      log.info("Tool call already processed, returning stored result", { tool_call_id: id });
+      results.push({
+        toolCallId: id,
+        name: fn.name,
+        result: processedToolCall.result,
+      });
+      continue;
+    }
+
+    // An earlier delivery of this tool call still holds a booking claim; let it finish rather than run twice.
+    // A stale claim was left by an attempt that died, and the booking below takes it over.
+    if (processedToolCall?.status === "IN_PROGRESS" && !isStaleBookingClaim(processedToolCall)) {
+      log.info("Tool call still in progress, not executing again", { tool_call_id: id });
+      results.push({
+        toolCallId: id,
+        name: fn.name,
+        result: JSON.stringify({
+          result: JSON.stringify({
+            success: false,
+            error_code: "TOOL_CALL_IN_PROGRESS",
+            message_to_patient: "I'm still working on that. Give me just a moment."
+          })
+        }),
+      });
+      continue;
+    }
+
+    const startedAt = Date.now();
+    let parsedArguments;
+    let nexhealthRequestCount = 0;
+
     try {
-      console.log("=== TOOL EXECUTION DEBUG ===");
-      console.log("Tool Call ID:", id);
-      console.log("Function Name:", fn.name);
-      console.log("Arguments type:", typeof fn.arguments);
-      console.log("Arguments value:", fn.arguments);
-      console.log("Arguments JSON string?:", typeof fn.arguments === 'string');
-      
+      log.info("Executing tool", { tool_call_id: id, tool_name: fn.name });
+
       // Parse arguments only if they are a string, otherwise use as-is
-      let parsedArguments;
       if (typeof fn.arguments === 'string') {
         try {
           parsedArguments = JSON.parse(fn.arguments);
-          console.log("✅ Successfully parsed arguments from string:", parsedArguments);
+          log.debug("✅ Parsed tool arguments from string", { arguments: parsedArguments });
         } catch (parseError) {
-          console.error("❌ Failed to parse arguments string:", parseError);
+          log.error("❌ Failed to parse arguments string", parseError);
           throw new Error(`Invalid JSON in arguments: ${parseError instanceof Error ? parseError.message : 'Unknown parse error'}`);
         }
       } else {
         parsedArguments = fn.arguments;
-        console.log("✅ Using arguments as-is (already an object):", parsedArguments);
+        log.debug("✅ Using tool arguments as-is (already an object)", { arguments: parsedArguments });
       }
 
-      switch (fn.name) {
-        case "identify_patient":
-          result = await handleIdentifyPatient(parsedArguments, practice, vapiCallId);
-          break;
-        case "check_appointment_type":
-          result = await handleCheckAppointmentType(parsedArguments, practice, vapiCallId);
-          break;
-        case "check_availability":
-          result = await handleFindAppointmentSlots(parsedArguments, practice, vapiCallId);
-          break;
-        case "schedule_appointment":
-          result = await handleBookAppointment(parsedArguments, practice, vapiCallId);
-          break;
-        case "get_patient_appointments":
-          result = await handleGetPatientAppointments(parsedArguments, practice);
-          break;
-        case "cancel_appointment":
-          result = await handleCancelAppointment(parsedArguments, practice);
-          break;
-        // Legacy tool names for backwards compatibility
-        case "identifyOrRegisterPatient":
-          result = await handleIdentifyPatient(parsedArguments, practice, vapiCallId);
-          break;
-        case "findAppointmentSlots":
-          result = await handleFindAppointmentSlots(parsedArguments, practice, vapiCallId);
-          break;
-        case "bookAppointment":
-          result = await handleBookAppointment(parsedArguments, practice, vapiCallId);
-          break;
-        default:
-          result = { error: `Unknown tool: ${fn.name}` };
+      // Validate against the tool registry before anything reaches a handler
+      const parsed = parseToolArguments(fn.name, parsedArguments);
+      if (!parsed.success) {
+        log.warn(`❌ Rejected ${fn.name} call`, { tool_call_id: id, issues: parsed.issues });
+        result = parsed.error_code === "UNKNOWN_TOOL"
+          ? { error: `Unknown tool: ${fn.name}` }
+          : {
+              result: JSON.stringify({
+                success: false,
+                error_code: "INVALID_ARGUMENTS",
+                invalid_arguments: parsed.issues,
+                message_to_patient: "I'm sorry, I missed some of the details there. Let me try that again."
+              })
+            };
+      } else {
+        // Re-read per tool call, as select_location may have just changed the office
+        const session = await getCallSession(vapiCallId);
+        const location = resolveCallLocation(locations, session?.location_id);
+
+        if (!location && locations.length > 1 && LOCATION_SCOPED_TOOLS.includes(parsed.toolName)) {
+          log.info(`${fn.name} needs an office first`, { tool_call_id: id });
+          result = buildLocationRequiredResponse(locations);
+        } else {
+          // Until an office is chosen, lookups run against the primary office
+          const toolPractice = location ? scopePracticeToLocation(practice, location) : practice;
+          const handler = TOOL_HANDLERS[parsed.toolName] as (args: unknown, context: ToolContext) => Promise<ToolResponse>;
+          const counted = await runWithLogContext({ tool_call_id: id, tool_name: fn.name, location_id: location?.id }, () =>
+            countNexHealthRequests(
+              () => handler(parsed.args, { practice: toolPractice, locations, vapiCallId, toolCallId: id }),
+              { budgetMs: TOOL_CALL_NEXHEALTH_BUDGET_MS }
+            )
+          );
+          result = counted.result;
+          nexhealthRequestCount = counted.requestCount;
+        }
       }
     } catch (error) {
-      console.error(`Error executing tool ${fn.name}:`, error);
+      log.error(`Error executing tool ${fn.name}`, { tool_call_id: id, error });
       result = { error: `Failed to execute ${fn.name}: ${error instanceof Error ? error.message : "Unknown error"}` };
     }
 
+    await recordToolInvocation({
+      vapiCallId,
+      toolCallId: id,
+      toolName: fn.name,
+      args: parsedArguments,
+      result,
+      nexhealthRequestCount,
+      durationMs: Date.now() - startedAt
+    });
+
+    const { transient, bookingFingerprint, ...response } = result;
+    const serializedResult = JSON.stringify(response);
+    if (id && !transient) {
+      await recordProcessedToolCall({
+        toolCallId: id,
+        vapiCallId,
+        practiceId: practice.id,
+        toolName: fn.name,
+        result: serializedResult,
+        bookingFingerprint
+      });
+    }
+
     results.push({
       toolCallId: id,
       name: fn.name,
-      result: JSON.stringify(result),
+      result: serializedResult,
     });
   }
 
@@ -412,93 +538,286 @@ async function executeTools(toolCallList: any[], practice: any, vapiCallId: stri
 }
 
 /**
- * Identify and register a patient in NexHealth
+ * Ask the caller which office they want before a tool that depends on it runs
  */
-async function handleIdentifyPatient(params: any, practice: any, vapiCallId: string): Promise<ToolResponse> {
+function buildLocationRequiredResponse(locations: PracticeLocation[]): ToolResponse {
+  return {
+    result: JSON.stringify({
+      success: false,
+      error_code: "LOCATION_REQUIRED",
+      offices: locations.map((location) => location.name),
+      message_to_patient: `We have a few offices. Which one would you like to visit: ${formatSpokenOfficeList(locations)}?`
+    })
+  };
+}
+
+/**
+ * Record the office the caller wants; availability and booking use it for the rest of the call
+ */
+async function handleSelectLocation(params: any, practice: any, locations: PracticeLocation[], vapiCallId: string): Promise<ToolResponse> {
+  log.info("Selecting office");
+  log.debug("select_location arguments", params);
+
+  if (locations.length === 0) {
+    return {
+      result: JSON.stringify({
+        success: false,
+        error_code: "PRACTICE_CONFIG_INCOMPLETE",
+        message_to_patient: "I'm having trouble accessing our appointment system due to a configuration issue. Please call our office directly."
+      })
+    };
+  }
+
+  const location = locations.length === 1 ? locations[0] : findLocationByName(locations, params.office_name);
+  if (!location) {
+    log.info("Office name did not match", { office_count: locations.length });
+    return {
+      result: JSON.stringify({
+        success: false,
+        error_code: "LOCATION_NOT_FOUND",
+        offices: locations.map((l) => l.name),
+        message_to_patient: `I'm sorry, I didn't catch which office you meant. We have ${formatSpokenOfficeList(locations)}. Which one works best for you?`
+      })
+    };
+  }
+
+  const session = await getCallSession(vapiCallId);
+  const officeChanged = !!session?.location_id && session.location_id !== location.id;
+
+  // Slots offered for another office can't be booked here
+  await updateCallSession(vapiCallId, practice.id, {
+    location_id: location.id,
+    ...(officeChanged && { offered_slots: [] })
+  });
+
   try {
-    console.log("=== IDENTIFYING/REGISTERING PATIENT ===");
-    console.log("Parameters:", JSON.stringify(params, null, 2));
-    console.log("Practice config:", {
-      subdomain: practice.nexhealth_subdomain,
-      locationId: practice.nexhealth_location_id,
-      selectedProviders: practice.nexhealth_selected_provider_ids
+    await db.callLog.updateMany({
+      where: { vapi_call_id: vapiCallId, practice_id: practice.id },
+      data: { location_id: location.id }
     });
+  } catch (dbError) {
+    log.error("Error updating call log", dbError);
+  }
 
-    // Extract patient information from the call
-    const firstName = params.first_name as string;
-    const lastName = params.last_name as string;
-    const phoneNumber = params.phone_number as string;
-    const dateOfBirth = params.date_of_birth as string; // YYYY-MM-DD format
-    const email = params.email as string;
-    const gender = params.gender as string; // "Male", "Female", or "Other"
+  log.info("✅ Office selected", { location_id: location.id, office_changed: officeChanged });
 
-    if (!firstName || !lastName || !phoneNumber) {
-      console.warn("Missing required patient information:", { firstName, lastName, phoneNumber });
+  return {
+    result: JSON.stringify({
+      success: true,
+      location_id: location.id,
+      office_name: location.name,
+      message_to_patient: `Great, ${location.name} it is.`
+    })
+  };
+}
+
+/**
+ * Verify the caller against the patients found for their caller ID, without revealing
+ * any patient details until the caller has confirmed their date of birth or full name
+ */
+async function handleLookupCaller(params: any, practice: any, vapiCallId: string): Promise<ToolResponse> {
+  log.info("Looking up caller");
+
+  try {
+    const session = await getCallSession(vapiCallId);
+    if (!session?.caller_lookup_at) {
       return {
         result: JSON.stringify({
           success: false,
-          error_code: "MISSING_REQUIRED_INFO",
-          message_to_patient: "I need at least your first name, last name, and phone number to proceed. Could you please provide those details?"
+          error_code: "CALLER_ID_UNAVAILABLE",
+          message_to_patient: "Are you a new or existing patient with us?"
         })
       };
     }
 
-    // Validate practice configuration
-    if (!practice.nexhealth_subdomain || !practice.nexhealth_location_id) {
-      console.error("Practice NexHealth configuration incomplete:", {
-        subdomain: practice.nexhealth_subdomain,
-        locationId: practice.nexhealth_location_id
-      });
+    const candidates = getCallerCandidates(session);
+    if (candidates.length === 0) {
       return {
         result: JSON.stringify({
-          success: false,
-          error_code: "PRACTICE_CONFIG_INCOMPLETE",
-          message_to_patient: "I'm having trouble accessing our patient system due to a configuration issue. Please call our office directly for assistance."
+          success: true,
+          candidate_found: false,
+          message_to_patient: "Are you a new or existing patient with us?"
         })
       };
     }
 
-    if (!practice.nexhealth_selected_provider_ids || practice.nexhealth_selected_provider_ids.length === 0) {
-      console.error("No providers selected for practice:", practice.id);
+    const firstName = params.first_name?.trim().toLowerCase();
+    const lastName = params.last_name?.trim().toLowerCase();
+    let dateOfBirth: string | undefined = params.date_of_birth?.trim();
+    if (dateOfBirth) {
+      try {
+        dateOfBirth = new Date(dateOfBirth).toISOString().split('T')[0];
+      } catch {
+        log.warn("Invalid date_of_birth format, attempting to use as is");
+      }
+    }
+
+    // Light verification: date of birth, or first and last name together
+    if (!dateOfBirth && !(firstName && lastName)) {
       return {
         result: JSON.stringify({
-          success: false,
-          error_code: "NO_PROVIDERS_CONFIGURED",
-          message_to_patient: "I apologize, but our system isn't properly configured for new patient registration right now. Please call our office directly and a staff member will help you schedule an appointment."
+          success: true,
+          candidate_found: true,
+          verification_required: true,
+          message_to_patient: "I think I see your number in our records. To confirm it's you, could you tell me your date of birth?"
         })
       };
     }
 
-    // Ensure date_of_birth is YYYY-MM-DD if provided
-    let formattedDob = dateOfBirth;
-    if (dateOfBirth) {
-      try {
-        formattedDob = new Date(dateOfBirth).toISOString().split('T')[0];
-      } catch {
-        console.warn("Invalid date_of_birth format, attempting to use as is:", dateOfBirth);
-      }
+    const matches = candidates.filter((candidate) =>
+      (!dateOfBirth || candidate.date_of_birth === dateOfBirth) &&
+      (!firstName || candidate.first_name?.toLowerCase() === firstName) &&
+      (!lastName || candidate.last_name?.toLowerCase() === lastName)
+    );
+
+    if (matches.length !== 1) {
+      log.info("Caller verification did not resolve to one patient", { match_count: matches.length });
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "CALLER_VERIFICATION_FAILED",
+          message_to_patient: "I wasn't able to match that to our records. Let's try it another way. Could you give me your first name, last name, and phone number?"
+        })
+      };
     }
 
-    // Step 1: Search for existing patient first
-    let patient = null;
-    let patientIdToStore: string | null = null;
-    let isNewPatient = true;
-    let patientMessage = "";
+    const verifiedPatient = matches[0];
+
+    await updateCallSession(vapiCallId, practice.id, {
+      nexhealth_patient_id: verifiedPatient.patient_id,
+      is_new_patient: false
+    });
 
     try {
-      console.log("Searching for existing patient with:", { firstName, lastName, phoneNumber, formattedDob });
-      const searchResults = await searchPatients(
-        practice.nexhealth_subdomain!,
-        practice.nexhealth_location_id!,
-        {
-          first_name: firstName,
-          last_name: lastName,
-          phone_number: phoneNumber,
-          date_of_birth: formattedDob,
+      await db.callLog.updateMany({
+        where: {
+          vapi_call_id: vapiCallId,
+          practice_id: practice.id
+        },
+        data: {
+          nexhealth_patient_id: verifiedPatient.patient_id,
+          detected_intent: "caller_id_patient_verified"
+        }
+      });
+    } catch (dbError) {
+      log.error("Error updating call log", dbError);
+    }
+
+    return {
+      result: JSON.stringify({
+        success: true,
+        candidate_found: true,
+        patient_id: verifiedPatient.patient_id,
+        first_name: verifiedPatient.first_name,
+        is_new_patient: false,
+        message_to_patient: `Thanks, ${verifiedPatient.first_name || "you're verified"}! It's great to hear from you again. How can I help you today?`
+      })
+    };
+
+  } catch (error) {
+    log.error("❌ Error looking up caller", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return {
+      result: JSON.stringify({
+        success: false,
+        error_code: "CALLER_LOOKUP_FAILED",
+        message_to_patient: "Are you a new or existing patient with us?",
+        technical_details: errorMessage.substring(0, 200)
+      })
+    };
+  }
+}
+
+/**
+ * Identify and register a patient in NexHealth
+ */
+async function handleIdentifyPatient(params: any, practice: any, vapiCallId: string): Promise<ToolResponse> {
+  try {
+    log.info("Identifying/registering patient", {
+      subdomain: practice.nexhealth_subdomain,
+      location_id: practice.nexhealth_location_id,
+      selected_provider_ids: practice.nexhealth_selected_provider_ids
+    });
+    log.debug("identify_patient arguments", params);
+
+    // Extract patient information from the call
+    const firstName = params.first_name as string;
+    const lastName = params.last_name as string;
+    const phoneNumber = params.phone_number as string;
+    const dateOfBirth = params.date_of_birth as string; // YYYY-MM-DD format
+    const email = params.email as string;
+    const gender = params.gender as string; // "Male", "Female", or "Other"
+
+    if (!firstName || !lastName || !phoneNumber) {
+      log.warn("Missing required patient information", {
+        has_first_name: !!firstName,
+        has_last_name: !!lastName,
+        has_phone_number: !!phoneNumber
+      });
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "MISSING_REQUIRED_INFO",
+          message_to_patient: "I need at least your first name, last name, and phone number to proceed. Could you please provide those details?"
+        })
+      };
+    }
+
+    // Validate practice configuration
+    if (!practice.nexhealth_subdomain || !practice.nexhealth_location_id) {
+      log.error("Practice NexHealth configuration incomplete", {
+        subdomain: practice.nexhealth_subdomain,
+        locationId: practice.nexhealth_location_id
+      });
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "PRACTICE_CONFIG_INCOMPLETE",
+          message_to_patient: "I'm having trouble accessing our patient system due to a configuration issue. Please call our office directly for assistance."
+        })
+      };
+    }
+
+    if (!practice.nexhealth_selected_provider_ids || practice.nexhealth_selected_provider_ids.length === 0) {
+      log.error("No providers selected for practice");
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "NO_PROVIDERS_CONFIGURED",
+          message_to_patient: "I apologize, but our system isn't properly configured for new patient registration right now. Please call our office directly and a staff member will help you schedule an appointment."
+        })
+      };
+    }
+
+    // Ensure date_of_birth is YYYY-MM-DD if provided
+    let formattedDob = dateOfBirth;
+    if (dateOfBirth) {
+      try {
+        formattedDob = new Date(dateOfBirth).toISOString().split('T')[0];
+      } catch {
+        log.warn("Invalid date_of_birth format, attempting to use as is");
+      }
+    }
+
+    // Step 1: Search for existing patient first
+    let patient = null;
+    let patientIdToStore: string | null = null;
+    let isNewPatient = true;
+    let patientMessage = "";
+
+    try {
+      log.info("Searching for existing patient", { has_date_of_birth: !!formattedDob });
+      const searchResults = await getNexHealthClient(practice.nexhealth_subdomain!, practice.id).searchPatients(
+        practice.nexhealth_location_id!,
+        {
+          first_name: firstName,
+          last_name: lastName,
+          phone_number: phoneNumber,
+          date_of_birth: formattedDob,
         }
       );
 
-      console.log(`Patient search returned ${searchResults?.length || 0} results`);
+      log.info("Patient search complete", { result_count: searchResults?.length || 0 });
       
       // Check if we found a matching patient
       if (searchResults && searchResults.length > 0) {
@@ -512,25 +831,23 @@ async function handleIdentifyPatient(params: any, practice: any, vapiCallId: str
         );
 
         if (patient) {
-          console.log("Found existing patient:", patient.id);
+          log.info("Found existing patient", { patient_id: patient.id });
           patientIdToStore = patient.id.toString();
           isNewPatient = false;
           patientMessage = `Welcome back, ${firstName}! I found your existing record in our system. How can I help you today?`;
         } else {
-          console.log("No exact match found in search results");
+          log.info("No exact match found in search results");
         }
       }
     } catch (searchError) {
-      console.error("Patient search failed:", searchError);
+      log.error("Patient search failed", searchError);
       // Continue to patient creation - search failure doesn't prevent new patient creation
     }
 
     // Step 2: Create new patient if not found
     if (!patient) {
-      console.log("Creating new patient in NexHealth...");
-      
       const providerId = practice.nexhealth_selected_provider_ids[0];
-      console.log("Using provider ID:", providerId);
+      log.info("Creating new patient in NexHealth", { provider_id: providerId });
 
       const patientData = {
         first_name: firstName,
@@ -542,23 +859,19 @@ async function handleIdentifyPatient(params: any, practice: any, vapiCallId: str
       };
 
       try {
-        const newPatient = await createPatient(
-          practice.nexhealth_subdomain!,
+        const newPatient = await getNexHealthClient(practice.nexhealth_subdomain!, practice.id).createPatient(
           practice.nexhealth_location_id!,
           providerId,
           patientData
         );
 
-        console.log("New patient created successfully:", {
-          patientId: newPatient.user?.id || newPatient.id,
-          patientData: patientData
-        });
+        log.info("New patient created successfully", { patient_id: newPatient.id });
         
-        patientIdToStore = newPatient.user?.id?.toString() || newPatient.id?.toString();
+        patientIdToStore = newPatient.id.toString();
         isNewPatient = true;
         patientMessage = `Perfect! I've created your patient record, ${firstName}. Welcome to our practice! Now, what type of appointment would you like to schedule?`;
       } catch (createError) {
-        console.error("Patient creation failed:", createError);
+        log.error("Patient creation failed", createError);
         const errorMessage = createError instanceof Error ? createError.message : "Unknown error";
         
         return {
@@ -586,12 +899,17 @@ async function handleIdentifyPatient(params: any, practice: any, vapiCallId: str
             patient_phone_number: phoneNumber
           }
         });
-        console.log(`✅ CallLog ${vapiCallId} updated with nexhealth_patient_id: ${patientIdToStore}`);
+        log.info("✅ Call log updated with patient", { patient_id: patientIdToStore });
       } catch (dbError) {
-        console.error("Error updating call log:", dbError);
+        log.error("Error updating call log", dbError);
         // Don't fail the entire operation for logging issues
       }
 
+      await updateCallSession(vapiCallId, practice.id, {
+        nexhealth_patient_id: patientIdToStore,
+        is_new_patient: isNewPatient
+      });
+
       return {
         result: JSON.stringify({
           success: true,
@@ -601,7 +919,7 @@ async function handleIdentifyPatient(params: any, practice: any, vapiCallId: str
         })
       };
     } else {
-      console.error("Failed to obtain patient_id after search/create.");
+      log.error("Failed to obtain patient_id after search/create.");
       return {
         result: JSON.stringify({
           success: false,
@@ -612,10 +930,7 @@ async function handleIdentifyPatient(params: any, practice: any, vapiCallId: str
     }
 
   } catch (error) {
-    console.error("=== ERROR IN IDENTIFY_PATIENT ===");
-    console.error("Error details:", error);
-    console.error("Practice ID:", practice?.id);
-    console.error("VAPI Call ID:", vapiCallId);
+    log.error("Error in identify_patient", error);
     
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     return {
@@ -634,9 +949,8 @@ async function handleIdentifyPatient(params: any, practice: any, vapiCallId: str
  */
 async function handleCheckAppointmentType(params: any, practice: any, vapiCallId: string): Promise<ToolResponse> {
   try {
-    console.log("=== CHECKING APPOINTMENT TYPE ===");
-    console.log("Parameters:", JSON.stringify(params, null, 2));
-    console.log("Practice ID:", practice.id);
+    log.info("Checking appointment type");
+    log.debug("check_appointment_type arguments", params);
 
     const { patient_reason_for_visit } = params;
 
@@ -652,7 +966,7 @@ async function handleCheckAppointmentType(params: any, practice: any, vapiCallId
 
     // Validate practice configuration
     if (!practice.nexhealth_subdomain || !practice.nexhealth_location_id) {
-      console.error("Practice NexHealth configuration incomplete:", {
+      log.error("Practice NexHealth configuration incomplete", {
         subdomain: practice.nexhealth_subdomain,
         locationId: practice.nexhealth_location_id
       });
@@ -665,74 +979,23 @@ async function handleCheckAppointmentType(params: any, practice: any, vapiCallId
       };
     }
 
-    console.log("Searching for service mapping for:", patient_reason_for_visit);
+    log.debug("Searching for service mapping", { patient_reason_for_visit });
 
-    // Search for service mapping with case-insensitive matching
-    let serviceMapping = await db.serviceMapping.findFirst({
-      where: {
-        practice_id: practice.id,
-        spoken_service_name: {
-          equals: patient_reason_for_visit.trim(),
-          mode: 'insensitive'
-        }
-      }
-    });
+    const { match, mappings } = await matchPracticeService(practice, patient_reason_for_visit);
 
-    // If no exact match, try common variations
-    if (!serviceMapping) {
-      console.log("No exact match found, trying variations...");
-      
-      const variations: string[] = [];
-      const lowerReason = patient_reason_for_visit.toLowerCase();
-      
-      // Build variations based on common patterns
-      if (lowerReason.includes('clean')) {
-        variations.push('cleaning', 'general cleaning', 'prophy', 'prophylaxis', 'hygiene', 'dental cleaning');
-      }
-      if (lowerReason.includes('check')) {
-        variations.push('checkup', 'check-up', 'examination', 'exam', 'routine checkup', 'dental exam');
-      }
-      if (lowerReason.includes('consult') || lowerReason.includes('new patient')) {
-        variations.push('consultation', 'new patient consultation', 'new patient', 'consult', 'initial consultation');
-      }
-      if (lowerReason.includes('emergen') || lowerReason.includes('urgent') || lowerReason.includes('pain')) {
-        variations.push('emergency', 'urgent care', 'pain visit', 'emergency appointment');
-      }
-      
-      // Try each variation
-      for (const variation of variations) {
-        console.log(`Trying variation: ${variation}`);
-        serviceMapping = await db.serviceMapping.findFirst({
-          where: {
-            practice_id: practice.id,
-            spoken_service_name: {
-              equals: variation,
-              mode: 'insensitive'
-            }
-          }
-        });
-        if (serviceMapping) {
-          console.log(`Found mapping with variation: ${variation} -> ${serviceMapping.nexhealth_appointment_type_id}`);
-          break;
-        }
-      }
-    } else {
-      console.log(`Found exact mapping: ${patient_reason_for_visit} -> ${serviceMapping.nexhealth_appointment_type_id}`);
+    if (match.needs_clarification) {
+      return buildServiceClarificationResponse(match);
     }
 
+    const serviceMapping = match.best;
+
     if (!serviceMapping) {
-      console.warn("No service mapping found for:", patient_reason_for_visit);
-      
-      // Get available service mappings for helpful error message
-      const availableMappings = await db.serviceMapping.findMany({
-        where: { practice_id: practice.id, is_active: true },
-        select: { spoken_service_name: true }
+      log.warn("No service mapping found for reason for visit", {
+        available_services: mappings.map(m => m.spoken_service_name)
       });
       
-      console.log("Available service mappings:", availableMappings.map(m => m.spoken_service_name));
-      
-      const suggestionText = availableMappings.length > 0 
-        ? `I can help with: ${availableMappings.map(m => m.spoken_service_name).slice(0, 5).join(', ')}`
+      const suggestionText = mappings.length > 0 
+        ? `I can help with: ${mappings.map(m => m.spoken_service_name).slice(0, 5).join(', ')}`
         : "Let me get someone from our office to help you";
       
       return {
@@ -746,14 +1009,17 @@ async function handleCheckAppointmentType(params: any, practice: any, vapiCallId
 
     // Fetch appointment type details from NexHealth
     try {
-      console.log("Fetching appointment type details from NexHealth...");
-      const appointmentType = await getAppointmentTypeById(
-        practice.nexhealth_subdomain,
-        serviceMapping.nexhealth_appointment_type_id,
+      log.debug("Fetching appointment type details from NexHealth", { appointment_type_id: serviceMapping.appointment_type_id });
+      const appointmentType = await getNexHealthClient(practice.nexhealth_subdomain, practice.id).getAppointmentType(
+        serviceMapping.appointment_type_id,
         practice.nexhealth_location_id
       );
 
-      console.log("✅ Appointment type details retrieved:", appointmentType);
+      log.info("✅ Appointment type details retrieved", {
+        appointment_type_id: appointmentType.id,
+        appointment_type_name: appointmentType.name,
+        minutes: appointmentType.minutes
+      });
 
       // Update call log with detected service type
       try {
@@ -768,24 +1034,31 @@ async function handleCheckAppointmentType(params: any, practice: any, vapiCallId
             summary: `Patient requested: "${patient_reason_for_visit}" -> Mapped to: "${appointmentType.name}"`
           }
         });
-        console.log(`✅ CallLog ${vapiCallId} updated with appointment type detection`);
+        log.debug("✅ Call log updated with appointment type detection");
       } catch (dbError) {
-        console.error("Error updating call log:", dbError);
+        log.error("Error updating call log", dbError);
         // Don't fail the operation for logging issues
       }
 
+      await updateCallSession(vapiCallId, practice.id, {
+        appointment_type_id: appointmentType.id.toString(),
+        appointment_type_name: appointmentType.name,
+        duration_minutes: appointmentType.minutes || 30
+      });
+
       return {
         result: JSON.stringify({
           success: true,
           appointment_type_id: appointmentType.id.toString(),
           appointment_type_name: appointmentType.name,
           duration_minutes: appointmentType.minutes || 30,
+          match_confidence: serviceMapping.confidence,
           message_to_patient: `Okay, a ${appointmentType.name}. That usually takes about ${appointmentType.minutes || 30} minutes. Is that what you're looking for?`
         })
       };
 
     } catch (nexhealthError) {
-      console.error("Failed to fetch appointment type from NexHealth:", nexhealthError);
+      log.error("Failed to fetch appointment type from NexHealth", nexhealthError);
       
       return {
         result: JSON.stringify({
@@ -797,10 +1070,7 @@ async function handleCheckAppointmentType(params: any, practice: any, vapiCallId
     }
 
   } catch (error) {
-    console.error("=== ERROR IN CHECK_APPOINTMENT_TYPE ===");
-    console.error("Error details:", error);
-    console.error("Practice ID:", practice?.id);
-    console.error("VAPI Call ID:", vapiCallId);
+    log.error("Error in check_appointment_type", error);
     
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     return {
@@ -814,14 +1084,14 @@ async function handleCheckAppointmentType(params: any, practice: any, vapiCallId
   }
 }
 
-async function handleFindAppointmentSlots(params: any, practice: any, _vapiCallId: string): Promise<ToolResponse> {
-  console.log("=== FINDING APPOINTMENT SLOTS ===");
-  console.log("Parameters:", JSON.stringify(params, null, 2));
+async function handleFindAppointmentSlots(params: any, practice: any, vapiCallId: string): Promise<ToolResponse> {
+  log.info("Finding appointment slots");
+  log.debug("find_appointment_slots arguments", params);
 
   try {
     // Validate practice configuration
     if (!practice.nexhealth_subdomain || !practice.nexhealth_location_id) {
-      console.error("Practice configuration incomplete:", {
+      log.error("Practice configuration incomplete", {
         subdomain: practice.nexhealth_subdomain,
         locationId: practice.nexhealth_location_id
       });
@@ -839,75 +1109,37 @@ async function handleFindAppointmentSlots(params: any, practice: any, _vapiCallI
       duration_minutes, 
       requested_date, 
       search_type,
+      part_of_day,
+      earliest_time,
+      latest_time,
+      weekdays,
+      preferred_provider,
       // Legacy support for service_description
       service_description 
     } = params;
 
-    let finalAppointmentTypeId = appointment_type_id;
-    const finalDurationMinutes = duration_minutes;
+    const session = await getCallSession(vapiCallId);
+
+    let finalAppointmentTypeId = appointment_type_id || (service_description ? undefined : session?.appointment_type_id);
+    const finalDurationMinutes = duration_minutes || session?.duration_minutes;
 
     // If appointment_type_id not provided, fall back to service_description mapping (legacy support)
     if (!finalAppointmentTypeId && service_description) {
-      console.log("No appointment_type_id provided, falling back to service_description mapping...");
+      log.info("No appointment_type_id provided, falling back to service_description mapping");
       
-      // Search for service mapping with case-insensitive matching
-      let serviceMapping = await db.serviceMapping.findFirst({
-        where: {
-          practice_id: practice.id,
-          spoken_service_name: {
-            equals: service_description,
-            mode: 'insensitive'
-          }
-        }
-      });
+      const { match, mappings } = await matchPracticeService(practice, service_description);
 
-      // If no exact match, try common variations
-      if (!serviceMapping) {
-        console.log("No exact match found, trying variations...");
-        
-        const variations: string[] = [];
-        const lowerService = service_description.toLowerCase();
-        
-        // Build variations based on common patterns
-        if (lowerService.includes('clean')) {
-          variations.push('cleaning', 'general cleaning', 'prophy', 'prophylaxis');
-        }
-        if (lowerService.includes('check')) {
-          variations.push('checkup', 'check-up', 'examination', 'exam');
-        }
-        if (lowerService.includes('consult')) {
-          variations.push('consultation', 'new patient consultation', 'new patient');
-        }
-        
-        // Try each variation
-        for (const variation of variations) {
-          console.log(`Trying variation: ${variation}`);
-          serviceMapping = await db.serviceMapping.findFirst({
-            where: {
-              practice_id: practice.id,
-              spoken_service_name: {
-                equals: variation,
-                mode: 'insensitive'
-              }
-            }
-          });
-          if (serviceMapping) {
-            console.log(`Found mapping with variation: ${variation} -> ${serviceMapping.nexhealth_appointment_type_id}`);
-            break;
-          }
-        }
+      if (match.needs_clarification) {
+        return buildServiceClarificationResponse(match);
       }
 
+      const serviceMapping = match.best;
+
       if (!serviceMapping) {
-        console.warn("No service mapping found for:", service_description);
-        
-        const availableMappings = await db.serviceMapping.findMany({
-          where: { practice_id: practice.id },
-          select: { spoken_service_name: true }
-        });
+        log.warn("No service mapping found for service description", { service_description });
         
-        const suggestionText = availableMappings.length > 0 
-          ? `Available services include: ${availableMappings.map(m => m.spoken_service_name).join(', ')}`
+        const suggestionText = mappings.length > 0 
+          ? `Available services include: ${mappings.map(m => m.spoken_service_name).join(', ')}`
           : "Please use the check_appointment_type tool first to determine the appointment type.";
         
         return {
@@ -919,7 +1151,7 @@ async function handleFindAppointmentSlots(params: any, practice: any, _vapiCallI
         };
       }
 
-      finalAppointmentTypeId = serviceMapping.nexhealth_appointment_type_id;
+      finalAppointmentTypeId = serviceMapping.appointment_type_id;
     }
 
     if (!finalAppointmentTypeId) {
@@ -932,22 +1164,33 @@ async function handleFindAppointmentSlots(params: any, practice: any, _vapiCallI
       };
     }
 
-    // Determine search parameters
-    const startDate = requested_date || new Date().toISOString().split('T')[0];
-    const searchDays = search_type === "specific_date" ? 1 : 30;
+    // Determine search parameters; dates are resolved against the practice's local day, not the server's
+    const timeZone = practice.timezone || DEFAULT_PRACTICE_TIMEZONE;
+    const searchWindow = resolveSearchWindow(requested_date, search_type, timeZone);
+    if (!searchWindow) {
+      log.warn("Could not resolve requested date", { requested_date });
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "DATE_NOT_UNDERSTOOD",
+          message_to_patient: "I'm sorry, I didn't quite catch which day you meant. Could you tell me the date you'd like, for example 'next Tuesday' or 'June 3rd'?"
+        })
+      };
+    }
+    const { startDate, searchDays, interpretedDate } = searchWindow;
 
-    console.log("Search parameters:", {
+    log.info("Search parameters", {
       appointment_type_id: finalAppointmentTypeId,
       provider_ids: practice.nexhealth_selected_provider_ids,
       operatory_ids: practice.nexhealth_default_operatory_ids,
       start_date: startDate,
       days: searchDays,
+      interpreted_date: interpretedDate,
       duration_minutes: finalDurationMinutes
     });
 
     // Get appointment slots from NexHealth
-    const slotsResponse = await getAppointmentSlots(
-      practice.nexhealth_subdomain,
+    const slotsResponse = await getNexHealthClient(practice.nexhealth_subdomain, practice.id).getAppointmentSlots(
       practice.nexhealth_location_id,
       {
         appointment_type_id: finalAppointmentTypeId,
@@ -958,76 +1201,76 @@ async function handleFindAppointmentSlots(params: any, practice: any, _vapiCallI
       }
     );
 
-    console.log("Raw slots response:", JSON.stringify(slotsResponse, null, 2));
-
-    // Process the NexHealth response structure: data[].slots[]
-    const allSlots: any[] = [];
-    if (slotsResponse && Array.isArray(slotsResponse)) {
-      // Extract all slots from all providers/locations
-      slotsResponse.forEach((providerData: any) => {
-        if (providerData.slots && Array.isArray(providerData.slots)) {
-          providerData.slots.forEach((slot: any) => {
-            allSlots.push({
-              start_time: slot.time,
-              end_time: slot.end_time,
-              provider_id: providerData.pid?.toString(),
-              operatory_id: slot.operatory_id?.toString(),
-              location_id: providerData.lid?.toString()
-            });
-          });
-        }
-      });
-    }
+    const allSlots = flattenAppointmentSlots(slotsResponse);
 
-    console.log("Processed slots:", JSON.stringify(allSlots, null, 2));
+    log.info("Appointment slots retrieved", { slot_count: allSlots.length });
 
     if (allSlots.length === 0) {
-      const dateDisplay = search_type === "specific_date" ? `on ${requested_date}` : "in the next month";
+      const dateDisplay = searchWindow.spokenWindow || "in the next month";
       return {
         result: JSON.stringify({
           success: false,
           error_code: "NO_SLOTS_FOUND",
+          interpreted_date: interpretedDate,
           available_slots: [],
           message_to_patient: `I'm sorry, I don't see any openings ${dateDisplay}. Would you like to try another date or should I check for the next available appointment?`
         })
       };
     }
 
+    const preferences: SlotPreferences = { part_of_day, earliest_time, latest_time, weekdays, preferred_provider };
+    const preferredProviderIds = await resolvePreferredProviderIds(preferred_provider, practice);
+    const rankedSlots = filterAndRankSlots(allSlots, preferences, timeZone, preferredProviderIds);
+
+    if (rankedSlots.length === 0) {
+      // Nothing fits the caller's preferences; offer the soonest openings instead of nothing
+      const fallbackSlots = allSlots.slice(0, 3);
+      await updateCallSession(vapiCallId, practice.id, {
+        appointment_type_id: finalAppointmentTypeId,
+        offered_slots: fallbackSlots
+      });
+
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "NO_MATCHING_SLOTS",
+          available_slots: fallbackSlots.map((slot, index) => ({ slot_number: index + 1, ...slot })),
+          appointment_type_id: finalAppointmentTypeId,
+          message_to_patient: `I don't see any openings that match those preferences, but I do have ${fallbackSlots.map((slot) => formatSpokenDateTime(slot.start_time, timeZone)).join(", ")}. Would any of those work?`
+        })
+      };
+    }
+
     // Format slots for response (limit to 5 most relevant)
-    const limitedSlots = allSlots.slice(0, 5);
+    const limitedSlots = rankedSlots.slice(0, 5);
     const slotDescriptions = limitedSlots.map(slot => {
       try {
-        const date = new Date(slot.start_time);
-        const dateStr = date.toLocaleDateString('en-US', { 
-          weekday: 'long', 
-          month: 'long', 
-          day: 'numeric' 
-        });
-        const timeStr = date.toLocaleTimeString('en-US', { 
-          hour: 'numeric', 
-          minute: '2-digit',
-          hour12: true 
-        });
-        return `${dateStr} at ${timeStr}`;
+        return formatSpokenDateTime(slot.start_time, timeZone);
       } catch (dateError) {
-        console.error("Date formatting error:", dateError, "for slot:", slot);
+        log.error("Date formatting error", { error: dateError, slot });
         return `${slot.start_time}`;
       }
     }).join(", ");
 
-    const dateContext = search_type === "specific_date" ? `on ${requested_date}` : "coming up";
+    const dateContext = searchWindow.spokenWindow || "coming up";
+
+    await updateCallSession(vapiCallId, practice.id, {
+      appointment_type_id: finalAppointmentTypeId,
+      offered_slots: limitedSlots
+    });
     
     return {
       result: JSON.stringify({
         success: true,
-        available_slots: limitedSlots,
+        interpreted_date: interpretedDate,
+        available_slots: limitedSlots.map((slot, index) => ({ slot_number: index + 1, ...slot })),
         appointment_type_id: finalAppointmentTypeId,
         message_to_patient: `Great! I have these times available ${dateContext}: ${slotDescriptions}. Which time works best for you?`
       })
     };
 
   } catch (error) {
-    console.error("❌ Error finding appointment slots:", error);
+    log.error("❌ Error finding appointment slots", error);
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     return {
       result: JSON.stringify({
@@ -1040,9 +1283,14 @@ async function handleFindAppointmentSlots(params: any, practice: any, _vapiCallI
   }
 }
 
-async function handleBookAppointment(params: any, practice: any, vapiCallId: string): Promise<ToolResponse> {
-  console.log("=== BOOKING APPOINTMENT ===");
-  console.log("Parameters:", JSON.stringify(params, null, 2));
+async function handleBookAppointment(params: any, practice: any, vapiCallId: string, toolCallId?: string): Promise<ToolResponse> {
+  log.info("Booking appointment");
+  log.debug("book_appointment arguments", params);
+
+  // Set once this tool call holds the booking; released again if the booking doesn't go through
+  let bookingFingerprint: string | null = null;
+  // Set when the booking request is sent; from then on a failure may still have booked the appointment
+  let requestedBooking: Record<string, unknown> | null = null;
 
   try {
     // Validate practice configuration
@@ -1056,18 +1304,46 @@ async function handleBookAppointment(params: any, practice: any, vapiCallId: str
       };
     }
 
-    const {
-      patient_id,
-      provider_id,
-      operatory_id,
-      appointment_type_id,
-      start_time,
-      end_time,
-      note
-    } = params;
+    const { slot_number, note } = params;
+
+    // Anything the assistant didn't pass is resolved from what earlier tools stored for this call
+    const session = await getCallSession(vapiCallId);
+    const selectedSlot = slot_number ? getOfferedSlot(session, Number(slot_number)) : null;
+
+    if (slot_number && !selectedSlot) {
+      log.warn("Slot number not found in offered slots", { slot_number });
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "INVALID_SLOT_NUMBER",
+          message_to_patient: "I'm sorry, I didn't catch which of those times you wanted. Could you tell me the day and time again?"
+        })
+      };
+    }
+
+    // Only the patient identified on this call is booked; a differing patient_id is refused
+    const { patientId: patient_id, multipleMatches, patientMismatch } = await resolveCallerPatientId(params, practice, vapiCallId);
+    if (patientMismatch) {
+      return buildPatientMismatchResponse();
+    }
+    if (!patient_id) {
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: multipleMatches ? "MULTIPLE_PATIENTS_FOUND" : "PATIENT_NOT_IDENTIFIED",
+          message_to_patient: "Before I book that, I need to confirm who I'm speaking with. Could you give me your first name, last name, and phone number?"
+        })
+      };
+    }
+
+    const appointment_type_id = params.appointment_type_id || session?.appointment_type_id;
+    const provider_id = selectedSlot?.provider_id || params.provider_id;
+    const operatory_id = selectedSlot?.operatory_id || params.operatory_id;
+    const start_time = selectedSlot?.start_time || params.start_time;
+    const end_time = selectedSlot?.end_time || params.end_time;
 
     if (!patient_id || !provider_id || !appointment_type_id || !start_time || !end_time) {
-      console.warn("Missing required booking parameters:", {
+      log.warn("Missing required booking parameters", {
         patient_id: !!patient_id,
         provider_id: !!provider_id,
         appointment_type_id: !!appointment_type_id,
@@ -1084,9 +1360,88 @@ async function handleBookAppointment(params: any, practice: any, vapiCallId: str
       };
     }
 
+    // A repeated request for the same patient and time on this call returns the original booking
+    if (toolCallId) {
+      const fingerprint = getBookingFingerprint(vapiCallId, patient_id, start_time);
+      const claim = await claimBooking({
+        fingerprint,
+        toolCallId,
+        vapiCallId,
+        practiceId: practice.id,
+        toolName: "schedule_appointment"
+      });
+
+      if (!claim.claimed) {
+        if (claim.existing.status === "COMPLETED" && claim.existing.result) {
+          log.info("Duplicate booking request, returning original result", { original_tool_call_id: claim.existing.tool_call_id });
+          return JSON.parse(claim.existing.result) as ToolResponse;
+        }
+        return {
+          result: JSON.stringify({
+            success: false,
+            error_code: "BOOKING_IN_PROGRESS",
+            message_to_patient: "I'm still finalizing that booking. Give me just a moment."
+          }),
+          transient: true
+        };
+      }
+      bookingFingerprint = fingerprint;
+    }
+
+    // Re-check that NexHealth still offers this exact slot; the requested times may be stale or invented
+    const timeZone = practice.timezone || DEFAULT_PRACTICE_TIMEZONE;
+    const slotDate = getLocalTimeParts(start_time, timeZone).date;
+    const currentSlots = flattenAppointmentSlots(await getNexHealthClient(practice.nexhealth_subdomain, practice.id).getAppointmentSlots(
+      practice.nexhealth_location_id,
+      {
+        appointment_type_id,
+        provider_ids: [provider_id],
+        operatory_ids: operatory_id ? [operatory_id] : undefined,
+        start_date: slotDate,
+        days: 1
+      }
+    ));
+
+    const slotStillOffered = currentSlots.some((slot) =>
+      new Date(slot.start_time).getTime() === new Date(start_time).getTime() &&
+      new Date(slot.end_time).getTime() === new Date(end_time).getTime()
+    );
+
+    if (!slotStillOffered) {
+      log.warn("Requested slot is no longer offered by NexHealth", { provider_id, operatory_id, start_time, end_time });
+
+      const alternativeSlots = flattenAppointmentSlots(await getNexHealthClient(practice.nexhealth_subdomain, practice.id).getAppointmentSlots(
+        practice.nexhealth_location_id,
+        {
+          appointment_type_id,
+          provider_ids: practice.nexhealth_selected_provider_ids,
+          operatory_ids: practice.nexhealth_default_operatory_ids.length > 0 ? practice.nexhealth_default_operatory_ids : undefined,
+          start_date: slotDate,
+          days: ALTERNATIVE_SLOT_SEARCH_DAYS
+        }
+      ));
+      const nearestSlots = findNearestSlots(alternativeSlots, start_time, 3);
+
+      await updateCallSession(vapiCallId, practice.id, { offered_slots: nearestSlots });
+      if (bookingFingerprint) {
+        await releaseBookingClaim(bookingFingerprint);
+      }
+
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "SLOT_NO_LONGER_AVAILABLE",
+          available_slots: nearestSlots.map((slot, index) => ({ slot_number: index + 1, ...slot })),
+          message_to_patient: nearestSlots.length > 0
+            ? `I'm sorry, that time was just taken. The closest openings I have are ${nearestSlots.map((slot) => formatSpokenDateTime(slot.start_time, timeZone)).join(", ")}. Would one of those work?`
+            : "I'm sorry, that time was just taken and I don't see anything close to it. Would you like me to check another day?"
+        })
+      };
+    }
+
     // Book appointment in NexHealth
-    const appointmentData = await bookAppointment(
-      practice.nexhealth_subdomain,
+    requestedBooking = { patient_id, provider_id, operatory_id: operatory_id || null, appointment_type_id, start_time, end_time };
+    const appointmentData = await getNexHealthClient(practice.nexhealth_subdomain, practice.id).bookAppointment(
       practice.nexhealth_location_id,
       {
         patient_id,
@@ -1099,10 +1454,10 @@ async function handleBookAppointment(params: any, practice: any, vapiCallId: str
       }
     );
 
-    console.log("✅ Appointment booked successfully:", {
-      appointmentId: appointmentData.id,
-      patientId: patient_id,
-      startTime: start_time
+    log.info("✅ Appointment booked successfully", {
+      appointment_id: appointmentData.id,
+      patient_id,
+      start_time
     });
 
     // Update call log with booking details
@@ -1121,58 +1476,78 @@ async function handleBookAppointment(params: any, practice: any, vapiCallId: str
           booked_appointment_start_time: new Date(start_time),
           booked_appointment_end_time: new Date(end_time),
           booked_appointment_note: note,
+          location_id: practice.location_id,
           call_status: "COMPLETED_BOOKING",
           detected_intent: `booked_appointment_for_type_${appointment_type_id}`
         }
       });
-      console.log("✅ Call log updated with booking details");
+      log.info("✅ Call log updated with booking details");
     } catch (dbError) {
-      console.error("❌ Error updating call log:", dbError);
+      log.error("❌ Error updating call log", dbError);
       // Continue with success response even if logging fails
     }
 
-    const appointmentDate = new Date(start_time);
-    const dateStr = appointmentDate.toLocaleDateString('en-US', { 
-      weekday: 'long', 
-      month: 'long', 
-      day: 'numeric' 
-    });
-    const timeStr = appointmentDate.toLocaleTimeString('en-US', { 
-      hour: 'numeric', 
-      minute: '2-digit',
-      hour12: true 
+    await emitPracticeEvent(practice.id, "appointment.booked", {
+      vapi_call_id: vapiCallId,
+      appointment_id: appointmentData.id.toString(),
+      patient_id,
+      provider_id,
+      operatory_id: operatory_id || null,
+      appointment_type_id,
+      start_time,
+      end_time,
+      location_id: practice.location_id || null,
     });
 
+    const spokenTime = formatSpokenDateTime(start_time, timeZone);
+
     return {
       result: JSON.stringify({
         success: true,
         nexhealth_appointment_id: appointmentData.id.toString(),
         ehr_foreign_id: appointmentData.foreign_id?.toString() || null, // May not be available immediately
-        message_to_patient: `Perfect! You're all set for ${dateStr} at ${timeStr}. Your appointment confirmation number is ${appointmentData.id}. We'll see you then!`
-      })
+        office_name: practice.location_name || null,
+        message_to_patient: `Perfect! You're all set for ${spokenTime}. Your appointment confirmation number is ${appointmentData.id}. We'll see you then!`
+      }),
+      bookingFingerprint: bookingFingerprint ?? undefined
     };
 
   } catch (error) {
-    console.error("❌ Error booking appointment:", error);
+    log.error("❌ Error booking appointment", error);
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+    if (requestedBooking && !isNexHealthRejection(error)) {
+      return handleUnconfirmedBooking(practice, vapiCallId, requestedBooking, bookingFingerprint ?? undefined);
+    }
+
+    if (bookingFingerprint) {
+      await releaseBookingClaim(bookingFingerprint);
+    }
     
-    // Provide specific error messages based on the error type
+    // Provide specific error messages based on the error type; NexHealth's own text is only matched, never returned
+    const errorText = getNexHealthErrorText(error);
     let userMessage = "I'm sorry, I couldn't complete your booking right now. Please try again or call the office directly.";
     let errorCode = "BOOKING_FAILED";
     
-    if (errorMessage.toLowerCase().includes('patient')) {
+    if (errorText.includes('patient')) {
       userMessage = "There was an issue with the patient information. Please try again or call our office.";
       errorCode = "PATIENT_ERROR";
-    } else if (errorMessage.toLowerCase().includes('provider')) {
+    } else if (errorText.includes('provider')) {
       userMessage = "The selected provider is not available. Please try a different time or call our office.";
       errorCode = "PROVIDER_ERROR";
-    } else if (errorMessage.toLowerCase().includes('time') || errorMessage.toLowerCase().includes('slot')) {
+    } else if (errorText.includes('time') || errorText.includes('slot')) {
       userMessage = "That time slot is no longer available. Please select a different time.";
       errorCode = "TIME_SLOT_ERROR";
-    } else if (errorMessage.toLowerCase().includes('duplicate') || errorMessage.toLowerCase().includes('conflict')) {
+    } else if (errorText.includes('duplicate') || errorText.includes('conflict')) {
       userMessage = "There's a scheduling conflict. Please select a different time or call our office.";
       errorCode = "SCHEDULING_CONFLICT";
     }
+
+    await emitPracticeEvent(practice.id, "appointment.booking_failed", {
+      vapi_call_id: vapiCallId,
+      error_code: errorCode,
+      error: errorMessage.substring(0, 200),
+    });
     
     return {
       result: JSON.stringify({
@@ -1185,19 +1560,983 @@ async function handleBookAppointment(params: any, practice: any, vapiCallId: str
   }
 }
 
-// Updated placeholder implementations for future tools
-async function handleGetPatientAppointments(params: any, _practice: any): Promise<ToolResponse> {
-  console.log("Getting patient appointments:", params);
-  // Mock existing appointments
-  return {
-    result: "I found your existing appointments. You have a dental cleaning scheduled for February 20th at 10:00 AM. Would you like to schedule another appointment?"
-  };
-}
+/**
+ * The booking request was sent but its outcome is unknown (timeout, 5xx or an unreadable
+ * success), so the appointment may exist. The claim is kept, by completing it with this
+ * result, so the same booking can't be sent again, and the call is flagged for the office
+ * to confirm.
+ */
+async function handleUnconfirmedBooking(
+  practice: any,
+  vapiCallId: string,
+  requestedBooking: Record<string, unknown>,
+  bookingFingerprint?: string
+): Promise<ToolResponse> {
+  log.warn("Booking outcome unknown, leaving it for the office to confirm");
 
-async function handleCancelAppointment(params: any, _practice: any): Promise<ToolResponse> {
-  console.log("Canceling appointment:", params);
-  // Mock appointment cancellation
-  return {
-    result: "Your appointment has been successfully canceled. We'll send you a confirmation via text message. Is there anything else I can help you with?"
-  };
-} 
\ No newline at end of file
+  try {
+    await db.callLog.updateMany({
+      where: {
+        vapi_call_id: vapiCallId,
+        practice_id: practice.id
+      },
+      data: {
+        call_status: "BOOKING_UNCONFIRMED",
+        detected_intent: "booking_outcome_unknown"
+      }
+    });
+  } catch (dbError) {
+    log.error("❌ Error updating call log", dbError);
+  }
+
+  await emitPracticeEvent(practice.id, "appointment.booking_unconfirmed", {
+    vapi_call_id: vapiCallId,
+    ...requestedBooking,
+    location_id: practice.location_id || null,
+  });
+
+  return {
+    result: JSON.stringify({
+      success: false,
+      error_code: "BOOKING_UNCONFIRMED",
+      message_to_patient: "I sent your booking, but I couldn't get a confirmation back from our system. So you don't end up booked twice, I won't try again. Our office will confirm your appointment with you shortly."
+    }),
+    bookingFingerprint
+  };
+}
+
+/**
+ * Flatten the NexHealth slots response structure (data[].slots[]) into bookable slots
+ */
+function flattenAppointmentSlots(slotsResponse: NexHealthProviderSlots[]): AppointmentSlot[] {
+  const allSlots: AppointmentSlot[] = [];
+  // Extract all slots from all providers/locations
+  slotsResponse.forEach((providerData) => {
+    (providerData.slots || []).forEach((slot) => {
+      allSlots.push({
+        start_time: slot.time,
+        end_time: slot.end_time,
+        provider_id: providerData.pid?.toString() || "",
+        operatory_id: slot.operatory_id?.toString(),
+        location_id: providerData.lid?.toString()
+      });
+    });
+  });
+  return allSlots;
+}
+
+/**
+ * Match the caller's description of their visit against the practice's active service mappings,
+ * using the practice-wide mappings plus those of the call's office
+ */
+async function matchPracticeService(practice: any, phrase: string) {
+  const availableMappings = await db.serviceMapping.findMany({
+    where: {
+      practice_id: practice.id,
+      is_active: true,
+      OR: [{ location_id: null }, ...(practice.location_id ? [{ location_id: practice.location_id }] : [])]
+    },
+    select: {
+      location_id: true,
+      spoken_service_name: true,
+      nexhealth_appointment_type_id: true,
+      default_duration_minutes: true,
+      synonyms: true
+    }
+  });
+
+  // An office's own mapping for a service overrides the practice-wide one
+  const officeServiceNames = new Set(
+    availableMappings.filter((m) => m.location_id).map((m) => m.spoken_service_name.toLowerCase())
+  );
+  const mappings = availableMappings.filter(
+    (m) => m.location_id || !officeServiceNames.has(m.spoken_service_name.toLowerCase())
+  );
+
+  const match = matchService(phrase, mappings);
+  log.info("Service match candidates", {
+    candidates: match.candidates.map(c => `${c.spoken_service_name} (${c.confidence})`)
+  });
+
+  return { match, mappings };
+}
+
+/**
+ * Ask the caller to choose when their description fits two services about equally well
+ */
+function buildServiceClarificationResponse(match: ServiceMatchResult): ToolResponse {
+  const [first, second] = match.candidates;
+  log.info("Service match too close to call", {
+    candidates: [first.spoken_service_name, second.spoken_service_name]
+  });
+
+  return {
+    result: JSON.stringify({
+      success: false,
+      error_code: "SERVICE_CLARIFICATION_NEEDED",
+      candidates: match.candidates.slice(0, 2).map(c => ({
+        spoken_service_name: c.spoken_service_name,
+        confidence: c.confidence
+      })),
+      message_to_patient: `Just so I book the right thing, is that a ${first.spoken_service_name} or a ${second.spoken_service_name}?`
+    })
+  };
+}
+
+/**
+ * Resolve a caller's preferred provider (an ID or part of a name) to NexHealth provider IDs
+ */
+async function resolvePreferredProviderIds(preferredProvider: string | undefined, practice: any): Promise<string[]> {
+  const preference = preferredProvider?.toString().trim().toLowerCase();
+  if (!preference) {
+    return [];
+  }
+  if (/^\d+$/.test(preference)) {
+    return [preference];
+  }
+
+  try {
+    const providers = await getNexHealthClient(practice.nexhealth_subdomain, practice.id).getProviders(practice.nexhealth_location_id);
+    const nameWords = preference.replace(/^dr\.?\s+/, '').split(/\s+/);
+    const matchingIds = (providers || [])
+      .filter((provider: any) => {
+        const providerName = `${provider.name || ''} ${provider.first_name || ''} ${provider.last_name || ''}`.toLowerCase();
+        return nameWords.every((word) => providerName.includes(word));
+      })
+      .map((provider: any) => provider.id.toString());
+
+    log.info("Preferred provider matched provider IDs", { preferred_provider: preferredProvider, provider_ids: matchingIds });
+    return matchingIds;
+  } catch (error) {
+    log.error("Failed to resolve preferred provider, ignoring preference", error);
+    return [];
+  }
+}
+
+/**
+ * Drop slots outside the caller's weekday and time-of-day preferences, then order the rest
+ * with the preferred provider first and earliest times first
+ */
+function filterAndRankSlots(
+  slots: AppointmentSlot[],
+  preferences: SlotPreferences,
+  timeZone: string,
+  preferredProviderIds: string[]
+): AppointmentSlot[] {
+  const allowedWeekdays = (preferences.weekdays || [])
+    .map((day) => day.toString().trim().toLowerCase())
+    .map((day) => WEEKDAYS.find((weekday) => weekday.startsWith(day.slice(0, 3))))
+    .filter((day): day is (typeof WEEKDAYS)[number] => !!day);
+
+  const partOfDay = preferences.part_of_day ? PART_OF_DAY_RANGES[preferences.part_of_day] : undefined;
+  const earliest = preferences.earliest_time ? parseTimeOfDay(preferences.earliest_time) : null;
+  const latest = preferences.latest_time ? parseTimeOfDay(preferences.latest_time) : null;
+
+  const filteredSlots = slots.filter((slot) => {
+    const local = getLocalTimeParts(slot.start_time, timeZone);
+    if (allowedWeekdays.length > 0 && !allowedWeekdays.includes(local.weekday)) return false;
+    if (partOfDay && (local.minutesOfDay < partOfDay.start || local.minutesOfDay >= partOfDay.end)) return false;
+    if (earliest !== null && local.minutesOfDay < earliest) return false;
+    if (latest !== null && local.minutesOfDay > latest) return false;
+    return true;
+  });
+
+  const isPreferredProvider = (slot: AppointmentSlot) => preferredProviderIds.includes(slot.provider_id);
+
+  return filteredSlots.sort((a, b) => {
+    if (isPreferredProvider(a) !== isPreferredProvider(b)) {
+      return isPreferredProvider(a) ? -1 : 1;
+    }
+    return new Date(a.start_time).getTime() - new Date(b.start_time).getTime();
+  });
+}
+
+/**
+ * Pick the slots closest in time to a target start time, soonest-first for ties
+ */
+function findNearestSlots(slots: AppointmentSlot[], targetTime: string, count: number): AppointmentSlot[] {
+  const target = new Date(targetTime).getTime();
+  return [...slots]
+    .sort((a, b) => {
+      const distance = Math.abs(new Date(a.start_time).getTime() - target) - Math.abs(new Date(b.start_time).getTime() - target);
+      return distance !== 0 ? distance : new Date(a.start_time).getTime() - new Date(b.start_time).getTime();
+    })
+    .slice(0, count);
+}
+
+/**
+ * Check whether a NexHealth patient record carries the given phone number
+ */
+function patientHasPhoneNumber(patient: any, phoneNumber: string): boolean {
+  const target = phoneNumber.replace(/\D/g, '').slice(-10);
+  if (!target) return false;
+
+  const candidates = [
+    patient.phone_number,
+    patient.bio?.phone_number,
+    patient.bio?.cell_phone_number,
+    patient.bio?.home_phone_number,
+    patient.bio?.work_phone_number
+  ];
+
+  return candidates.some(
+    (candidate) => typeof candidate === 'string' && candidate.replace(/\D/g, '').slice(-10) === target
+  );
+}
+
+/**
+ * Resolve the caller's NexHealth patient ID from the patient identified on this call, or by
+ * searching the number they are calling from. A patient_id from the tool call is never trusted
+ * on its own: it must match the identified patient, otherwise patientMismatch is returned.
+ */
+async function resolveCallerPatientId(
+  params: any,
+  practice: any,
+  vapiCallId: string
+): Promise<{ patientId: string | null; multipleMatches: boolean; patientMismatch: boolean }> {
+  const callLog = await db.callLog.findFirst({
+    where: { vapi_call_id: vapiCallId, practice_id: practice.id },
+    select: { nexhealth_patient_id: true, patient_phone_number: true }
+  });
+
+  const session = await getCallSession(vapiCallId);
+
+  const requestedPatientId: string | null = params.patient_id?.toString() || null;
+  const verifiedPatientId: string | null = session?.nexhealth_patient_id || callLog?.nexhealth_patient_id || null;
+  if (verifiedPatientId) {
+    if (requestedPatientId && requestedPatientId !== verifiedPatientId) {
+      log.warn("Tool call named a different patient than the one identified on this call", {
+        requested_patient_id: requestedPatientId,
+        patient_id: verifiedPatientId
+      });
+      return { patientId: null, multipleMatches: false, patientMismatch: true };
+    }
+    return { patientId: verifiedPatientId, multipleMatches: false, patientMismatch: false };
+  }
+
+  // A number read out on the call is not proof of identity, so only the caller's own number is searched
+  const phoneNumber: string | null = callLog?.patient_phone_number || null;
+  if (!phoneNumber) {
+    return { patientId: null, multipleMatches: false, patientMismatch: false };
+  }
+
+  log.info("No patient_id available, searching patients by phone number");
+  const searchResults = await getNexHealthClient(practice.nexhealth_subdomain, practice.id).searchPatients(
+    practice.nexhealth_location_id,
+    { phone_number: phoneNumber.replace(/\D/g, '').slice(-10) }
+  );
+  const matches = searchResults.filter((p: any) => patientHasPhoneNumber(p, phoneNumber));
+  log.info("Phone search complete", { match_count: matches.length });
+
+  if (matches.length > 1) {
+    return { patientId: null, multipleMatches: true, patientMismatch: false };
+  }
+  const matchedPatientId = matches.length === 1 ? matches[0].id.toString() : null;
+  if (requestedPatientId && matchedPatientId && requestedPatientId !== matchedPatientId) {
+    log.warn("Tool call named a different patient than the caller's number matches", {
+      requested_patient_id: requestedPatientId,
+      patient_id: matchedPatientId
+    });
+    return { patientId: null, multipleMatches: false, patientMismatch: true };
+  }
+  return { patientId: matchedPatientId, multipleMatches: false, patientMismatch: false };
+}
+
+/**
+ * Refuse to act on a patient other than the one identified on this call
+ */
+function buildPatientMismatchResponse(): ToolResponse {
+  return {
+    result: JSON.stringify({
+      success: false,
+      error_code: "PATIENT_MISMATCH",
+      message_to_patient: "I can only help with appointments for the patient I've confirmed on this call. If you're calling about someone else, I'll need their first name, last name, and phone number first."
+    })
+  };
+}
+
+/**
+ * Retrieve upcoming appointments for the patient identified on this call, or matching the caller's number
+ */
+async function handleGetPatientAppointments(params: any, practice: any, locations: PracticeLocation[], vapiCallId: string): Promise<ToolResponse> {
+  log.info("Getting patient appointments");
+  log.debug("get_patient_appointments arguments", params);
+
+  try {
+    if (!practice.nexhealth_subdomain || !practice.nexhealth_location_id) {
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "PRACTICE_CONFIG_INCOMPLETE",
+          message_to_patient: "I'm having trouble accessing our appointment system due to a configuration issue. Please call our office directly."
+        })
+      };
+    }
+
+    const { patientId, multipleMatches, patientMismatch } = await resolveCallerPatientId(params, practice, vapiCallId);
+
+    if (patientMismatch) {
+      return buildPatientMismatchResponse();
+    }
+
+    if (multipleMatches) {
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "MULTIPLE_PATIENTS_FOUND",
+          message_to_patient: "I found more than one patient with that phone number. Could you tell me your first and last name so I can find the right record?"
+        })
+      };
+    }
+
+    if (!patientId) {
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "PATIENT_NOT_FOUND",
+          message_to_patient: "I wasn't able to find your patient record. Could you give me your first name, last name, and the phone number on file?"
+        })
+      };
+    }
+
+    const now = new Date();
+    const searchEnd = new Date(now.getTime() + UPCOMING_APPOINTMENTS_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    // The patient may have appointments at any of the practice's offices
+    const nexhealthLocationIds = locations.length > 0
+      ? locations.map((location) => location.nexhealth_location_id)
+      : [practice.nexhealth_location_id];
+    const appointmentsResponse = (await Promise.all(
+      nexhealthLocationIds.map((nexhealthLocationId) =>
+        getNexHealthClient(practice.nexhealth_subdomain, practice.id).getAppointmentsForPatient(
+          nexhealthLocationId,
+          patientId,
+          now.toISOString(),
+          searchEnd.toISOString()
+        )
+      )
+    )).flat();
+
+    const appointments = appointmentsResponse
+      .filter((appt: any) => !appt.cancelled && appt.start_time && new Date(appt.start_time) >= now)
+      .sort((a: any, b: any) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
+      .map((appt: any) => {
+        const location = findLocationByNexHealthId(locations, appt.location_id);
+        return { appt, location, timeZone: location?.timezone || practice.timezone || DEFAULT_PRACTICE_TIMEZONE };
+      })
+      .map(({ appt, location, timeZone }) => ({
+        appointment_id: appt.id.toString(),
+        start_time: appt.start_time,
+        end_time: appt.end_time,
+        provider_id: appt.provider_id?.toString() || null,
+        provider_name: appt.provider?.name || appt.provider_name || null,
+        appointment_type_id: appt.appointment_type_id?.toString() || appt.appointment_type?.id?.toString() || null,
+        appointment_type_name: appt.appointment_type?.name || null,
+        office_name: locations.length > 1 ? location?.name || null : null,
+        spoken_time: formatSpokenDateTime(appt.start_time, timeZone)
+      }));
+
+    log.info("Found upcoming appointments", { patient_id: patientId, count: appointments.length });
+
+    await updateCallSession(vapiCallId, practice.id, { nexhealth_patient_id: patientId });
+
+    try {
+      await db.callLog.updateMany({
+        where: {
+          vapi_call_id: vapiCallId,
+          practice_id: practice.id
+        },
+        data: {
+          nexhealth_patient_id: patientId,
+          detected_intent: "patient_appointments_retrieved"
+        }
+      });
+    } catch (dbError) {
+      log.error("Error updating call log", dbError);
+    }
+
+    if (appointments.length === 0) {
+      return {
+        result: JSON.stringify({
+          success: true,
+          patient_id: patientId,
+          appointments: [],
+          message_to_patient: "I don't see any upcoming appointments on file for you. Would you like to schedule one?"
+        })
+      };
+    }
+
+    const appointmentDescriptions = appointments.map((appt) => {
+      const typeText = appt.appointment_type_name ? `a ${appt.appointment_type_name}` : "an appointment";
+      const providerText = appt.provider_name ? ` with ${appt.provider_name}` : "";
+      const officeText = appt.office_name ? ` at ${appt.office_name}` : "";
+      return `${typeText}${providerText}${officeText} on ${appt.spoken_time}`;
+    }).join(", and ");
+
+    return {
+      result: JSON.stringify({
+        success: true,
+        patient_id: patientId,
+        appointments,
+        message_to_patient: `I found ${appointments.length === 1 ? "one upcoming appointment" : `${appointments.length} upcoming appointments`}: ${appointmentDescriptions}. Is there anything you'd like to do with ${appointments.length === 1 ? "it" : "them"}?`
+      })
+    };
+
+  } catch (error) {
+    log.error("❌ Error getting patient appointments", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return {
+      result: JSON.stringify({
+        success: false,
+        error_code: "APPOINTMENT_LOOKUP_FAILED",
+        message_to_patient: "I'm having trouble looking up your appointments right now. Please try again or call the office directly.",
+        technical_details: errorMessage.substring(0, 200)
+      })
+    };
+  }
+}
+
+/**
+ * Load an appointment only if it belongs to the given patient and one of the practice's offices
+ */
+async function findCallerAppointment(
+  appointmentId: string,
+  patientId: string,
+  practice: any,
+  locations: PracticeLocation[]
+): Promise<any | null> {
+  const appointment = await getNexHealthClient(practice.nexhealth_subdomain, practice.id).getAppointment(appointmentId);
+
+  // Never reveal or touch appointments that belong to another patient or practice
+  const belongsToCaller = appointment?.patient_id?.toString() === patientId;
+  const belongsToLocation = locations.length > 0
+    ? !!findLocationByNexHealthId(locations, appointment?.location_id)
+    : appointment?.location_id?.toString() === practice.nexhealth_location_id.toString();
+  if (!appointment || !belongsToCaller || !belongsToLocation) {
+    log.warn("Appointment ownership mismatch", {
+      appointment_id: appointmentId,
+      belongs_to_caller: belongsToCaller,
+      belongs_to_location: belongsToLocation
+    });
+    return null;
+  }
+
+  return appointment;
+}
+
+/**
+ * Cancel an appointment in NexHealth after verifying it belongs to the caller and this practice
+ */
+async function handleCancelAppointment(params: any, practice: any, locations: PracticeLocation[], vapiCallId: string): Promise<ToolResponse> {
+  log.info("Cancelling appointment");
+  log.debug("cancel_appointment arguments", params);
+
+  try {
+    if (!practice.nexhealth_subdomain || !practice.nexhealth_location_id) {
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "PRACTICE_CONFIG_INCOMPLETE",
+          message_to_patient: "I'm having trouble accessing our appointment system due to a configuration issue. Please call our office directly."
+        })
+      };
+    }
+
+    const appointmentId = params.appointment_id?.toString();
+    const cancellationReason: string | null = params.cancellation_reason?.trim() || null;
+
+    if (!appointmentId) {
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "MISSING_APPOINTMENT_ID",
+          message_to_patient: "Let me look up your appointments first so I cancel the right one."
+        })
+      };
+    }
+
+    const { patientId, patientMismatch } = await resolveCallerPatientId(params, practice, vapiCallId);
+    if (patientMismatch) {
+      return buildPatientMismatchResponse();
+    }
+    if (!patientId) {
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "PATIENT_NOT_IDENTIFIED",
+          message_to_patient: "Before I cancel anything, I need to confirm who I'm speaking with. Could you give me your first name, last name, and phone number?"
+        })
+      };
+    }
+
+    const appointment = await findCallerAppointment(appointmentId, patientId, practice, locations);
+    if (!appointment) {
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "APPOINTMENT_NOT_FOUND",
+          message_to_patient: "I couldn't find that appointment under your record. Would you like me to read back the appointments I do have for you?"
+        })
+      };
+    }
+
+    const appointmentLocation = findLocationByNexHealthId(locations, appointment.location_id);
+    const timeZone = appointmentLocation?.timezone || practice.timezone || DEFAULT_PRACTICE_TIMEZONE;
+    const spokenTime = formatSpokenDateTime(appointment.start_time, timeZone);
+
+    if (appointment.cancelled) {
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "APPOINTMENT_ALREADY_CANCELLED",
+          appointment_id: appointmentId,
+          message_to_patient: `It looks like your appointment on ${spokenTime} has already been cancelled. Is there anything else I can help with?`
+        })
+      };
+    }
+
+    if (new Date(appointment.start_time) < new Date()) {
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "APPOINTMENT_IN_PAST",
+          appointment_id: appointmentId,
+          message_to_patient: "That appointment has already passed, so there's nothing to cancel. Is there anything else I can help with?"
+        })
+      };
+    }
+
+    await getNexHealthClient(practice.nexhealth_subdomain, practice.id).cancelAppointment(appointmentId);
+
+    log.info("✅ Appointment cancelled successfully", { appointment_id: appointmentId, patient_id: patientId });
+
+    try {
+      // Mark the call that originally booked this appointment, if LAINE booked it
+      await db.callLog.updateMany({
+        where: {
+          practice_id: practice.id,
+          booked_appointment_nexhealth_id: appointmentId
+        },
+        data: {
+          booked_appointment_cancelled_at: new Date(),
+          booked_appointment_cancellation_reason: cancellationReason
+        }
+      });
+
+      await db.callLog.updateMany({
+        where: {
+          vapi_call_id: vapiCallId,
+          practice_id: practice.id
+        },
+        data: {
+          nexhealth_patient_id: patientId,
+          nexhealth_appointment_id: appointmentId,
+          call_status: "COMPLETED_CANCELLATION",
+          detected_intent: "appointment_cancelled",
+          summary: `Cancelled appointment ${appointmentId} scheduled for ${spokenTime}${cancellationReason ? `. Reason: ${cancellationReason}` : ""}`
+        }
+      });
+      log.info("✅ Call log updated with cancellation details");
+    } catch (dbError) {
+      log.error("❌ Error updating call log", dbError);
+    }
+
+    await emitPracticeEvent(practice.id, "appointment.cancelled", {
+      vapi_call_id: vapiCallId,
+      appointment_id: appointmentId,
+      patient_id: patientId,
+      start_time: appointment.start_time,
+      location_id: appointmentLocation?.id || null,
+      cancellation_reason: cancellationReason,
+    });
+
+    return {
+      result: JSON.stringify({
+        success: true,
+        appointment_id: appointmentId,
+        cancelled_start_time: appointment.start_time,
+        message_to_patient: `Okay, your appointment on ${spokenTime} has been cancelled. Would you like to schedule a new time?`
+      })
+    };
+
+  } catch (error) {
+    log.error("❌ Error cancelling appointment", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    await emitPracticeEvent(practice.id, "appointment.cancellation_failed", {
+      vapi_call_id: vapiCallId,
+      appointment_id: params.appointment_id?.toString() || null,
+      error: errorMessage.substring(0, 200),
+    });
+    return {
+      result: JSON.stringify({
+        success: false,
+        error_code: "CANCELLATION_FAILED",
+        message_to_patient: "I wasn't able to cancel that appointment right now, so it's still on the schedule. Please call the office directly and we'll take care of it.",
+        technical_details: errorMessage.substring(0, 200)
+      })
+    };
+  }
+}
+
+/**
+ * Move an existing appointment to a new slot of the same appointment type.
+ * The new slot is booked first; the original is only cancelled once that succeeds.
+ */
+async function handleRescheduleAppointment(params: any, practice: any, locations: PracticeLocation[], vapiCallId: string, toolCallId?: string): Promise<ToolResponse> {
+  log.info("Rescheduling appointment");
+  log.debug("reschedule_appointment arguments", params);
+
+  // Set once this tool call holds the new time; released again if it isn't booked
+  let bookingFingerprint: string | undefined;
+  // Set once the new appointment exists; from then on a failure must not tell the caller nothing changed
+  let rebooked: { newAppointmentId: string; newSpokenTime: string; originalSpokenTime: string } | null = null;
+
+  try {
+    if (!practice.nexhealth_subdomain || !practice.nexhealth_location_id) {
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "PRACTICE_CONFIG_INCOMPLETE",
+          message_to_patient: "I'm having trouble accessing our appointment system due to a configuration issue. Please call our office directly."
+        })
+      };
+    }
+
+    const appointmentId = params.appointment_id?.toString();
+    const { requested_date, search_type, new_start_time } = params;
+
+    if (!appointmentId) {
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "MISSING_APPOINTMENT_ID",
+          message_to_patient: "Let me look up your appointments first so I move the right one."
+        })
+      };
+    }
+
+    const { patientId, patientMismatch } = await resolveCallerPatientId(params, practice, vapiCallId);
+    if (patientMismatch) {
+      return buildPatientMismatchResponse();
+    }
+    if (!patientId) {
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "PATIENT_NOT_IDENTIFIED",
+          message_to_patient: "Before I change anything, I need to confirm who I'm speaking with. Could you give me your first name, last name, and phone number?"
+        })
+      };
+    }
+
+    const appointment = await findCallerAppointment(appointmentId, patientId, practice, locations);
+    if (!appointment || appointment.cancelled) {
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "APPOINTMENT_NOT_FOUND",
+          message_to_patient: "I couldn't find that appointment under your record. Would you like me to read back the appointments I do have for you?"
+        })
+      };
+    }
+
+    const appointmentTypeId = appointment.appointment_type_id?.toString() || appointment.appointment_type?.id?.toString();
+    if (!appointmentTypeId) {
+      log.warn("Appointment has no appointment type, cannot search equivalent slots", { appointment_id: appointmentId });
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "APPOINTMENT_TYPE_UNKNOWN",
+          message_to_patient: "I'm not able to move that particular appointment myself. Please call our office and a team member will help you reschedule."
+        })
+      };
+    }
+
+    // The new time is searched and booked at the office the appointment is at
+    const appointmentLocation = findLocationByNexHealthId(locations, appointment.location_id);
+    const officePractice = appointmentLocation ? scopePracticeToLocation(practice, appointmentLocation) : practice;
+
+    const timeZone = officePractice.timezone || DEFAULT_PRACTICE_TIMEZONE;
+    const originalSpokenTime = formatSpokenDateTime(appointment.start_time, timeZone);
+
+    // Once a slot is picked, only its day needs re-checking
+    const searchWindow = new_start_time
+      ? { startDate: getLocalTimeParts(new_start_time, timeZone).date, searchDays: 1, spokenWindow: null, interpretedDate: null }
+      : resolveSearchWindow(requested_date, search_type, timeZone);
+    if (!searchWindow) {
+      log.warn("Could not resolve requested date", { requested_date });
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "DATE_NOT_UNDERSTOOD",
+          message_to_patient: "I'm sorry, I didn't quite catch which day you meant. Could you tell me the new date you'd like, for example 'next Tuesday' or 'June 3rd'?"
+        })
+      };
+    }
+    const { startDate, searchDays } = searchWindow;
+
+    const slotsResponse = await getNexHealthClient(practice.nexhealth_subdomain, practice.id).getAppointmentSlots(
+      officePractice.nexhealth_location_id,
+      {
+        appointment_type_id: appointmentTypeId,
+        provider_ids: officePractice.nexhealth_selected_provider_ids,
+        operatory_ids: officePractice.nexhealth_default_operatory_ids.length > 0 ? officePractice.nexhealth_default_operatory_ids : undefined,
+        start_date: startDate,
+        days: searchDays
+      }
+    );
+
+    const slots = flattenAppointmentSlots(slotsResponse)
+      .filter((slot) => new Date(slot.start_time).getTime() !== new Date(appointment.start_time).getTime());
+
+    // Without a chosen time, offer options for the patient to pick from
+    if (!new_start_time) {
+      if (slots.length === 0) {
+        return {
+          result: JSON.stringify({
+            success: false,
+            error_code: "NO_SLOTS_FOUND",
+            available_slots: [],
+            message_to_patient: `I don't see any other openings ${searchWindow.spokenWindow || "in the next month"}. Would you like to try another date, or keep your appointment on ${originalSpokenTime}?`
+          })
+        };
+      }
+
+      const limitedSlots = slots.slice(0, 5);
+      const slotDescriptions = limitedSlots.map((slot) => formatSpokenDateTime(slot.start_time, timeZone)).join(", ");
+
+      return {
+        result: JSON.stringify({
+          success: true,
+          appointment_id: appointmentId,
+          appointment_type_id: appointmentTypeId,
+          interpreted_date: searchWindow.interpretedDate,
+          available_slots: limitedSlots,
+          message_to_patient: `Your current appointment is ${originalSpokenTime}. I can move it to: ${slotDescriptions}. Which would you prefer?`
+        })
+      };
+    }
+
+    const selectedSlot = slots.find((slot) =>
+      new Date(slot.start_time).getTime() === new Date(new_start_time).getTime() &&
+      (!params.provider_id || slot.provider_id === params.provider_id.toString())
+    );
+
+    if (!selectedSlot) {
+      const alternatives = slots.slice(0, 3);
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "SLOT_NOT_AVAILABLE",
+          available_slots: alternatives,
+          message_to_patient: alternatives.length > 0
+            ? `That time isn't open anymore. Your appointment on ${originalSpokenTime} is unchanged. I could do ${alternatives.map((slot) => formatSpokenDateTime(slot.start_time, timeZone)).join(", ")} instead.`
+            : `That time isn't open anymore, and your appointment on ${originalSpokenTime} is unchanged. Would you like to try a different day?`
+        })
+      };
+    }
+
+    // A repeated request for the same patient and new time on this call returns the original result
+    if (toolCallId) {
+      const fingerprint = getBookingFingerprint(vapiCallId, patientId, selectedSlot.start_time);
+      const claim = await claimBooking({
+        fingerprint,
+        toolCallId,
+        vapiCallId,
+        practiceId: practice.id,
+        toolName: "reschedule_appointment"
+      });
+
+      if (!claim.claimed) {
+        if (claim.existing.status === "COMPLETED" && claim.existing.result) {
+          log.info("Duplicate reschedule request, returning original result", { original_tool_call_id: claim.existing.tool_call_id });
+          return JSON.parse(claim.existing.result) as ToolResponse;
+        }
+        return {
+          result: JSON.stringify({
+            success: false,
+            error_code: "BOOKING_IN_PROGRESS",
+            message_to_patient: "I'm still moving that appointment. Give me just a moment."
+          }),
+          transient: true
+        };
+      }
+      bookingFingerprint = fingerprint;
+    }
+
+    // Book the new slot first so the patient never ends up without an appointment
+    let newAppointment;
+    try {
+      newAppointment = await getNexHealthClient(practice.nexhealth_subdomain, practice.id).bookAppointment(
+        officePractice.nexhealth_location_id,
+        {
+          patient_id: patientId,
+          provider_id: selectedSlot.provider_id,
+          operatory_id: selectedSlot.operatory_id,
+          appointment_type_id: appointmentTypeId,
+          start_time: selectedSlot.start_time,
+          end_time: selectedSlot.end_time,
+          note: `Rescheduled by LAINE from appointment ${appointmentId}`
+        }
+      );
+    } catch (bookingError) {
+      // NexHealth may have booked the new time anyway: keep the claim so it isn't booked twice
+      if (!isNexHealthRejection(bookingError)) {
+        log.error("❌ Rebooking outcome unknown, original appointment left in place", bookingError);
+        await emitPracticeEvent(practice.id, "appointment.booking_unconfirmed", {
+          vapi_call_id: vapiCallId,
+          original_appointment_id: appointmentId,
+          patient_id: patientId,
+          provider_id: selectedSlot.provider_id,
+          operatory_id: selectedSlot.operatory_id || null,
+          appointment_type_id: appointmentTypeId,
+          start_time: selectedSlot.start_time,
+          end_time: selectedSlot.end_time,
+          location_id: appointmentLocation?.id || null,
+        });
+        return {
+          result: JSON.stringify({
+            success: false,
+            error_code: "RESCHEDULE_UNCONFIRMED",
+            message_to_patient: `I asked for the new time but couldn't get a confirmation back, so I've left your appointment on ${originalSpokenTime} in place. Our office will confirm which time you're booked for.`
+          }),
+          bookingFingerprint
+        };
+      }
+
+      log.error("❌ Rebooking failed, original appointment left in place", bookingError);
+      const errorMessage = bookingError instanceof Error ? bookingError.message : "Unknown error";
+      if (bookingFingerprint) {
+        await releaseBookingClaim(bookingFingerprint);
+      }
+      await emitPracticeEvent(practice.id, "appointment.booking_failed", {
+        vapi_call_id: vapiCallId,
+        error_code: "RESCHEDULE_BOOKING_FAILED",
+        original_appointment_id: appointmentId,
+        error: errorMessage.substring(0, 200),
+      });
+      return {
+        result: JSON.stringify({
+          success: false,
+          error_code: "RESCHEDULE_BOOKING_FAILED",
+          message_to_patient: `I wasn't able to book the new time, so your original appointment on ${originalSpokenTime} is still in place. Would you like to try a different time?`,
+          technical_details: errorMessage.substring(0, 200)
+        })
+      };
+    }
+
+    const newAppointmentId = newAppointment.id.toString();
+    const newSpokenTime = formatSpokenDateTime(selectedSlot.start_time, timeZone);
+    rebooked = { newAppointmentId, newSpokenTime, originalSpokenTime };
+    log.info("✅ New appointment booked for reschedule", {
+      new_appointment_id: newAppointmentId,
+      original_appointment_id: appointmentId
+    });
+
+    let originalCancelled = true;
+    try {
+      await getNexHealthClient(practice.nexhealth_subdomain, practice.id).cancelAppointment(appointmentId);
+    } catch (cancelError) {
+      originalCancelled = false;
+      log.error("❌ New appointment booked but original could not be cancelled", cancelError);
+    }
+
+    try {
+      // The original booking only records a cancellation that happened; the office removes it otherwise
+      if (originalCancelled) {
+        await db.callLog.updateMany({
+          where: {
+            practice_id: practice.id,
+            booked_appointment_nexhealth_id: appointmentId
+          },
+          data: {
+            booked_appointment_cancelled_at: new Date(),
+            booked_appointment_cancellation_reason: `Rescheduled to appointment ${newAppointmentId}`
+          }
+        });
+      }
+
+      await db.callLog.updateMany({
+        where: {
+          vapi_call_id: vapiCallId,
+          practice_id: practice.id
+        },
+        data: {
+          nexhealth_patient_id: patientId,
+          nexhealth_appointment_id: appointmentId,
+          booked_appointment_nexhealth_id: newAppointmentId,
+          booked_appointment_patient_id: patientId,
+          booked_appointment_provider_id: selectedSlot.provider_id,
+          booked_appointment_operatory_id: selectedSlot.operatory_id,
+          booked_appointment_type_id: appointmentTypeId,
+          booked_appointment_start_time: new Date(selectedSlot.start_time),
+          booked_appointment_end_time: new Date(selectedSlot.end_time),
+          booked_appointment_note: `Rescheduled from appointment ${appointmentId}`,
+          location_id: appointmentLocation?.id,
+          call_status: "COMPLETED_RESCHEDULE",
+          detected_intent: "appointment_rescheduled"
+        }
+      });
+      log.info("✅ Call log updated with reschedule details");
+    } catch (dbError) {
+      log.error("❌ Error updating call log", dbError);
+    }
+
+    await emitPracticeEvent(practice.id, "appointment.rescheduled", {
+      vapi_call_id: vapiCallId,
+      appointment_id: newAppointmentId,
+      original_appointment_id: appointmentId,
+      original_appointment_cancelled: originalCancelled,
+      patient_id: patientId,
+      provider_id: selectedSlot.provider_id,
+      operatory_id: selectedSlot.operatory_id || null,
+      appointment_type_id: appointmentTypeId,
+      start_time: selectedSlot.start_time,
+      end_time: selectedSlot.end_time,
+      original_start_time: appointment.start_time,
+      location_id: appointmentLocation?.id || null,
+    });
+
+    return {
+      result: JSON.stringify({
+        success: true,
+        nexhealth_appointment_id: newAppointmentId,
+        original_appointment_id: appointmentId,
+        original_appointment_cancelled: originalCancelled,
+        message_to_patient: originalCancelled
+          ? `All done! I've moved your appointment from ${originalSpokenTime} to ${newSpokenTime}. Your new confirmation number is ${newAppointmentId}.`
+          : `I've booked you for ${newSpokenTime}, confirmation number ${newAppointmentId}. I wasn't able to release your old time on ${originalSpokenTime}, so our office will remove it for you.`
+      }),
+      bookingFingerprint
+    };
+
+  } catch (error) {
+    log.error("❌ Error rescheduling appointment", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+    // The new appointment exists, so the claim is kept and the caller hears what was booked
+    if (rebooked) {
+      return {
+        result: JSON.stringify({
+          success: true,
+          nexhealth_appointment_id: rebooked.newAppointmentId,
+          message_to_patient: `I've booked you for ${rebooked.newSpokenTime}, confirmation number ${rebooked.newAppointmentId}. Something went wrong after that, so our office will make sure your old time on ${rebooked.originalSpokenTime} is removed.`
+        }),
+        bookingFingerprint
+      };
+    }
+
+    if (bookingFingerprint) {
+      await releaseBookingClaim(bookingFingerprint);
+    }
+
+    return {
+      result: JSON.stringify({
+        success: false,
+        error_code: "RESCHEDULE_FAILED",
+        message_to_patient: "I'm having trouble rescheduling right now, but your original appointment hasn't been changed. Please try again or call the office directly.",
+        technical_details: errorMessage.substring(0, 200)
+      })
+    };
+  }
+}
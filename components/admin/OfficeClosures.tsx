@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { OfficeLocation } from "@/components/admin/OfficeLocations";
+
+interface OfficeClosure {
+  id: string;
+  location_id: string | null;
+  date: string;
+  name: string;
+}
+
+interface OfficeClosuresProps {
+  offices: OfficeLocation[];
+}
+
+export default function OfficeClosures({ offices }: OfficeClosuresProps) {
+  const [closures, setClosures] = useState<OfficeClosure[]>([]);
+  const [date, setDate] = useState("");
+  const [name, setName] = useState("");
+  const [locationId, setLocationId] = useState("all");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchClosures = async () => {
+      try {
+        const response = await fetch("/api/practice/closures");
+        if (response.ok) {
+          const data = await response.json();
+          setClosures(data.closures || []);
+        }
+      } catch (error) {
+        console.error("Error fetching closures:", error);
+      }
+    };
+
+    fetchClosures();
+  }, []);
+
+  const officeName = (closureLocationId: string | null) =>
+    closureLocationId ? offices.find((office) => office.id === closureLocationId)?.name || "Removed office" : "All offices";
+
+  const addClosure = async () => {
+    if (!date || !name.trim()) {
+      toast.error("Enter the date and what the closure is for");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch("/api/practice/closures", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ date, name, location_id: locationId === "all" ? null : locationId }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save closure");
+      }
+
+      setClosures(prev => [...prev, data.closure].sort((a, b) => a.date.localeCompare(b.date)));
+      setDate("");
+      setName("");
+      toast.success("Closure added");
+    } catch (error) {
+      console.error("Error saving closure:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save closure");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteClosure = async (closureId: string) => {
+    try {
+      const response = await fetch(`/api/practice/closures?id=${closureId}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        setClosures(prev => prev.filter(closure => closure.id !== closureId));
+        toast.success("Closure removed");
+      } else {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to remove closure");
+      }
+    } catch (error) {
+      console.error("Error removing closure:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to remove closure");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Holidays & Closures</CardTitle>
+        <CardDescription>
+          Days the office is closed. Callers are told about closures in the next two weeks and offered another day.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {closures.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Closed For</TableHead>
+                {offices.length > 1 && <TableHead>Office</TableHead>}
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {closures.map((closure) => (
+                <TableRow key={closure.id}>
+                  <TableCell>{closure.date}</TableCell>
+                  <TableCell>{closure.name}</TableCell>
+                  {offices.length > 1 && <TableCell>{officeName(closure.location_id)}</TableCell>}
+                  <TableCell>
+                    <Button variant="destructive" size="sm" onClick={() => deleteClosure(closure.id)}>
+                      Remove
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="closure_date">Date</Label>
+            <Input id="closure_date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="closure_name">Closed For</Label>
+            <Input
+              id="closure_name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Thanksgiving"
+            />
+          </div>
+          {offices.length > 1 && (
+            <div className="space-y-2">
+              <Label htmlFor="closure_office">Office</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger id="closure_office">
+                  <SelectValue placeholder="Select office" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All offices</SelectItem>
+                  {offices.map((office) => (
+                    <SelectItem key={office.id} value={office.id}>
+                      {office.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <Button onClick={addClosure} disabled={saving}>
+          {saving ? "Saving..." : "Add Closure"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,442 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+
+export interface OfficeLocation {
+  id: string;
+  name: string;
+  nexhealth_location_id: string;
+  nexhealth_selected_provider_ids: string[];
+  nexhealth_default_operatory_ids: string[];
+  timezone: string | null;
+  vapi_phone_number_id: string | null;
+  office_hours: OfficeHoursForm | null;
+  is_primary: boolean;
+}
+
+// Weekday -> opening and closing time (24-hour HH:MM); days left out are closed
+type OfficeHoursForm = Partial<Record<string, { open: string; close: string }>>;
+
+interface OfficeLocationsProps {
+  // Reload the office list when the practice settings (and so the primary office) are saved
+  refreshKey: number;
+  onLocationsChange: (locations: OfficeLocation[]) => void;
+}
+
+interface OfficeForm {
+  id: string | null;
+  name: string;
+  nexhealth_location_id: string;
+  nexhealth_selected_provider_ids: string[];
+  nexhealth_default_operatory_ids: string[];
+  timezone: string;
+  vapi_phone_number_id: string;
+  office_hours: OfficeHoursForm;
+}
+
+interface NamedRecord {
+  id: string;
+  name: string;
+}
+
+const EMPTY_FORM: OfficeForm = {
+  id: null,
+  name: "",
+  nexhealth_location_id: "",
+  nexhealth_selected_provider_ids: [],
+  nexhealth_default_operatory_ids: [],
+  timezone: "America/New_York",
+  vapi_phone_number_id: "",
+  office_hours: {},
+};
+
+const WEEKDAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+
+const DEFAULT_DAY_HOURS = { open: "08:00", close: "17:00" };
+
+export default function OfficeLocations({ refreshKey, onLocationsChange }: OfficeLocationsProps) {
+  const [locations, setLocations] = useState<OfficeLocation[]>([]);
+  const [form, setForm] = useState<OfficeForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [providers, setProviders] = useState<NamedRecord[]>([]);
+  const [operatories, setOperatories] = useState<NamedRecord[]>([]);
+  const [referenceDataLoading, setReferenceDataLoading] = useState(false);
+
+  const editingPrimary = !!form.id && locations.find((location) => location.id === form.id)?.is_primary;
+
+  useEffect(() => {
+    const fetchLocations = async () => {
+      try {
+        const response = await fetch("/api/practice/locations");
+        if (response.ok) {
+          const data = await response.json();
+          setLocations(data.locations || []);
+          onLocationsChange(data.locations || []);
+        }
+      } catch (error) {
+        console.error("Error fetching offices:", error);
+      }
+    };
+
+    fetchLocations();
+  }, [refreshKey, onLocationsChange]);
+
+  const updateLocations = (next: OfficeLocation[]) => {
+    setLocations(next);
+    onLocationsChange(next);
+  };
+
+  const editLocation = (location: OfficeLocation) => {
+    setForm({
+      id: location.id,
+      name: location.name,
+      nexhealth_location_id: location.nexhealth_location_id,
+      nexhealth_selected_provider_ids: location.nexhealth_selected_provider_ids,
+      nexhealth_default_operatory_ids: location.nexhealth_default_operatory_ids,
+      timezone: location.timezone || "America/New_York",
+      vapi_phone_number_id: location.vapi_phone_number_id || "",
+      office_hours: location.office_hours || {},
+    });
+    setProviders([]);
+    setOperatories([]);
+  };
+
+  // Providers and operatories come from the office's own NexHealth location
+  const fetchReferenceData = async () => {
+    if (!form.nexhealth_location_id) {
+      toast.error("Enter the office's NexHealth location ID first");
+      return;
+    }
+
+    setReferenceDataLoading(true);
+    try {
+      const query = `locationId=${encodeURIComponent(form.nexhealth_location_id)}`;
+      const [providersResponse, operatoriesResponse] = await Promise.all([
+        fetch(`/api/nexhealth/providers?${query}`),
+        fetch(`/api/nexhealth/operatories?${query}`),
+      ]);
+      const providersData = await providersResponse.json();
+      const operatoriesData = await operatoriesResponse.json();
+
+      if (!providersResponse.ok) {
+        throw new Error(providersData.error || "Failed to fetch providers");
+      }
+      setProviders(providersData.providers || []);
+      setOperatories(operatoriesResponse.ok ? operatoriesData.operatories || [] : []);
+    } catch (error) {
+      console.error("Error fetching office providers:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to fetch providers");
+    } finally {
+      setReferenceDataLoading(false);
+    }
+  };
+
+  const toggleId = (field: "nexhealth_selected_provider_ids" | "nexhealth_default_operatory_ids", id: string) => {
+    setForm(prev => ({
+      ...prev,
+      [field]: prev[field].includes(id) ? prev[field].filter(existing => existing !== id) : [...prev[field], id],
+    }));
+  };
+
+  const toggleDayOpen = (weekday: string) => {
+    setForm(prev => {
+      const officeHours = { ...prev.office_hours };
+      if (officeHours[weekday]) {
+        delete officeHours[weekday];
+      } else {
+        officeHours[weekday] = DEFAULT_DAY_HOURS;
+      }
+      return { ...prev, office_hours: officeHours };
+    });
+  };
+
+  const setDayTime = (weekday: string, field: "open" | "close", value: string) => {
+    setForm(prev => ({
+      ...prev,
+      office_hours: {
+        ...prev.office_hours,
+        [weekday]: { ...(prev.office_hours[weekday] || DEFAULT_DAY_HOURS), [field]: value },
+      },
+    }));
+  };
+
+  const saveLocation = async () => {
+    if (!form.name || (!editingPrimary && !form.nexhealth_location_id)) {
+      toast.error("Office name and NexHealth location ID are required");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch("/api/practice/locations", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(form),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save office");
+      }
+
+      updateLocations(
+        form.id
+          ? locations.map(location => (location.id === data.location.id ? data.location : location))
+          : [...locations, data.location]
+      );
+      setForm(EMPTY_FORM);
+      setProviders([]);
+      setOperatories([]);
+      toast.success(form.id ? "Office updated" : "Office added");
+    } catch (error) {
+      console.error("Error saving office:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save office");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteLocation = async (locationId: string) => {
+    try {
+      const response = await fetch(`/api/practice/locations?id=${locationId}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        updateLocations(locations.filter(location => location.id !== locationId));
+        toast.success("Office removed");
+      } else {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to remove office");
+      }
+    } catch (error) {
+      console.error("Error removing office:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to remove office");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Offices</CardTitle>
+        <CardDescription>
+          Each office has its own NexHealth location, providers, operatories and timezone. Give an office its own Vapi phone number ID so calls to that number go straight to it; callers on a shared number are asked which office they want.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {locations.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Office</TableHead>
+                <TableHead>NexHealth Location</TableHead>
+                <TableHead>Timezone</TableHead>
+                <TableHead>Phone Number ID</TableHead>
+                <TableHead>Hours</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {locations.map((location) => (
+                <TableRow key={location.id}>
+                  <TableCell>
+                    {location.name} {location.is_primary && <Badge variant="secondary">Primary</Badge>}
+                  </TableCell>
+                  <TableCell>{location.nexhealth_location_id}</TableCell>
+                  <TableCell>{location.timezone || "—"}</TableCell>
+                  <TableCell>{location.vapi_phone_number_id || "—"}</TableCell>
+                  <TableCell>
+                    {location.office_hours ? `Open ${Object.keys(location.office_hours).length} day(s)` : "Not set"}
+                  </TableCell>
+                  <TableCell className="space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => editLocation(location)}>
+                      Edit
+                    </Button>
+                    {!location.is_primary && (
+                      <Button variant="destructive" size="sm" onClick={() => deleteLocation(location.id)}>
+                        Remove
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-4 rounded-lg border p-4">
+          <h4 className="font-medium">{form.id ? `Edit ${form.name || "office"}` : "Add an office"}</h4>
+          {editingPrimary && (
+            <p className="text-sm text-muted-foreground">
+              The primary office&apos;s location, providers, operatories and timezone are set in the practice settings above.
+            </p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="office_name">Office Name</Label>
+              <Input
+                id="office_name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Downtown"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="office_phone_number_id">Vapi Phone Number ID (optional)</Label>
+              <Input
+                id="office_phone_number_id"
+                value={form.vapi_phone_number_id}
+                onChange={(e) => setForm(prev => ({ ...prev, vapi_phone_number_id: e.target.value }))}
+                placeholder="phone-number-id-from-vapi"
+              />
+            </div>
+            {!editingPrimary && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="office_location_id">NexHealth Location ID</Label>
+                  <Input
+                    id="office_location_id"
+                    value={form.nexhealth_location_id}
+                    onChange={(e) => setForm(prev => ({ ...prev, nexhealth_location_id: e.target.value }))}
+                    placeholder="location-id-from-nexhealth"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="office_timezone">Timezone</Label>
+                  <Select
+                    value={form.timezone}
+                    onValueChange={(value) => setForm(prev => ({ ...prev, timezone: value }))}
+                  >
+                    <SelectTrigger id="office_timezone">
+                      <SelectValue placeholder="Select timezone" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="America/New_York">Eastern Time</SelectItem>
+                      <SelectItem value="America/Chicago">Central Time</SelectItem>
+                      <SelectItem value="America/Denver">Mountain Time</SelectItem>
+                      <SelectItem value="America/Los_Angeles">Pacific Time</SelectItem>
+                      <SelectItem value="America/Phoenix">Arizona Time</SelectItem>
+                      <SelectItem value="America/Anchorage">Alaska Time</SelectItem>
+                      <SelectItem value="Pacific/Honolulu">Hawaii Time</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+          </div>
+
+          {!editingPrimary && (
+            <div className="space-y-2">
+              <Button variant="outline" onClick={fetchReferenceData} disabled={referenceDataLoading}>
+                {referenceDataLoading ? "Fetching..." : "Fetch Providers & Operatories"}
+              </Button>
+
+              {providers.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium">Providers:</h4>
+                  {providers.map((provider) => (
+                    <div key={provider.id} className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id={`office-provider-${provider.id}`}
+                        checked={form.nexhealth_selected_provider_ids.includes(provider.id)}
+                        onChange={() => toggleId("nexhealth_selected_provider_ids", provider.id)}
+                      />
+                      <label htmlFor={`office-provider-${provider.id}`}>{provider.name}</label>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {operatories.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium">Operatories (only if the location maps by operatory):</h4>
+                  {operatories.map((operatory) => (
+                    <div key={operatory.id} className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id={`office-operatory-${operatory.id}`}
+                        checked={form.nexhealth_default_operatory_ids.includes(operatory.id)}
+                        onChange={() => toggleId("nexhealth_default_operatory_ids", operatory.id)}
+                      />
+                      <label htmlFor={`office-operatory-${operatory.id}`}>{operatory.name}</label>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {providers.length === 0 && form.nexhealth_selected_provider_ids.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {form.nexhealth_selected_provider_ids.length} provider(s) selected. Fetch providers to change the selection.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="font-medium">Office Hours</h4>
+            <p className="text-sm text-muted-foreground">
+              Callers are told these hours, and that the office is closed on days left unchecked.
+            </p>
+            {WEEKDAYS.map((weekday) => {
+              const dayHours = form.office_hours[weekday];
+              return (
+                <div key={weekday} className="flex items-center gap-3">
+                  <div className="flex items-center space-x-2 w-32">
+                    <input
+                      type="checkbox"
+                      id={`office-hours-${weekday}`}
+                      checked={!!dayHours}
+                      onChange={() => toggleDayOpen(weekday)}
+                    />
+                    <label htmlFor={`office-hours-${weekday}`} className="capitalize">{weekday}</label>
+                  </div>
+                  {dayHours ? (
+                    <>
+                      <Input
+                        type="time"
+                        className="w-32"
+                        value={dayHours.open}
+                        onChange={(e) => setDayTime(weekday, "open", e.target.value)}
+                      />
+                      <span className="text-sm text-muted-foreground">to</span>
+                      <Input
+                        type="time"
+                        className="w-32"
+                        value={dayHours.close}
+                        onChange={(e) => setDayTime(weekday, "close", e.target.value)}
+                      />
+                    </>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">Closed</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={saveLocation} disabled={saving}>
+              {saving ? "Saving..." : form.id ? "Save Office" : "Add Office"}
+            </Button>
+            {form.id && (
+              <Button variant="outline" onClick={() => setForm(EMPTY_FORM)}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,399 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import {
+  OUTBOUND_WEBHOOK_EVENT_DESCRIPTIONS,
+  OUTBOUND_WEBHOOK_EVENT_TYPES,
+  OutboundWebhookEventType
+} from "@/lib/outbound-webhook-events";
+
+interface OutboundWebhook {
+  id: string;
+  url: string;
+  description: string | null;
+  event_types: string[];
+  is_active: boolean;
+  created_at: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  event_type: string;
+  status: string;
+  attempts: number;
+  response_status: number | null;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  subscription: { id: string; url: string };
+}
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  DELIVERED: "default",
+  PENDING: "outline",
+  RETRYING: "secondary",
+  FAILED: "destructive",
+};
+
+export default function OutboundWebhooks() {
+  const [subscriptions, setSubscriptions] = useState<OutboundWebhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [failedOnly, setFailedOnly] = useState(false);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [eventTypes, setEventTypes] = useState<OutboundWebhookEventType[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [revealedSecret, setRevealedSecret] = useState<{ url: string; secret: string } | null>(null);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+  const fetchSubscriptions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/practice/outbound-webhooks");
+      if (response.ok) {
+        const data = await response.json();
+        setSubscriptions(data.subscriptions || []);
+      }
+    } catch (error) {
+      console.error("Error fetching outbound webhooks:", error);
+    }
+  }, []);
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/practice/outbound-webhooks/deliveries${failedOnly ? "?status=FAILED" : ""}`);
+      if (response.ok) {
+        const data = await response.json();
+        setDeliveries(data.deliveries || []);
+      }
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+    }
+  }, [failedOnly]);
+
+  useEffect(() => {
+    fetchSubscriptions();
+  }, [fetchSubscriptions]);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  const toggleEventType = (eventType: OutboundWebhookEventType) => {
+    setEventTypes(prev =>
+      prev.includes(eventType) ? prev.filter(type => type !== eventType) : [...prev, eventType]
+    );
+  };
+
+  const addSubscription = async () => {
+    if (!url.trim() || eventTypes.length === 0) {
+      toast.error("Enter the endpoint URL and choose at least one event");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch("/api/practice/outbound-webhooks", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ url, description, event_types: eventTypes }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add webhook");
+      }
+
+      setSubscriptions(prev => [...prev, data.subscription]);
+      setRevealedSecret({ url: data.subscription.url, secret: data.secret });
+      setUrl("");
+      setDescription("");
+      setEventTypes([]);
+      toast.success("Webhook added");
+    } catch (error) {
+      console.error("Error adding outbound webhook:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add webhook");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateSubscription = async (subscription: OutboundWebhook, changes: { is_active?: boolean; rotate_secret?: boolean }) => {
+    try {
+      const response = await fetch("/api/practice/outbound-webhooks", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ id: subscription.id, ...changes }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update webhook");
+      }
+
+      if (data.secret) {
+        setRevealedSecret({ url: subscription.url, secret: data.secret });
+        toast.success("Signing secret rotated");
+      } else {
+        setSubscriptions(prev => prev.map(existing => existing.id === subscription.id ? data.subscription : existing));
+        toast.success(data.subscription.is_active ? "Webhook resumed" : "Webhook paused");
+      }
+    } catch (error) {
+      console.error("Error updating outbound webhook:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update webhook");
+    }
+  };
+
+  const deleteSubscription = async (subscriptionId: string) => {
+    try {
+      const response = await fetch(`/api/practice/outbound-webhooks?id=${subscriptionId}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        setSubscriptions(prev => prev.filter(subscription => subscription.id !== subscriptionId));
+        await fetchDeliveries();
+        toast.success("Webhook removed");
+      } else {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to remove webhook");
+      }
+    } catch (error) {
+      console.error("Error removing outbound webhook:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to remove webhook");
+    }
+  };
+
+  const redeliver = async (deliveryId: string) => {
+    setRedeliveringId(deliveryId);
+    try {
+      const response = await fetch("/api/practice/outbound-webhooks/deliveries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: deliveryId }),
+      });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        toast.success("Delivered");
+      } else {
+        toast.error(data.result?.message || data.error || "Delivery failed");
+      }
+      await fetchDeliveries();
+    } catch (error) {
+      console.error("Error redelivering webhook:", error);
+      toast.error("Failed to redeliver. Please try again.");
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>📤 Outbound Webhooks</CardTitle>
+        <CardDescription>
+          Notify your own systems (CRM, Slack, ...) when LAINE books, cancels or fails. Each request is signed with the
+          endpoint&apos;s secret in the X-Laine-Signature header and retried with backoff if your endpoint is down.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {revealedSecret && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-2">
+            <p className="text-sm font-medium">
+              Signing secret for {revealedSecret.url}. Copy it now; it won&apos;t be shown again.
+            </p>
+            <code className="block text-xs break-all bg-white p-2 rounded border">{revealedSecret.secret}</code>
+            <Button variant="outline" size="sm" onClick={() => setRevealedSecret(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        {subscriptions.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Endpoint</TableHead>
+                <TableHead>Events</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {subscriptions.map((subscription) => (
+                <TableRow key={subscription.id}>
+                  <TableCell>
+                    <div className="font-mono text-xs break-all">{subscription.url}</div>
+                    {subscription.description && (
+                      <div className="text-sm text-muted-foreground">{subscription.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {subscription.event_types.map((eventType) => (
+                      <div key={eventType}>{eventType}</div>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={subscription.is_active ? "default" : "secondary"}>
+                      {subscription.is_active ? "Active" : "Paused"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => updateSubscription(subscription, { is_active: !subscription.is_active })}
+                      >
+                        {subscription.is_active ? "Pause" : "Resume"}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => updateSubscription(subscription, { rotate_secret: true })}
+                      >
+                        Rotate Secret
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => deleteSubscription(subscription.id)}>
+                        Remove
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-4">
+          <h4 className="font-medium">Add Endpoint</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="outbound_webhook_url">URL</Label>
+              <Input
+                id="outbound_webhook_url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://hooks.example.com/laine"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="outbound_webhook_description">Description (optional)</Label>
+              <Input
+                id="outbound_webhook_description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Front desk Slack channel"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            {OUTBOUND_WEBHOOK_EVENT_TYPES.map((eventType) => (
+              <div key={eventType} className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id={`outbound-event-${eventType}`}
+                  checked={eventTypes.includes(eventType)}
+                  onChange={() => toggleEventType(eventType)}
+                />
+                <label htmlFor={`outbound-event-${eventType}`}>
+                  <span className="font-mono text-xs">{eventType}</span>
+                  <span className="text-sm text-muted-foreground"> — {OUTBOUND_WEBHOOK_EVENT_DESCRIPTIONS[eventType]}</span>
+                </label>
+              </div>
+            ))}
+          </div>
+          <Button onClick={addSubscription} disabled={saving}>
+            {saving ? "Saving..." : "Add Webhook"}
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          <h4 className="font-medium">Delivery Log</h4>
+          <div className="flex gap-2">
+            <Button variant={failedOnly ? "outline" : "default"} size="sm" onClick={() => setFailedOnly(false)}>
+              All recent
+            </Button>
+            <Button variant={failedOnly ? "default" : "outline"} size="sm" onClick={() => setFailedOnly(true)}>
+              Failed
+            </Button>
+            <Button variant="outline" size="sm" onClick={fetchDeliveries}>
+              🔄 Refresh
+            </Button>
+          </div>
+
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {failedOnly ? "No failed deliveries." : "No events sent yet."}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Response</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((delivery) => (
+                  <TableRow key={delivery.id}>
+                    <TableCell>{new Date(delivery.created_at).toLocaleString()}</TableCell>
+                    <TableCell className="font-mono text-xs">{delivery.event_type}</TableCell>
+                    <TableCell className="font-mono text-xs max-w-xs truncate" title={delivery.subscription.url}>
+                      {delivery.subscription.url}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[delivery.status] || "outline"}>{delivery.status}</Badge>
+                      {delivery.attempts > 1 && (
+                        <div className="text-xs text-muted-foreground">{delivery.attempts} attempts</div>
+                      )}
+                      {delivery.status === "RETRYING" && delivery.next_attempt_at && (
+                        <div className="text-xs text-muted-foreground">
+                          Next try {new Date(delivery.next_attempt_at).toLocaleTimeString()}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell
+                      className="text-sm text-muted-foreground max-w-xs truncate"
+                      title={delivery.last_error || undefined}
+                    >
+                      {delivery.last_error || (delivery.response_status ? `HTTP ${delivery.response_status}` : "—")}
+                    </TableCell>
+                    <TableCell>
+                      {delivery.status === "FAILED" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => redeliver(delivery.id)}
+                          disabled={redeliveringId === delivery.id}
+                        >
+                          {redeliveringId === delivery.id ? "Sending..." : "Redeliver"}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+
+interface WebhookEvent {
+  id: string;
+  source: string;
+  event_type: string;
+  status: string;
+  result: string | null;
+  attempts: number;
+  processed_at: string | null;
+  created_at: string;
+}
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  PROCESSED: "default",
+  IGNORED: "secondary",
+  RECEIVED: "outline",
+  FAILED: "destructive",
+};
+
+export default function WebhookEvents() {
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [failedOnly, setFailedOnly] = useState(true);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/practice/webhook-events${failedOnly ? "?status=FAILED" : ""}`);
+      if (response.ok) {
+        const data = await response.json();
+        setEvents(data.events || []);
+      }
+    } catch (error) {
+      console.error("Error fetching webhook events:", error);
+    }
+  }, [failedOnly]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const replayEvent = async (id: string) => {
+    setReplayingId(id);
+    try {
+      const response = await fetch("/api/practice/webhook-events", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id }),
+      });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        toast.success(data.result.message || "Event replayed");
+      } else {
+        toast.error(data.result?.message || data.error || "Replay failed");
+      }
+      await fetchEvents();
+    } catch (error) {
+      console.error("Error replaying webhook event:", error);
+      toast.error("Failed to replay event. Please try again.");
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>📥 Webhook Events</CardTitle>
+        <CardDescription>
+          Events received from NexHealth and Vapi. Failed events can be replayed once the cause is fixed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Button variant={failedOnly ? "default" : "outline"} size="sm" onClick={() => setFailedOnly(true)}>
+            Failed
+          </Button>
+          <Button variant={failedOnly ? "outline" : "default"} size="sm" onClick={() => setFailedOnly(false)}>
+            All recent
+          </Button>
+          <Button variant="outline" size="sm" onClick={fetchEvents}>
+            🔄 Refresh
+          </Button>
+        </div>
+
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {failedOnly ? "No failed events." : "No events received yet."}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell>{new Date(event.created_at).toLocaleString()}</TableCell>
+                  <TableCell>{event.source === "nexhealth" ? "NexHealth" : "Vapi"}</TableCell>
+                  <TableCell className="font-mono text-xs">{event.event_type}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[event.status] || "outline"}>{event.status}</Badge>
+                    {event.attempts > 1 && (
+                      <div className="text-xs text-muted-foreground">{event.attempts} attempts</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground max-w-xs truncate" title={event.result || undefined}>
+                    {event.result || "—"}
+                  </TableCell>
+                  <TableCell>
+                    {event.status === "FAILED" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => replayEvent(event.id)}
+                        disabled={replayingId === event.id}
+                      >
+                        {replayingId === event.id ? "Replaying..." : "Replay"}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+
+interface SecretStatus {
+  hasPracticeSecret: boolean;
+  previousSecretExpiresAt: string | null;
+}
+
+export default function WebhookSecretRotation() {
+  const [status, setStatus] = useState<SecretStatus | null>(null);
+  const [rotating, setRotating] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch("/api/practice/vapi-webhook-secret");
+      if (response.ok) {
+        setStatus(await response.json());
+      }
+    } catch (error) {
+      console.error("Error fetching webhook secret status:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const rotateSecret = async () => {
+    setRotating(true);
+    try {
+      const response = await fetch("/api/practice/vapi-webhook-secret", { method: "POST" });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success("Webhook secret rotated and assistant updated");
+        await fetchStatus();
+      } else {
+        toast.error(data.error || "Failed to rotate webhook secret");
+      }
+    } catch (error) {
+      console.error("Error rotating webhook secret:", error);
+      toast.error("Failed to rotate webhook secret. Please try again.");
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>🔐 Webhook Secret</CardTitle>
+        <CardDescription>
+          Secret your assistant sends with every call event. After a rotation the previous secret keeps working for 24 hours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="p-4 bg-muted rounded-lg text-sm">
+          {!status ? (
+            <p className="text-muted-foreground">Loading webhook secret status...</p>
+          ) : status.hasPracticeSecret ? (
+            <p>✅ Your assistant has its own webhook secret</p>
+          ) : (
+            <p>⚠️ Your assistant uses the shared webhook secret. Rotate to give it its own.</p>
+          )}
+          {status?.previousSecretExpiresAt && (
+            <p className="text-muted-foreground mt-1">
+              The previous secret is accepted until {new Date(status.previousSecretExpiresAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+        <Button variant="outline" onClick={rotateSecret} disabled={rotating}>
+          {rotating ? "⏳ Rotating..." : "🔄 Rotate Secret"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,7 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // Fail at startup rather than accept webhooks signed with a publicly known secret
+    const { assertVapiWebhookSecretConfigured } = await import("@/lib/vapi-webhook-secrets.server");
+    assertVapiWebhookSecretConfigured();
+  }
+}
@@ -0,0 +1,102 @@
+import type { Prisma } from "@prisma/client";
+import db from "@/lib/prisma";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("call-session");
+
+/**
+ * Per-call session state shared between Vapi tool calls, so the assistant
+ * doesn't have to copy IDs and slot times from one tool result into the next.
+ */
+
+export interface AppointmentSlot {
+  start_time: string;
+  end_time: string;
+  provider_id: string;
+  operatory_id?: string;
+  location_id?: string;
+}
+
+export interface CallerCandidate {
+  patient_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  date_of_birth: string | null;
+}
+
+export interface CallSessionUpdate {
+  location_id?: string;
+  nexhealth_patient_id?: string;
+  is_new_patient?: boolean;
+  appointment_type_id?: string;
+  appointment_type_name?: string;
+  duration_minutes?: number;
+  offered_slots?: AppointmentSlot[];
+  caller_phone_number?: string;
+  caller_lookup_at?: Date;
+  caller_candidates?: CallerCandidate[];
+}
+
+/**
+ * Get the session for a call, or null if no tool has written to it yet
+ */
+export async function getCallSession(vapiCallId: string) {
+  return db.callSession.findUnique({
+    where: { vapi_call_id: vapiCallId },
+  });
+}
+
+/**
+ * Merge new values into the session for a call, creating it on first write
+ */
+export async function updateCallSession(
+  vapiCallId: string,
+  practiceId: string,
+  update: CallSessionUpdate
+) {
+  const data = {
+    ...update,
+    offered_slots: update.offered_slots as unknown as Prisma.InputJsonValue | undefined,
+    caller_candidates: update.caller_candidates as unknown as Prisma.InputJsonValue | undefined,
+  };
+
+  try {
+    return await db.callSession.upsert({
+      where: { vapi_call_id: vapiCallId },
+      update: data,
+      create: {
+        vapi_call_id: vapiCallId,
+        practice_id: practiceId,
+        ...data,
+      },
+    });
+  } catch (error) {
+    // Session state is a convenience; a failed write must not fail the tool call
+    log.error("Failed to update call session", error);
+    return null;
+  }
+}
+
+/**
+ * Get the slot the patient picked by its 1-based position in the last offered list
+ */
+export function getOfferedSlot(
+  session: { offered_slots: Prisma.JsonValue | null } | null,
+  slotNumber: number
+): AppointmentSlot | null {
+  const slots = Array.isArray(session?.offered_slots)
+    ? (session.offered_slots as unknown as AppointmentSlot[])
+    : [];
+  return slots[slotNumber - 1] || null;
+}
+
+/**
+ * Get the patients on file for the caller's phone number, as found by caller-ID lookup
+ */
+export function getCallerCandidates(
+  session: { caller_candidates: Prisma.JsonValue | null } | null
+): CallerCandidate[] {
+  return Array.isArray(session?.caller_candidates)
+    ? (session.caller_candidates as unknown as CallerCandidate[])
+    : [];
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { resolveDateExpression, resolveSearchWindow } from "@/lib/date-resolution";
+
+const TIME_ZONE = "America/New_York";
+
+describe("resolveSearchWindow", () => {
+  it("resolves tomorrow from the practice's evening before the spring-forward day", () => {
+    // 11:30 PM on Saturday March 8 in New York, already March 9 in UTC
+    expect(resolveSearchWindow("tomorrow", undefined, TIME_ZONE, new Date("2025-03-09T04:30:00Z"))).toMatchObject({
+      startDate: "2025-03-09",
+      searchDays: 1,
+      spokenWindow: "on Sunday, March 9",
+    });
+  });
+
+  it("starts a next-available search on the requested day after springing forward", () => {
+    expect(resolveSearchWindow("monday", "next_available", TIME_ZONE, new Date("2025-03-09T12:00:00Z"))).toMatchObject({
+      startDate: "2025-03-10",
+      searchDays: 30,
+      spokenWindow: "starting Monday, March 10",
+    });
+  });
+
+  it("searches the practice's today late on the fall-back day", () => {
+    // 11:30 PM on Sunday November 2 in New York, already November 3 in UTC
+    expect(resolveSearchWindow(undefined, "specific_date", TIME_ZONE, new Date("2025-11-03T04:30:00Z"))).toEqual({
+      startDate: "2025-11-02",
+      searchDays: 1,
+      interpretedDate: null,
+      spokenWindow: "today",
+    });
+  });
+
+  it("spans a whole week that starts the day after falling back", () => {
+    expect(resolveSearchWindow("next week", undefined, TIME_ZONE, new Date("2025-11-02T12:00:00Z"))).toMatchObject({
+      startDate: "2025-11-03",
+      searchDays: 7,
+      spokenWindow: "from Monday, November 3 through Sunday, November 9",
+    });
+  });
+
+  it("returns null for a date it can't understand", () => {
+    expect(resolveSearchWindow("whenever works", undefined, TIME_ZONE, new Date("2025-11-02T12:00:00Z"))).toBeNull();
+  });
+});
+
+describe("resolveDateExpression", () => {
+  it("understands new year's day", () => {
+    const now = new Date("2025-12-20T15:00:00Z");
+    expect(resolveDateExpression("New Year's Day", TIME_ZONE, now)?.start_date).toBe("2026-01-01");
+    expect(resolveDateExpression("new year's", TIME_ZONE, now)?.start_date).toBe("2026-01-01");
+    expect(resolveDateExpression("new year's eve", TIME_ZONE, now)?.start_date).toBe("2025-12-31");
+  });
+
+  it("takes a weekday named on that same day as today, unless the caller says next", () => {
+    // Wednesday June 11
+    const now = new Date("2025-06-11T16:00:00Z");
+    expect(resolveDateExpression("Wednesday", TIME_ZONE, now)?.start_date).toBe("2025-06-11");
+    expect(resolveDateExpression("this Wednesday", TIME_ZONE, now)?.start_date).toBe("2025-06-11");
+    expect(resolveDateExpression("next Wednesday", TIME_ZONE, now)?.start_date).toBe("2025-06-18");
+  });
+
+  it("takes this and next weekday as the coming one on other days", () => {
+    const now = new Date("2025-06-11T16:00:00Z");
+    expect(resolveDateExpression("this Friday", TIME_ZONE, now)?.start_date).toBe("2025-06-13");
+    expect(resolveDateExpression("next Friday", TIME_ZONE, now)?.start_date).toBe("2025-06-13");
+    expect(resolveDateExpression("Monday", TIME_ZONE, now)?.start_date).toBe("2025-06-16");
+  });
+
+  it("resolves in N weeks to the whole week that far out, across the new year", () => {
+    expect(resolveDateExpression("in two weeks", TIME_ZONE, new Date("2025-06-11T16:00:00Z"))).toMatchObject({
+      start_date: "2025-06-23",
+      end_date: "2025-06-29",
+      days: 7,
+      is_range: true,
+    });
+    expect(resolveDateExpression("in 2 weeks", TIME_ZONE, new Date("2025-12-24T17:00:00Z"))).toMatchObject({
+      start_date: "2026-01-05",
+      end_date: "2026-01-11",
+    });
+  });
+
+  it("rolls passed month days and months over into the next year", () => {
+    const now = new Date("2025-12-20T17:00:00Z");
+    expect(resolveDateExpression("January 5th", TIME_ZONE, now)?.start_date).toBe("2026-01-05");
+    expect(resolveDateExpression("12/15", TIME_ZONE, now)?.start_date).toBe("2026-12-15");
+    expect(resolveDateExpression("December 31st", TIME_ZONE, now)?.start_date).toBe("2025-12-31");
+    expect(resolveDateExpression("the 3rd", TIME_ZONE, now)?.start_date).toBe("2026-01-03");
+    expect(resolveDateExpression("next month", TIME_ZONE, now)).toMatchObject({
+      start_date: "2026-01-01",
+      end_date: "2026-01-31",
+      days: 31,
+    });
+    expect(resolveDateExpression("in 2 months", TIME_ZONE, now)).toMatchObject({
+      start_date: "2026-02-01",
+      end_date: "2026-02-28",
+    });
+  });
+
+  it("resolves the end of the month to its last seven days, starting no earlier than today", () => {
+    expect(resolveDateExpression("end of the month", TIME_ZONE, new Date("2025-02-10T17:00:00Z"))).toMatchObject({
+      start_date: "2025-02-22",
+      end_date: "2025-02-28",
+      description: "Saturday, February 22 through Friday, February 28",
+    });
+    expect(resolveDateExpression("end of the month", TIME_ZONE, new Date("2025-06-28T16:00:00Z"))).toMatchObject({
+      start_date: "2025-06-28",
+      end_date: "2025-06-30",
+      days: 3,
+    });
+    expect(resolveDateExpression("end of next month", TIME_ZONE, new Date("2025-12-20T17:00:00Z"))).toMatchObject({
+      start_date: "2026-01-25",
+      end_date: "2026-01-31",
+    });
+  });
+
+  it("resolves today and tomorrow in the practice's timezone around midnight", () => {
+    // 11:30 PM on Wednesday June 11 in New York, already June 12 in UTC
+    const lateEvening = new Date("2025-06-12T03:30:00Z");
+    expect(resolveDateExpression("today", TIME_ZONE, lateEvening)?.start_date).toBe("2025-06-11");
+    expect(resolveDateExpression("tomorrow", TIME_ZONE, lateEvening)?.start_date).toBe("2025-06-12");
+    expect(resolveDateExpression("today", TIME_ZONE, new Date("2025-06-12T04:30:00Z"))?.start_date).toBe("2025-06-12");
+    expect(resolveDateExpression("today", "America/Los_Angeles", new Date("2025-06-12T06:30:00Z"))?.start_date).toBe("2025-06-11");
+    // 11:30 PM on New Year's Eve in New York
+    expect(resolveDateExpression("tomorrow", TIME_ZONE, new Date("2026-01-01T04:30:00Z"))?.start_date).toBe("2026-01-01");
+  });
+});
@@ -0,0 +1,363 @@
+import { WEEKDAYS, getPracticeToday, formatSpokenDate } from "@/lib/practice-time";
+
+/**
+ * Resolves what a caller said about dates ("next Tuesday", "June 3rd", "the week after
+ * Thanksgiving", "between the 10th and the 14th") into calendar dates, relative to
+ * "today" in the practice timezone.
+ */
+
+export interface ResolvedDateRange {
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD, inclusive
+  days: number;
+  is_range: boolean;
+  description: string; // Spoken form to read back to the caller
+}
+
+interface DateSpan {
+  start: string;
+  end: string;
+}
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, couple: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+// ===== Calendar arithmetic on YYYY-MM-DD strings (timezone-free) =====
+
+function toDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function fromParts(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month, day)).toISOString().split("T")[0];
+}
+
+function addDays(date: string, days: number): string {
+  const d = toDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+function weekdayIndex(date: string): number {
+  return toDate(date).getUTCDay();
+}
+
+function daysBetween(start: string, end: string): number {
+  return Math.round((toDate(end).getTime() - toDate(start).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+// Monday-to-Sunday week containing the date
+function weekOf(date: string): DateSpan {
+  const start = addDays(date, -((weekdayIndex(date) + 6) % 7));
+  return { start, end: addDays(start, 6) };
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const d = new Date(Date.UTC(year, month, day));
+  return d.getUTCFullYear() === year && d.getUTCMonth() === month && d.getUTCDate() === day;
+}
+
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, n: number): string {
+  const first = fromParts(year, month, 1);
+  const offset = (weekday - weekdayIndex(first) + 7) % 7;
+  return addDays(first, offset + (n - 1) * 7);
+}
+
+function lastWeekdayOfMonth(year: number, month: number, weekday: number): string {
+  const last = fromParts(year, month + 1, 0);
+  return addDays(last, -((weekdayIndex(last) - weekday + 7) % 7));
+}
+
+// ===== Expression parsing =====
+
+const HOLIDAYS: Record<string, (year: number) => string> = {
+  "new year": (year) => fromParts(year, 0, 1),
+  "memorial day": (year) => lastWeekdayOfMonth(year, 4, 1),
+  "independence day": (year) => fromParts(year, 6, 4),
+  "fourth of july": (year) => fromParts(year, 6, 4),
+  "labor day": (year) => nthWeekdayOfMonth(year, 8, 1, 1),
+  "thanksgiving": (year) => nthWeekdayOfMonth(year, 10, 4, 4),
+  "christmas eve": (year) => fromParts(year, 11, 24),
+  "christmas": (year) => fromParts(year, 11, 25),
+  "new years eve": (year) => fromParts(year, 11, 31),
+};
+
+function parseCount(value: string): number | null {
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  return NUMBER_WORDS[value] ?? null;
+}
+
+function parseMonth(value: string): number | null {
+  const index = MONTHS.findIndex((month) => month === value || (value.length >= 3 && month.startsWith(value)));
+  return index === -1 ? null : index;
+}
+
+function parseWeekday(value: string): number | null {
+  const index = WEEKDAYS.findIndex((day) => day === value || (value.length >= 3 && day.startsWith(value)));
+  return index === -1 ? null : index;
+}
+
+// Month/day without a year means the next time that date comes around
+function upcomingDate(today: string, month: number, day: number, year?: number): string | null {
+  if (year !== undefined) {
+    return isValidDate(year, month, day) ? fromParts(year, month, day) : null;
+  }
+  const currentYear = toDate(today).getUTCFullYear();
+  for (const candidateYear of [currentYear, currentYear + 1]) {
+    if (isValidDate(candidateYear, month, day)) {
+      const candidate = fromParts(candidateYear, month, day);
+      if (candidate >= today) return candidate;
+    }
+  }
+  return null;
+}
+
+function parseYear(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const year = parseInt(value, 10);
+  return value.length === 2 ? 2000 + year : year;
+}
+
+function resolveHoliday(text: string, today: string): string | null {
+  // "new year", "new years" and "new years day" (apostrophes are stripped by normalize)
+  const name = Object.keys(HOLIDAYS).find((holiday) =>
+    [holiday, `${holiday}s`, `${holiday} day`, `${holiday}s day`].includes(text)
+  );
+  if (!name) return null;
+
+  // Keep this year's date for a week after the holiday so "the week after Thanksgiving" still works
+  const currentYear = toDate(today).getUTCFullYear();
+  const thisYear = HOLIDAYS[name](currentYear);
+  return daysBetween(thisYear, today) > 7 ? HOLIDAYS[name](currentYear + 1) : thisYear;
+}
+
+function resolveSingle(text: string, today: string): DateSpan | null {
+  let match: RegExpMatchArray | null;
+  const day = (date: string | null): DateSpan | null => (date ? { start: date, end: date } : null);
+
+  if ((match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/))) {
+    const [year, month, dayOfMonth] = [parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)];
+    return day(isValidDate(year, month, dayOfMonth) ? fromParts(year, month, dayOfMonth) : null);
+  }
+
+  if (text === "today" || text === "now") return day(today);
+  if (text === "tomorrow") return day(addDays(today, 1));
+  if (text === "day after tomorrow") return day(addDays(today, 2));
+
+  if ((match = text.match(/^in (\w+) (day|week|month)s?$/))) {
+    const count = parseCount(match[1]);
+    if (count === null) return null;
+    if (match[2] === "day") return day(addDays(today, count));
+    if (match[2] === "week") return weekOf(addDays(today, count * 7));
+    const d = toDate(today);
+    const monthIndex = d.getUTCMonth() + count;
+    const year = d.getUTCFullYear() + Math.floor(monthIndex / 12);
+    return { start: fromParts(year, monthIndex % 12, 1), end: fromParts(year, (monthIndex % 12) + 1, 0) };
+  }
+
+  if (text === "this week" || text === "rest of week" || text === "rest of this week") return weekOf(today);
+  if (text === "next week") return weekOf(addDays(today, 7));
+  if (text === "this weekend" || text === "next weekend" || text === "weekend") {
+    const saturday = addDays(today, (6 - weekdayIndex(today) + 7) % 7);
+    const start = text === "next weekend" ? addDays(saturday, 7) : saturday;
+    return { start, end: addDays(start, 1) };
+  }
+  if (text === "this month" || text === "later this month" || text === "rest of month") {
+    const d = toDate(today);
+    return { start: today, end: fromParts(d.getUTCFullYear(), d.getUTCMonth() + 1, 0) };
+  }
+  if ((match = text.match(/^end of (this |next )?month$/))) {
+    // The month's last seven days
+    const d = toDate(today);
+    const end = fromParts(d.getUTCFullYear(), d.getUTCMonth() + (match[1] === "next " ? 2 : 1), 0);
+    return { start: addDays(end, -6), end };
+  }
+  if (text === "next month") {
+    const d = toDate(today);
+    return { start: fromParts(d.getUTCFullYear(), d.getUTCMonth() + 1, 1), end: fromParts(d.getUTCFullYear(), d.getUTCMonth() + 2, 0) };
+  }
+
+  if ((match = text.match(/^week (of|after|before) (.+)$/))) {
+    const reference = resolveSingle(match[2], today);
+    if (!reference) return null;
+    if (match[1] === "of") return weekOf(reference.start);
+    if (match[1] === "after") return weekOf(addDays(weekOf(reference.end).end, 1));
+    return weekOf(addDays(weekOf(reference.start).start, -7));
+  }
+  if ((match = text.match(/^day (after|before) (.+)$/))) {
+    const reference = resolveSingle(match[2], today);
+    if (!reference) return null;
+    return day(match[1] === "after" ? addDays(reference.end, 1) : addDays(reference.start, -1));
+  }
+  if ((match = text.match(/^(after|before) (.+)$/))) {
+    const reference = resolveSingle(match[2], today);
+    if (!reference) return null;
+    if (match[1] === "after") {
+      const start = addDays(reference.end, 1);
+      return { start, end: addDays(start, 6) };
+    }
+    return { start: addDays(reference.start, -7), end: addDays(reference.start, -1) };
+  }
+
+  if ((match = text.match(/^(this |next |coming )?(\w+)$/)) && parseWeekday(match[2]) !== null) {
+    const weekday = parseWeekday(match[2])!;
+    const offset = (weekday - weekdayIndex(today) + 7) % 7;
+    // "Tuesday" on a Tuesday means today; "next Tuesday" always means a later day
+    return day(addDays(today, match[1]?.trim() === "next" && offset === 0 ? 7 : offset));
+  }
+
+  // "Tuesday June 3rd" - the weekday adds nothing once the date is given
+  if ((match = text.match(/^(\w+) (.+)$/)) && parseWeekday(match[1]) !== null) {
+    return resolveSingle(match[2], today);
+  }
+
+  if ((match = text.match(/^(\w+) (\d{1,2})(?:st|nd|rd|th)?(?: (\d{4}))?$/)) && parseMonth(match[1]) !== null) {
+    return day(upcomingDate(today, parseMonth(match[1])!, parseInt(match[2], 10), parseYear(match[3])));
+  }
+  if ((match = text.match(/^(\d{1,2})(?:st|nd|rd|th)? of (\w+)(?: (\d{4}))?$/)) && parseMonth(match[2]) !== null) {
+    return day(upcomingDate(today, parseMonth(match[2])!, parseInt(match[1], 10), parseYear(match[3])));
+  }
+  if ((match = text.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/))) {
+    return day(upcomingDate(today, parseInt(match[1], 10) - 1, parseInt(match[2], 10), parseYear(match[3])));
+  }
+  if ((match = text.match(/^(\d{1,2})(?:st|nd|rd|th)$/))) {
+    // "the 15th" is this month's 15th, or next month's if it has passed
+    const d = toDate(today);
+    const dayOfMonth = parseInt(match[1], 10);
+    for (const monthOffset of [0, 1]) {
+      const monthIndex = d.getUTCMonth() + monthOffset;
+      const year = d.getUTCFullYear() + Math.floor(monthIndex / 12);
+      if (isValidDate(year, monthIndex % 12, dayOfMonth)) {
+        const candidate = fromParts(year, monthIndex % 12, dayOfMonth);
+        if (candidate >= today) return day(candidate);
+      }
+    }
+    return null;
+  }
+
+  if (parseMonth(text) !== null && text.length >= 3) {
+    const d = toDate(today);
+    const month = parseMonth(text)!;
+    const year = month < d.getUTCMonth() ? d.getUTCFullYear() + 1 : d.getUTCFullYear();
+    const start = fromParts(year, month, 1);
+    return { start: start < today ? today : start, end: fromParts(year, month + 1, 0) };
+  }
+
+  return day(resolveHoliday(text, today));
+}
+
+function normalize(expression: string): string {
+  return expression
+    .toLowerCase()
+    .replace(/[.,!?']/g, "")
+    .replace(/\s+/g, " ")
+    .replace(/\b(the|on|for|sometime|maybe|around)\b\s*/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Resolve a caller's date expression against today's date in the practice timezone.
+ * Returns null if the expression isn't understood or lies entirely in the past.
+ */
+export function resolveDateExpression(
+  expression: string,
+  timeZone: string,
+  now: Date = new Date()
+): ResolvedDateRange | null {
+  const today = getPracticeToday(timeZone, now);
+  const text = normalize(expression);
+  if (!text) return null;
+
+  let span = resolveSingle(text, today);
+  let isRange = false;
+
+  if (!span) {
+    const rangeMatch = text.match(/^(?:between |from )?(.+?) (?:and|to|through|thru|until|-) (.+)$/);
+    if (rangeMatch) {
+      const first = resolveSingle(rangeMatch[1], today);
+      // "the 10th to the 14th" or "June 10 to 14" - the second half may borrow the first half's month
+      const second = resolveSingle(rangeMatch[2], today) ||
+        (first && /^\d{1,2}(?:st|nd|rd|th)?$/.test(rangeMatch[2])
+          ? resolveSingle(`${MONTHS[toDate(first.start).getUTCMonth()]} ${rangeMatch[2]}`, today)
+          : null);
+      if (first && second && second.end >= first.start) {
+        span = { start: first.start, end: second.end };
+        isRange = true;
+      }
+    }
+  }
+
+  if (!span || span.end < today) return null;
+
+  const start = span.start < today ? today : span.start;
+  const days = daysBetween(start, span.end) + 1;
+  isRange = isRange || days > 1;
+
+  return {
+    start_date: start,
+    end_date: span.end,
+    days,
+    is_range: isRange,
+    description: isRange
+      ? `${formatSpokenDate(start)} through ${formatSpokenDate(span.end)}`
+      : formatSpokenDate(start),
+  };
+}
+
+export interface SearchWindow {
+  startDate: string; // YYYY-MM-DD
+  searchDays: number;
+  interpretedDate: ResolvedDateRange | null;
+  spokenWindow: string | null; // e.g. "on Tuesday, June 3", to read back when nothing is found
+}
+
+/**
+ * Work out the slot search window from what the caller asked for, in the practice timezone.
+ * Returns null if a requested date was given but couldn't be understood.
+ */
+export function resolveSearchWindow(
+  requestedDate: string | undefined,
+  searchType: string | undefined,
+  timeZone: string,
+  now: Date = new Date()
+): SearchWindow | null {
+  const nextAvailable = searchType === "next_available";
+
+  if (!requestedDate?.trim()) {
+    return {
+      startDate: getPracticeToday(timeZone, now),
+      searchDays: searchType === "specific_date" ? 1 : 30,
+      interpretedDate: null,
+      spokenWindow: searchType === "specific_date" ? "today" : null,
+    };
+  }
+
+  const interpretedDate = resolveDateExpression(requestedDate, timeZone, now);
+  if (!interpretedDate) {
+    return null;
+  }
+
+  if (interpretedDate.is_range) {
+    return {
+      startDate: interpretedDate.start_date,
+      searchDays: interpretedDate.days,
+      interpretedDate,
+      spokenWindow: `from ${interpretedDate.description}`,
+    };
+  }
+
+  return {
+    startDate: interpretedDate.start_date,
+    searchDays: nextAvailable ? 30 : 1,
+    interpretedDate,
+    spokenWindow: nextAvailable ? `starting ${interpretedDate.description}` : `on ${interpretedDate.description}`,
+  };
+}
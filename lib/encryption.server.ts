@@ -0,0 +1,49 @@
+import crypto from "crypto";
+
+/**
+ * AES-256-GCM encryption for secrets stored in the database, keyed by
+ * CREDENTIALS_ENCRYPTION_KEY (32 bytes, hex or base64 encoded).
+ */
+
+const ALGORITHM = "aes-256-gcm";
+const VERSION = "v1";
+
+function getEncryptionKey(): Buffer {
+  const rawKey = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!rawKey) {
+    throw new Error("CREDENTIALS_ENCRYPTION_KEY environment variable is not set");
+  }
+
+  const key = /^[0-9a-f]{64}$/i.test(rawKey) ? Buffer.from(rawKey, "hex") : Buffer.from(rawKey, "base64");
+  if (key.length !== 32) {
+    throw new Error("CREDENTIALS_ENCRYPTION_KEY must be 32 bytes, hex or base64 encoded (e.g. `openssl rand -hex 32`)");
+  }
+  return key;
+}
+
+/**
+ * Encrypt a secret into a self-describing "v1:iv:tag:ciphertext" string
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [VERSION, iv.toString("base64"), tag.toString("base64"), ciphertext.toString("base64")].join(":");
+}
+
+/**
+ * Decrypt a value produced by encryptSecret. Throws if it was tampered with or the key changed.
+ */
+export function decryptSecret(encrypted: string): string {
+  const [version, iv, tag, ciphertext] = encrypted.split(":");
+  if (version !== VERSION || !iv || !tag || !ciphertext) {
+    throw new Error("Unrecognized encrypted secret format");
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getEncryptionKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+}
@@ -0,0 +1,588 @@
+import crypto from "crypto";
+import { WEEKDAYS, getLocalTimeParts, parseTimeOfDay } from "@/lib/practice-time";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("fake-nexhealth");
+
+/**
+ * In-memory stand-in for the NexHealth API, for exercising booking flows offline. Serve it with
+ * `npm run fake-nexhealth` and point the app at it with NEXHEALTH_API_BASE_URL. It implements the
+ * endpoints NexHealthClient uses, derives slots from availabilities minus booked appointments,
+ * and sends signed appointment and patient webhooks like NexHealth does after an EHR sync.
+ */
+
+// IDs of the seeded institution; the test route defaults to these
+export const FAKE_NEXHEALTH_SEED = {
+  subdomain: "laine-fake",
+  locationId: "1001",
+  providerIds: ["2001", "2002"],
+  operatoryIds: ["3001", "3002"],
+  appointmentTypeIds: ["4001", "4002", "4003"],
+  timeZone: "America/New_York",
+};
+
+export interface FakeNexHealthOptions {
+  // Where appointment webhooks are delivered, e.g. http://localhost:3000/api/nexhealth/webhook
+  webhookTargetUrl: string;
+  // Secret the seeded webhook endpoint signs with; the app verifies with NEXHEALTH_WEBHOOK_SECRET
+  webhookSecret: string;
+  // Simulated EHR sync delay before the webhook fires
+  webhookDelayMs?: number;
+}
+
+export interface FakeNexHealthRequest {
+  method: string;
+  url: URL;
+  authorization: string | null;
+  body: any;
+}
+
+export interface FakeNexHealthResponse {
+  status: number;
+  body: unknown;
+}
+
+type Id = number;
+
+interface FakeAvailability {
+  id: Id;
+  location_id: Id;
+  provider_id: Id;
+  operatory_id: Id | null;
+  appointment_type_ids: Id[];
+  days: string[]; // Weekday names, e.g. "Monday"
+  specific_date: string | null;
+  begin_time: string; // HH:MM local time
+  end_time: string;
+  active: boolean;
+}
+
+interface FakeAppointment {
+  id: Id;
+  patient_id: Id;
+  provider_id: Id;
+  provider_name: string;
+  operatory_id: Id | null;
+  location_id: Id;
+  appointment_type_id: Id;
+  start_time: string;
+  end_time: string;
+  note: string | null;
+  cancelled: boolean;
+  confirmed: boolean;
+  foreign_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface FakeWebhookEndpoint {
+  id: Id;
+  target_url: string;
+  secret_key: string;
+  active: boolean;
+  subscriptions: { id: Id; subdomain: string; resource_type: string; event: string; active: boolean }[];
+}
+
+class FakeNexHealthError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const ok = (data: unknown, status = 200): FakeNexHealthResponse => ({
+  status,
+  body: { code: true, description: [], data, count: Array.isArray(data) ? data.length : undefined },
+});
+
+const digits = (value: unknown) => String(value ?? "").replace(/\D/g, "").slice(-10);
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+/**
+ * Convert a local date and time of day in timeZone to an instant (ignores the hour skipped at DST changes)
+ */
+function localTimeToDate(date: string, minutesOfDay: number, timeZone: string): Date {
+  const guess = Date.parse(`${date}T00:00:00Z`) + minutesOfDay * 60_000;
+  const local = getLocalTimeParts(new Date(guess), timeZone);
+  const localAsUtc = Date.parse(`${local.date}T00:00:00Z`) + local.minutesOfDay * 60_000;
+  return new Date(guess - (localAsUtc - guess));
+}
+
+export class FakeNexHealth {
+  private nextId = 50000;
+  private readonly tokens = new Set<string>();
+
+  private readonly institution = { subdomain: FAKE_NEXHEALTH_SEED.subdomain, id: 1 };
+  private readonly locations = [
+    { id: 1001, name: "LAINE Fake Dental", tz: FAKE_NEXHEALTH_SEED.timeZone, map_by_operatory: false, phone_number: "5555550000", street_address: "1 Main St" },
+  ];
+  private readonly providers = [
+    { id: 2001, location_id: 1001, first_name: "Sarah", last_name: "Chen", name: "Dr. Sarah Chen", inactive: false },
+    { id: 2002, location_id: 1001, first_name: "Marcus", last_name: "Reid", name: "Marcus Reid", inactive: false },
+  ];
+  private readonly operatories = [
+    { id: 3001, location_id: 1001, name: "Op 1", active: true },
+    { id: 3002, location_id: 1001, name: "Op 2", active: true },
+  ];
+  private readonly appointmentTypes = [
+    { id: 4001, name: "Cleaning", minutes: 60, parent_type: "Location", parent_id: 1001, bookable_online: true },
+    { id: 4002, name: "New Patient Exam", minutes: 90, parent_type: "Location", parent_id: 1001, bookable_online: true },
+    { id: 4003, name: "Emergency Visit", minutes: 30, parent_type: "Location", parent_id: 1001, bookable_online: true },
+  ];
+  private readonly patients: any[] = [
+    {
+      id: 5001,
+      first_name: "Jane",
+      last_name: "Doe",
+      name: "Jane Doe",
+      email: "jane.doe@example.com",
+      location_ids: [1001],
+      inactive: false,
+      foreign_id: "EHR-P-5001",
+      bio: { date_of_birth: "1985-04-12", phone_number: "5555550100", cell_phone_number: "5555550100", gender: "Female" },
+    },
+  ];
+  private readonly availabilities: FakeAvailability[] = [
+    { id: 6001, location_id: 1001, provider_id: 2001, operatory_id: 3001, appointment_type_ids: [4001, 4002, 4003], days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"], specific_date: null, begin_time: "09:00", end_time: "17:00", active: true },
+    { id: 6002, location_id: 1001, provider_id: 2002, operatory_id: 3002, appointment_type_ids: [4001, 4003], days: ["Monday", "Wednesday", "Friday"], specific_date: null, begin_time: "08:00", end_time: "12:00", active: true },
+  ];
+  private readonly appointments: FakeAppointment[] = [];
+  private readonly webhookEndpoints: FakeWebhookEndpoint[] = [];
+
+  constructor(private readonly options: FakeNexHealthOptions) {
+    // One endpoint already subscribed for the seeded institution, so bookings sync back without setup
+    const subdomain = this.institution.subdomain;
+    this.webhookEndpoints.push({
+      id: 7001,
+      target_url: options.webhookTargetUrl,
+      secret_key: options.webhookSecret,
+      active: true,
+      subscriptions: [
+        { id: 7101, subdomain, resource_type: "Appointment", event: "appointment_insertion", active: true },
+        { id: 7102, subdomain, resource_type: "Appointment", event: "appointment_updated", active: true },
+        { id: 7103, subdomain, resource_type: "Patient", event: "patient_created", active: true },
+        { id: 7104, subdomain, resource_type: "Patient", event: "patient_updated", active: true },
+      ],
+    });
+  }
+
+  async handle(request: FakeNexHealthRequest): Promise<FakeNexHealthResponse> {
+    try {
+      return await this.route(request);
+    } catch (error) {
+      const status = error instanceof FakeNexHealthError ? error.status : 500;
+      const message = error instanceof Error ? error.message : "Internal error";
+      return { status, body: { code: false, description: [message], error: [message], data: null } };
+    }
+  }
+
+  private async route({ method, url, authorization, body }: FakeNexHealthRequest): Promise<FakeNexHealthResponse> {
+    const segments = url.pathname.split("/").filter(Boolean);
+    const [resource, id, subresource] = segments;
+    const query = url.searchParams;
+
+    if (method === "POST" && resource === "authenticates") {
+      if (!authorization) throw new FakeNexHealthError(401, "API key required");
+      const token = `fake-${crypto.randomBytes(16).toString("hex")}`;
+      this.tokens.add(token);
+      return ok({ token });
+    }
+
+    if (!authorization?.startsWith("Bearer ") || !this.tokens.has(authorization.slice(7))) {
+      throw new FakeNexHealthError(401, "Invalid or expired token");
+    }
+
+    // Webhook endpoints belong to the API key rather than an institution
+    if (resource === "webhook_endpoints") {
+      if (!id && method === "GET") return ok(this.webhookEndpoints.map((endpoint) => this.serializeWebhookEndpoint(endpoint)));
+      if (!id && method === "POST") return ok(this.createWebhookEndpoint(body), 201);
+      if (id && subresource === "webhook_subscriptions" && method === "POST") {
+        this.requireSubdomain(query);
+        return ok(this.subscribe(Number(id), query.get("subdomain")!, body), 201);
+      }
+    }
+
+    this.requireSubdomain(query);
+    const locationId = query.get("location_id");
+
+    switch (`${method} ${resource}${id ? "/:id" : ""}`) {
+      case "GET locations":
+        return ok(this.locations);
+      case "GET locations/:id":
+        return ok(this.find(this.locations, id, "Location"));
+      case "GET providers":
+        return ok(this.providers.filter((p) => !locationId || String(p.location_id) === locationId));
+      case "GET operatories":
+        return ok(this.operatories.filter((o) => !locationId || String(o.location_id) === locationId));
+      case "GET appointment_types":
+        return ok(this.appointmentTypes);
+      case "GET appointment_types/:id":
+        return ok(this.find(this.appointmentTypes, id, "Appointment type"));
+      case "POST appointment_types":
+        return ok(this.createAppointmentType(body), 201);
+      case "GET availabilities":
+        return ok(this.availabilities.filter((a) => !locationId || String(a.location_id) === locationId));
+      case "POST availabilities":
+        return ok(this.createAvailability(locationId, body), 201);
+      case "GET sync_status":
+        return ok({ status: "healthy", last_sync_at: new Date().toISOString(), location_id: Number(locationId) });
+      case "GET patients":
+        return ok(this.searchPatients(query));
+      case "GET patients/:id":
+        return ok(this.getPatient(id, query.getAll("include[]")));
+      case "POST patients":
+        return ok(this.createPatient(locationId, body), 201);
+      case "GET appointment_slots":
+        return ok(this.getSlots(query));
+      case "GET appointments":
+        return ok(this.listAppointments(query));
+      case "GET appointments/:id":
+        return ok(this.withIncludes(this.find(this.appointments, id, "Appointment"), []));
+      case "POST appointments":
+        return ok(this.bookAppointment(locationId, body), 201);
+      case "PATCH appointments/:id":
+        return ok(this.updateAppointment(id, body));
+    }
+
+    throw new FakeNexHealthError(404, `No fake route for ${method} ${url.pathname}`);
+  }
+
+  private requireSubdomain(query: URLSearchParams) {
+    if (query.get("subdomain") !== this.institution.subdomain) {
+      throw new FakeNexHealthError(404, `Institution not found for subdomain "${query.get("subdomain")}"`);
+    }
+  }
+
+  private find<T extends { id: Id }>(records: T[], id: string, label: string): T {
+    const record = records.find((r) => String(r.id) === id);
+    if (!record) throw new FakeNexHealthError(404, `${label} ${id} not found`);
+    return record;
+  }
+
+  private id(): Id {
+    return this.nextId++;
+  }
+
+  // Patients
+
+  private searchPatients(query: URLSearchParams) {
+    const equalsIgnoreCase = (a: unknown, b: string) => String(a ?? "").toLowerCase() === b.toLowerCase();
+    return this.patients.filter((patient) => {
+      const phone = query.get("phone_number");
+      const phones = [patient.bio?.phone_number, patient.bio?.cell_phone_number, patient.bio?.home_phone_number].map(digits);
+      return (!query.get("first_name") || equalsIgnoreCase(patient.first_name, query.get("first_name")!)) &&
+        (!query.get("last_name") || equalsIgnoreCase(patient.last_name, query.get("last_name")!)) &&
+        (!query.get("email") || equalsIgnoreCase(patient.email, query.get("email")!)) &&
+        (!query.get("date_of_birth") || patient.bio?.date_of_birth === query.get("date_of_birth")) &&
+        (!phone || phones.includes(digits(phone)));
+    });
+  }
+
+  private getPatient(id: string, include: string[]) {
+    const patient = this.find(this.patients, id, "Patient");
+    if (!include.includes("upcoming_appts")) return patient;
+
+    const now = Date.now();
+    const upcoming = this.appointments.filter((a) => a.patient_id === patient.id && !a.cancelled && Date.parse(a.start_time) >= now);
+    return { ...patient, upcoming_appts: upcoming };
+  }
+
+  private createPatient(locationId: string | null, body: any) {
+    const user = body?.user;
+    if (!user?.first_name || !user?.last_name || !body?.provider_id) {
+      throw new FakeNexHealthError(400, "first_name, last_name and provider_id are required");
+    }
+    if (user.phone_number && digits(user.phone_number).length !== 10) {
+      throw new FakeNexHealthError(400, "Invalid phone_number");
+    }
+
+    const patient = {
+      id: this.id(),
+      first_name: user.first_name,
+      last_name: user.last_name,
+      name: `${user.first_name} ${user.last_name}`,
+      email: user.email || null,
+      location_ids: [Number(locationId)],
+      inactive: false,
+      foreign_id: null as string | null,
+      bio: {
+        date_of_birth: user.date_of_birth || null,
+        phone_number: user.phone_number || null,
+        cell_phone_number: user.phone_number || null,
+        gender: user.gender || null,
+      },
+    };
+    this.patients.push(patient);
+
+    // The EHR assigns its own patient ID once the patient is written back
+    setTimeout(() => {
+      patient.foreign_id = `EHR-P-${patient.id}`;
+      this.sendWebhook("Patient", "patient_created", { status: "success", data: patient }).catch((error) =>
+        log.error("Fake NexHealth webhook delivery failed", error)
+      );
+    }, this.options.webhookDelayMs ?? 1000);
+
+    return { user: patient };
+  }
+
+  // Scheduling
+
+  private createAppointmentType(body: any) {
+    const details = body?.appointment_type;
+    if (!details?.name || !(details?.minutes > 0)) {
+      throw new FakeNexHealthError(400, "name and minutes are required");
+    }
+    if (this.appointmentTypes.some((t) => t.name.toLowerCase() === String(details.name).toLowerCase())) {
+      throw new FakeNexHealthError(422, "Appointment type already exists");
+    }
+
+    const appointmentType = {
+      id: this.id(),
+      name: details.name,
+      minutes: Number(details.minutes),
+      parent_type: details.parent_type || "Location",
+      parent_id: Number(details.parent_id) || 1001,
+      bookable_online: details.bookable_online ?? true,
+    };
+    this.appointmentTypes.push(appointmentType);
+    return appointmentType;
+  }
+
+  private createAvailability(locationId: string | null, body: any) {
+    const details = body?.availability;
+    if (!details?.provider_id || !details?.begin_time || !details?.end_time || (!details.specific_date && !details.days?.length)) {
+      throw new FakeNexHealthError(400, "provider_id, begin_time, end_time and specific_date or days are required");
+    }
+
+    const availability: FakeAvailability = {
+      id: this.id(),
+      location_id: Number(locationId),
+      provider_id: Number(details.provider_id),
+      operatory_id: details.operatory_id ? Number(details.operatory_id) : null,
+      appointment_type_ids: (details.appointment_type_ids || []).map(Number),
+      days: details.days || [],
+      specific_date: details.specific_date || null,
+      begin_time: details.begin_time,
+      end_time: details.end_time,
+      active: details.active !== false,
+    };
+    this.availabilities.push(availability);
+    return availability;
+  }
+
+  private isBooked(providerId: Id, start: number, end: number, ignoreAppointmentId?: Id) {
+    return this.appointments.some((a) =>
+      a.id !== ignoreAppointmentId &&
+      !a.cancelled &&
+      a.provider_id === providerId &&
+      Date.parse(a.start_time) < end &&
+      Date.parse(a.end_time) > start
+    );
+  }
+
+  /**
+   * Open slots per provider: each matching availability is cut into appointment-length slots,
+   * dropping past times and anything overlapping a booked appointment
+   */
+  private getSlots(query: URLSearchParams) {
+    const appointmentType = this.find(this.appointmentTypes, query.get("appointment_type_id") || "", "Appointment type");
+    const startDate = query.get("start_date");
+    if (!startDate) throw new FakeNexHealthError(400, "start_date is required");
+
+    const days = Math.min(Number(query.get("days")) || 1, 60);
+    const locationIds = query.getAll("lids[]");
+    const providerIds = query.getAll("pids[]");
+    const operatoryIds = query.getAll("operatory_ids[]");
+    const durationMs = appointmentType.minutes * 60_000;
+    const now = Date.now();
+
+    const slotsByProvider = new Map<string, { lid: Id; pid: Id; slots: { time: string; end_time: string; operatory_id: Id | null }[] }>();
+
+    for (let offset = 0; offset < days; offset++) {
+      const date = addDays(startDate, offset);
+      const weekday = WEEKDAYS[new Date(`${date}T12:00:00Z`).getUTCDay()];
+
+      for (const availability of this.availabilities) {
+        const location = this.locations.find((l) => l.id === availability.location_id);
+        const matches = availability.active && location &&
+          (locationIds.length === 0 || locationIds.includes(String(availability.location_id))) &&
+          (providerIds.length === 0 || providerIds.includes(String(availability.provider_id))) &&
+          (operatoryIds.length === 0 || !availability.operatory_id || operatoryIds.includes(String(availability.operatory_id))) &&
+          (availability.appointment_type_ids.length === 0 || availability.appointment_type_ids.includes(appointmentType.id)) &&
+          (availability.specific_date ? availability.specific_date === date : availability.days.some((d) => d.toLowerCase() === weekday));
+        if (!matches) continue;
+
+        const begin = parseTimeOfDay(availability.begin_time) ?? 0;
+        const end = parseTimeOfDay(availability.end_time) ?? 0;
+
+        for (let minutes = begin; minutes + appointmentType.minutes <= end; minutes += appointmentType.minutes) {
+          const start = localTimeToDate(date, minutes, location.tz).getTime();
+          if (start < now || this.isBooked(availability.provider_id, start, start + durationMs)) continue;
+
+          const key = `${availability.location_id}:${availability.provider_id}`;
+          const entry = slotsByProvider.get(key) || { lid: availability.location_id, pid: availability.provider_id, slots: [] };
+          const time = new Date(start).toISOString();
+          if (!entry.slots.some((slot) => slot.time === time)) {
+            entry.slots.push({ time, end_time: new Date(start + durationMs).toISOString(), operatory_id: availability.operatory_id });
+          }
+          slotsByProvider.set(key, entry);
+        }
+      }
+    }
+
+    return Array.from(slotsByProvider.values()).map((entry) => ({
+      ...entry,
+      slots: entry.slots.sort((a, b) => a.time.localeCompare(b.time)),
+    }));
+  }
+
+  private withIncludes(appointment: FakeAppointment, include: string[]) {
+    return {
+      ...appointment,
+      ...(include.includes("provider") && { provider: this.providers.find((p) => p.id === appointment.provider_id) || null }),
+      ...(include.includes("operatory") && { operatory: this.operatories.find((o) => o.id === appointment.operatory_id) || null }),
+      ...(include.includes("appointment_type") && {
+        appointment_type: this.appointmentTypes.find((t) => t.id === appointment.appointment_type_id) || null,
+      }),
+    };
+  }
+
+  private listAppointments(query: URLSearchParams) {
+    const start = query.get("start");
+    const end = query.get("end");
+    if (!start || !end) throw new FakeNexHealthError(400, "start and end are required");
+
+    return this.appointments
+      .filter((a) =>
+        (!query.get("location_id") || String(a.location_id) === query.get("location_id")) &&
+        (!query.get("patient_id") || String(a.patient_id) === query.get("patient_id")) &&
+        Date.parse(a.start_time) >= Date.parse(start) &&
+        Date.parse(a.start_time) <= Date.parse(end)
+      )
+      .map((a) => this.withIncludes(a, query.getAll("include[]")));
+  }
+
+  private bookAppointment(locationId: string | null, body: any): FakeAppointment {
+    const appt = body?.appt;
+    if (!appt?.patient_id || !appt?.provider_id || !appt?.start_time) {
+      throw new FakeNexHealthError(400, "patient_id, provider_id and start_time are required");
+    }
+
+    this.find(this.patients, String(appt.patient_id), "Patient");
+    const provider = this.find(this.providers, String(appt.provider_id), "Provider");
+    const appointmentType = appt.appointment_type_id
+      ? this.find(this.appointmentTypes, String(appt.appointment_type_id), "Appointment type")
+      : null;
+
+    const start = Date.parse(appt.start_time);
+    const end = appt.end_time ? Date.parse(appt.end_time) : start + (appointmentType?.minutes || 30) * 60_000;
+    if (Number.isNaN(start) || Number.isNaN(end) || end <= start) {
+      throw new FakeNexHealthError(400, "Invalid start_time or end_time");
+    }
+    if (this.isBooked(provider.id, start, end)) {
+      throw new FakeNexHealthError(400, "Time slot is not available: conflicts with an existing appointment");
+    }
+
+    const appointment: FakeAppointment = {
+      id: this.id(),
+      patient_id: Number(appt.patient_id),
+      provider_id: provider.id,
+      provider_name: provider.name,
+      operatory_id: appt.operatory_id ? Number(appt.operatory_id) : null,
+      location_id: Number(locationId),
+      appointment_type_id: appointmentType?.id ?? 0,
+      start_time: new Date(start).toISOString(),
+      end_time: new Date(end).toISOString(),
+      note: appt.note || null,
+      cancelled: false,
+      confirmed: false,
+      foreign_id: null,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    this.appointments.push(appointment);
+
+    // NexHealth writes the appointment to the EHR asynchronously and reports back via webhook
+    setTimeout(() => {
+      appointment.foreign_id = `EHR-${appointment.id}`;
+      this.sendWebhook("Appointment", "appointment_insertion", { status: "success", data: appointment }).catch((error) =>
+        log.error("Fake NexHealth webhook delivery failed", error)
+      );
+    }, this.options.webhookDelayMs ?? 1000);
+
+    return appointment;
+  }
+
+  private updateAppointment(id: string, body: any): FakeAppointment {
+    const appointment = this.find(this.appointments, id, "Appointment");
+    const appt = body?.appt || {};
+    if (typeof appt.cancelled === "boolean") appointment.cancelled = appt.cancelled;
+    if (typeof appt.confirmed === "boolean") appointment.confirmed = appt.confirmed;
+    if (typeof appt.note === "string") appointment.note = appt.note;
+    appointment.updated_at = new Date().toISOString();
+
+    this.sendWebhook("Appointment", "appointment_updated", { status: "success", data: appointment }).catch((error) =>
+      log.error("Fake NexHealth webhook delivery failed", error)
+    );
+    return appointment;
+  }
+
+  // Webhooks
+
+  private createWebhookEndpoint(body: any) {
+    if (!body?.target_url) throw new FakeNexHealthError(400, "target_url is required");
+    const endpoint: FakeWebhookEndpoint = {
+      id: this.id(),
+      target_url: body.target_url,
+      secret_key: crypto.randomBytes(24).toString("hex"),
+      active: body.active !== false,
+      subscriptions: [],
+    };
+    this.webhookEndpoints.push(endpoint);
+    return this.serializeWebhookEndpoint(endpoint);
+  }
+
+  private serializeWebhookEndpoint({ id, target_url, secret_key, active }: FakeWebhookEndpoint) {
+    return { id, target_url, secret_key, active };
+  }
+
+  private subscribe(endpointId: Id, subdomain: string, body: any) {
+    const endpoint = this.find(this.webhookEndpoints, String(endpointId), "Webhook endpoint");
+    if (!body?.resource_type || !body?.event) throw new FakeNexHealthError(400, "resource_type and event are required");
+
+    if (endpoint.subscriptions.some((s) => s.subdomain === subdomain && s.resource_type === body.resource_type && s.event === body.event)) {
+      throw new FakeNexHealthError(409, "Webhook subscription already exists");
+    }
+
+    const subscription = { id: this.id(), subdomain, resource_type: body.resource_type, event: body.event, active: body.active !== false };
+    endpoint.subscriptions.push(subscription);
+    return subscription;
+  }
+
+  /**
+   * Deliver an event to every subscribed endpoint, signed the way NexHealth signs webhooks
+   */
+  private async sendWebhook(resourceType: string, event: string, payload: { status: string; data: unknown }) {
+    const subdomain = this.institution.subdomain;
+    const endpoints = this.webhookEndpoints.filter((endpoint) =>
+      endpoint.active &&
+      endpoint.subscriptions.some((s) => s.active && s.subdomain === subdomain && s.resource_type === resourceType && s.event === event)
+    );
+
+    for (const endpoint of endpoints) {
+      const rawBody = JSON.stringify({ resource_type: resourceType, event, subdomain, ...payload });
+      const signature = crypto.createHmac("sha256", endpoint.secret_key).update(rawBody).digest("hex");
+
+      const response = await fetch(endpoint.target_url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Nexhealth-Signature": `sha256=${signature}` },
+        body: rawBody,
+      });
+      log.info(`Fake NexHealth webhook ${resourceType}/${event} -> ${endpoint.target_url}: ${response.status}`);
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Structured server logging. Every entry carries a level, the module that wrote it and the
+ * correlation fields of the current request (e.g. the Vapi call id), and is redacted before
+ * it is written: patient names, phone numbers, dates of birth, emails, secrets and
+ * transcripts never reach the log output.
+ *
+ * LOG_LEVEL (debug | info | warn | error) defaults to debug in development and info elsewhere.
+ * LOG_FORMAT (json | pretty) defaults to pretty in development and json elsewhere.
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LOG_LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const isDevelopment = process.env.NODE_ENV === "development";
+
+function getMinimumLevel(): number {
+  const configured = process.env.LOG_LEVEL?.toLowerCase() as LogLevel | undefined;
+  if (configured && configured in LOG_LEVELS) {
+    return LOG_LEVELS[configured];
+  }
+  return isDevelopment ? LOG_LEVELS.debug : LOG_LEVELS.info;
+}
+
+function isPrettyFormat(): boolean {
+  const configured = process.env.LOG_FORMAT?.toLowerCase();
+  return configured ? configured === "pretty" : isDevelopment;
+}
+
+// Correlation fields shared by every entry logged while handling one request
+const logContext = new AsyncLocalStorage<Record<string, unknown>>();
+
+/**
+ * Run fn with fields (e.g. { vapi_call_id }) attached to every entry it logs, including
+ * entries from lib modules it calls into
+ */
+export function runWithLogContext<T>(fields: Record<string, unknown>, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
+
+/**
+ * Attach fields to the current log context once they are known, e.g. the practice id
+ * after the practice has been looked up
+ */
+export function addLogContext(fields: Record<string, unknown>): void {
+  const store = logContext.getStore();
+  if (store) {
+    Object.assign(store, fields);
+  }
+}
+
+// --- Redaction ---
+
+const REDACTED = "[redacted]";
+const MAX_DEPTH = 6;
+
+const NAME_KEYS = /^(first_?name|last_?name|middle_?name|full_?name|patient_?name|caller_?name|preferred_?name)$/i;
+const PHONE_KEYS = /(phone|^number$|^caller_?number$)/i;
+const DOB_KEYS = /(date_?of_?birth|dob$|birth_?date)/i;
+const EMAIL_KEYS = /email/i;
+const SECRET_KEYS = /(secret|token|password|api_?key|authorization|cookie|signature|credential)/i;
+const TRANSCRIPT_KEYS = /^(transcript|transcripts|messages|conversation|messages_?openai_?format|artifact|summary|note|notes|patient_reason_for_visit|cancellation_reason|recording_?url|stereo_?recording_?url)$/i;
+// Objects with one of these keys describe a person, so their plain "name" is redacted too
+const PERSON_KEYS = ["first_name", "last_name", "bio", "date_of_birth"];
+// So do objects held under one of these keys, e.g. Vapi's call.customer or { patient: { name } }
+const PERSON_PARENT_KEYS = /^(customer|customers|patient|patients|caller)$/i;
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const PHONE_PATTERN = /(?<![\w-])(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}(?![\w-])/g;
+const BEARER_PATTERN = /Bearer\s+[\w.~+/=-]+/gi;
+
+function maskPhone(value: string): string {
+  const digits = value.replace(/\D/g, "");
+  return digits.length >= 4 ? `***-***-${digits.slice(-4)}` : REDACTED;
+}
+
+/**
+ * Mask emails, phone numbers and bearer tokens inside free text such as log messages
+ * and NexHealth error descriptions
+ */
+export function scrubText(text: string): string {
+  return text
+    .replace(BEARER_PATTERN, `Bearer ${REDACTED}`)
+    .replace(EMAIL_PATTERN, "[email]")
+    .replace(PHONE_PATTERN, (match) => maskPhone(match));
+}
+
+function parseJsonObject(text: string): unknown {
+  if (!/^\s*[[{]/.test(text)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function isIdKey(key: string): boolean {
+  return /(^id$|_id$|Id$|_ids$|Ids$)/.test(key);
+}
+
+function redactField(key: string, value: unknown, isPerson: boolean, depth: number): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  if (TRANSCRIPT_KEYS.test(key)) {
+    return typeof value === "string" ? `[redacted ${value.length} chars]` : REDACTED;
+  }
+
+  if (typeof value === "string") {
+    if (SECRET_KEYS.test(key) || NAME_KEYS.test(key) || DOB_KEYS.test(key)) return REDACTED;
+    if (isPerson && key === "name") return REDACTED;
+    if (EMAIL_KEYS.test(key)) return "[email]";
+    if (PHONE_KEYS.test(key)) return maskPhone(value);
+    return isIdKey(key) ? value : redactValue(value, depth + 1);
+  }
+
+  if (typeof value === "object" && (SECRET_KEYS.test(key) && !Array.isArray(value) && !(value instanceof Error))) {
+    return REDACTED;
+  }
+
+  return redactValue(value, depth + 1, PERSON_PARENT_KEYS.test(key));
+}
+
+/**
+ * Copy a value for logging with PHI, secrets and transcripts removed. describesPerson marks
+ * objects (or arrays of them) known to be a person, whose "name" is redacted.
+ */
+export function redactValue(value: unknown, depth = 0, describesPerson = false): unknown {
+  if (value === null || value === undefined || typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+
+  if (typeof value === "string") {
+    // JSON held in a string (e.g. Vapi tool call arguments) is redacted field by field
+    const parsed = parseJsonObject(value);
+    return parsed !== undefined && depth < MAX_DEPTH ? redactValue(parsed, depth + 1) : scrubText(value);
+  }
+
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+
+  if (typeof value !== "object") {
+    return String(value);
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (value instanceof Error) {
+    const error = value as Error & { status?: number; code?: unknown };
+    return {
+      name: error.name,
+      message: scrubText(error.message),
+      ...(error.status !== undefined && { status: error.status }),
+      ...(error.code !== undefined && { code: error.code }),
+      ...(isDevelopment && error.stack && { stack: error.stack }),
+    };
+  }
+
+  if (depth >= MAX_DEPTH) {
+    return "[truncated]";
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, depth + 1, describesPerson));
+  }
+
+  if (value instanceof Headers) {
+    return redactValue(Object.fromEntries(value.entries()), depth);
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  const isPerson = describesPerson || entries.some(([key]) => PERSON_KEYS.includes(key));
+
+  return Object.fromEntries(entries.map(([key, fieldValue]) => [key, redactField(key, fieldValue, isPerson, depth)]));
+}
+
+// --- Output ---
+
+function toFields(data: unknown): Record<string, unknown> {
+  if (data === undefined) {
+    return {};
+  }
+  if (data instanceof Error) {
+    return { error: data };
+  }
+  if (data && typeof data === "object" && !Array.isArray(data)) {
+    return data as Record<string, unknown>;
+  }
+  return { data };
+}
+
+function write(level: LogLevel, module: string, bindings: Record<string, unknown>, message: string, data: unknown) {
+  if (LOG_LEVELS[level] < getMinimumLevel()) {
+    return;
+  }
+
+  const fields = redactValue({ ...logContext.getStore(), ...bindings, ...toFields(data) }, 0) as Record<string, unknown>;
+  const time = new Date().toISOString();
+  const msg = scrubText(message);
+
+  const line = isPrettyFormat()
+    ? `${time} ${level.toUpperCase().padEnd(5)} [${module}] ${msg}${Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : ""}`
+    : JSON.stringify({ time, level, module, msg, ...fields });
+
+  if (level === "error") {
+    console.error(line);
+  } else if (level === "warn") {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export interface Logger {
+  debug(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  error(message: string, data?: unknown): void;
+  child(bindings: Record<string, unknown>): Logger;
+}
+
+/**
+ * Create a logger for a route or lib module. data may be a fields object or an Error,
+ * and is redacted before it is written.
+ */
+export function createLogger(module: string, bindings: Record<string, unknown> = {}): Logger {
+  return {
+    debug: (message, data) => write("debug", module, bindings, message, data),
+    info: (message, data) => write("info", module, bindings, message, data),
+    warn: (message, data) => write("warn", module, bindings, message, data),
+    error: (message, data) => write("error", module, bindings, message, data),
+    child: (childBindings) => createLogger(module, { ...bindings, ...childBindings }),
+  };
+}
@@ -0,0 +1,828 @@
+import crypto from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import { z } from "zod";
+import {
+  AppointmentSlotsQuery,
+  BookAppointmentInput,
+  CreateAppointmentTypeInput,
+  CreateAvailabilityInput,
+  CreatePatientInput,
+  NexHealthAppointment,
+  NexHealthAppointmentSchema,
+  NexHealthAppointmentType,
+  NexHealthAppointmentTypeSchema,
+  NexHealthAvailability,
+  NexHealthAvailabilitySchema,
+  NexHealthCreatedPatientSchema,
+  NexHealthLocation,
+  NexHealthLocationSchema,
+  NexHealthOperatory,
+  NexHealthOperatorySchema,
+  NexHealthPatient,
+  NexHealthPatientSchema,
+  NexHealthProvider,
+  NexHealthProviderSchema,
+  NexHealthProviderSlots,
+  NexHealthProviderSlotsSchema,
+  NexHealthSyncStatus,
+  NexHealthSyncStatusSchema,
+  NexHealthWebhookEndpoint,
+  NexHealthWebhookEndpointSchema,
+  NexHealthWebhookSubscription,
+  NexHealthWebhookSubscriptionSchema,
+  PatientSearchParams,
+  WebhookSubscriptionInput,
+} from "@/lib/nexhealth-schemas";
+import { ReferenceDataKind, getCachedReferenceData, invalidateReferenceData } from "@/lib/nexhealth-reference-cache.server";
+import { createLogger } from "@/lib/logger.server";
+
+/**
+ * Typed client for the NexHealth API. Handles authentication (with a token cache shared
+ * across clients), retries, request counting, response validation and caching of reference
+ * data. Also used by the webhook setup scripts, so it must not depend on the database or Next.js.
+ */
+
+const log = createLogger("nexhealth-client");
+
+const NEXHEALTH_ACCEPT_HEADER = "application/vnd.Nexhealth+json;version=2";
+const DEFAULT_BASE_URL = "https://nexhealth.info";
+
+export interface NexHealthClientOptions {
+  // The institution subdomain; required for everything except webhook endpoints
+  subdomain?: string;
+  // An API key, or a resolver for one (e.g. the practice's stored key)
+  apiKey: string | (() => Promise<string>);
+  baseUrl?: string;
+}
+
+/**
+ * A non-2xx response from NexHealth. The body can name the patient, so it is kept on
+ * responseBody only and the message carries just the status.
+ */
+export class NexHealthApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly statusText: string,
+    public readonly responseBody: string
+  ) {
+    super(`NexHealth API error: ${status} ${statusText}`);
+    this.name = "NexHealthApiError";
+  }
+}
+
+/**
+ * A 2xx response in which NexHealth reported the request as failed (`code` false). Like
+ * NexHealthApiError, NexHealth's own explanation is kept out of the message, on details.
+ */
+export class NexHealthRejectedError extends Error {
+  constructor(public readonly details: string) {
+    super("NexHealth API returned an error");
+    this.name = "NexHealthRejectedError";
+  }
+}
+
+/**
+ * The error's message with NexHealth's own error text, lowercased, for matching the cause to
+ * a message for the caller. It may name the patient: never log it or return it from a tool.
+ */
+export function getNexHealthErrorText(error: unknown): string {
+  if (error instanceof NexHealthApiError) {
+    return `${error.message} ${error.responseBody}`.toLowerCase();
+  }
+  if (error instanceof NexHealthRejectedError) {
+    return `${error.message} ${error.details}`.toLowerCase();
+  }
+  return error instanceof Error ? error.message.toLowerCase() : "";
+}
+
+/**
+ * Whether NexHealth answered and refused the request, so nothing was created or changed.
+ * After a timeout, a network error, a 5xx or a success response that can't be read, a POST
+ * may still have gone through.
+ */
+export function isNexHealthRejection(error: unknown): boolean {
+  return (error instanceof NexHealthApiError && error.status >= 400 && error.status < 500) ||
+    error instanceof NexHealthRejectedError;
+}
+
+// Token cache to avoid repeated authentication calls
+interface TokenCache {
+  token: string;
+  expires: number; // timestamp
+}
+
+// One cached token per API key and base URL, since practices can use different NexHealth
+// credentials. Keyed by a hash so raw keys aren't held as map keys.
+const tokenCache = new Map<string, TokenCache>();
+
+function getCredentialCacheKey(baseUrl: string, apiKey: string): string {
+  return crypto.createHash("sha256").update(`${baseUrl}:${apiKey}`).digest("hex");
+}
+
+// Counts the NexHealth API requests made within one unit of work, such as a single tool call,
+// and holds the time by which all of them must be done
+const requestScope = new AsyncLocalStorage<{ count: number; deadline: number | null }>();
+
+/**
+ * Run fn and report how many NexHealth API requests it made. With budgetMs, requests made by fn
+ * share that much time: retries stop and timeouts shrink as the deadline approaches.
+ */
+export async function countNexHealthRequests<T>(
+  fn: () => Promise<T>,
+  options: { budgetMs?: number } = {}
+): Promise<{ result: T; requestCount: number }> {
+  const scope = { count: 0, deadline: options.budgetMs !== undefined ? Date.now() + options.budgetMs : null };
+  const result = await requestScope.run(scope, fn);
+  return { result, requestCount: scope.count };
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Retry settings for requests. Vapi gives a tool call about 20 seconds and a tool may make
+// several NexHealth requests, so each request (including its retries) is capped by budgetMs,
+// and all requests of one tool call by the budget given to countNexHealthRequests.
+const RETRY_CONFIG = {
+  maxRetries: envInt("NEXHEALTH_MAX_RETRIES", 2),
+  timeoutMs: envInt("NEXHEALTH_REQUEST_TIMEOUT_MS", 8000),
+  baseDelayMs: envInt("NEXHEALTH_RETRY_BASE_DELAY_MS", 300),
+  maxDelayMs: envInt("NEXHEALTH_RETRY_MAX_DELAY_MS", 2000),
+  budgetMs: envInt("NEXHEALTH_REQUEST_BUDGET_MS", 12000),
+};
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE", "OPTIONS"]);
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 504]);
+
+/**
+ * Exponential backoff with full jitter
+ */
+function getBackoffDelay(retries: number): number {
+  const cap = Math.min(RETRY_CONFIG.maxDelayMs, RETRY_CONFIG.baseDelayMs * 2 ** retries);
+  return Math.round(Math.random() * cap);
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Whether another attempt fits in the retry count and before the request's deadline.
+ * A Retry-After longer than the time left fails fast instead of holding the call.
+ */
+function canRetry(retries: number, delayMs: number, deadline: number): boolean {
+  return retries < RETRY_CONFIG.maxRetries && Date.now() + delayMs < deadline;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+interface RequestOptions {
+  locationId?: string;
+  body?: unknown;
+  query?: Record<string, string | string[]>;
+  // Webhook endpoints belong to the API key, not an institution, so they take no subdomain
+  withoutSubdomain?: boolean;
+}
+
+export class NexHealthClient {
+  readonly subdomain?: string;
+  readonly baseUrl: string;
+  private readonly apiKey: NexHealthClientOptions["apiKey"];
+
+  constructor(options: NexHealthClientOptions) {
+    this.subdomain = options.subdomain;
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl || process.env.NEXHEALTH_API_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  }
+
+  private async getApiKey(): Promise<string> {
+    return typeof this.apiKey === "string" ? this.apiKey : this.apiKey();
+  }
+
+  /**
+   * Exchange the API key for a Bearer token, bypassing the cache
+   */
+  async authenticate(): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/authenticates`, {
+      method: "POST",
+      headers: {
+        "Accept": NEXHEALTH_ACCEPT_HEADER,
+        "Authorization": await this.getApiKey(),
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`NexHealth authentication failed: ${response.status} ${response.statusText}`);
+    }
+
+    const authData = await response.json();
+
+    if (!authData.code) {
+      throw new Error(`NexHealth authentication failed: ${authData.description || "Unknown error"}`);
+    }
+
+    return authData.data.token;
+  }
+
+  /**
+   * Get a valid Bearer token, using the cached token if still valid
+   */
+  private async getBearerToken(): Promise<string> {
+    const now = Date.now();
+    const cacheKey = getCredentialCacheKey(this.baseUrl, await this.getApiKey());
+
+    // Return cached token if still valid
+    const cached = tokenCache.get(cacheKey);
+    if (cached && cached.expires > now) {
+      log.debug("Using cached NexHealth token");
+      return cached.token;
+    }
+
+    log.debug("Fetching new NexHealth token");
+
+    try {
+      const token = await this.authenticate();
+      // NexHealth tokens expire in 1 hour (3600 seconds) based on the JWT structure
+      const expiresIn = 3600;
+
+      // Cache the token (expires in seconds, convert to milliseconds and subtract buffer)
+      tokenCache.set(cacheKey, {
+        token,
+        expires: now + (expiresIn - 300) * 1000, // 5 minute buffer
+      });
+
+      log.info("NexHealth token obtained", { expires_in_seconds: expiresIn });
+      return token;
+    } catch (error) {
+      log.error("Failed to get NexHealth token", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drop the cached Bearer token so the next request authenticates again
+   */
+  private async invalidateBearerToken() {
+    tokenCache.delete(getCredentialCacheKey(this.baseUrl, await this.getApiKey()));
+  }
+
+  /**
+   * Serve reference data from the shared cache, loading it on a miss
+   */
+  private cached<T>(kind: ReferenceDataKind, locationId: string | undefined, load: () => Promise<T>, id?: string): Promise<T> {
+    return getCachedReferenceData({ subdomain: this.subdomain || "", locationId, kind, id }, load);
+  }
+
+  /**
+   * Send a request and validate the response's `data` against schema
+   */
+  private async request<S extends z.ZodTypeAny>(
+    schema: S,
+    method: string,
+    path: string,
+    options: RequestOptions = {}
+  ): Promise<z.output<S>> {
+    const url = new URL(`${this.baseUrl}${path}`);
+
+    // Add required query parameters
+    if (!options.withoutSubdomain) {
+      if (!this.subdomain) {
+        throw new Error(`NexHealth ${method} ${path} requires a subdomain`);
+      }
+      url.searchParams.set("subdomain", this.subdomain);
+    }
+    if (options.locationId) {
+      url.searchParams.set("location_id", options.locationId);
+    }
+
+    for (const [key, valueOrValues] of Object.entries(options.query || {})) {
+      if (Array.isArray(valueOrValues)) {
+        // Handle array parameters (e.g., pids[], operatory_ids[])
+        valueOrValues.forEach(v => url.searchParams.append(key, v));
+      } else {
+        url.searchParams.set(key, valueOrValues);
+      }
+    }
+
+    const contentHeaders: Record<string, string> = {
+      "Accept": NEXHEALTH_ACCEPT_HEADER,
+    };
+
+    if (method === "POST" || method === "PATCH" || method === "PUT") {
+      contentHeaders["Content-Type"] = "application/json";
+    }
+
+    // Only idempotent requests are retried after timeouts and 5xx errors; a POST that timed out may
+    // still have created the appointment. 429 and 401 responses are retried for any method, since
+    // NexHealth rejected those requests without processing them.
+    const isIdempotent = IDEMPOTENT_METHODS.has(method.toUpperCase());
+    const startedAt = Date.now();
+    // The request's own budget, cut short by the deadline of the tool call it belongs to
+    const deadline = Math.min(startedAt + RETRY_CONFIG.budgetMs, requestScope.getStore()?.deadline ?? Infinity);
+    let retries = 0;
+    let tokenRefreshed = false;
+
+    try {
+      while (true) {
+        const token = await this.getBearerToken();
+        const headers = { ...contentHeaders, "Authorization": `Bearer ${token}` };
+
+        // Only the method and path are logged; query strings and bodies carry patient details
+        log.debug("NexHealth API request", { method, path, location_id: options.locationId, attempt: retries + 1 });
+
+        const remainingBudgetMs = deadline - Date.now();
+        if (remainingBudgetMs <= 0) {
+          throw new Error(`Time budget used up before NexHealth ${method} ${path} could be sent`);
+        }
+        const timeoutMs = Math.min(RETRY_CONFIG.timeoutMs, remainingBudgetMs);
+
+        const scope = requestScope.getStore();
+        if (scope) {
+          scope.count++;
+        }
+
+        let response: Response;
+        try {
+          response = await fetch(url.toString(), {
+            method,
+            headers,
+            body: options.body ? JSON.stringify(options.body) : undefined,
+            signal: AbortSignal.timeout(timeoutMs),
+          });
+        } catch (fetchError) {
+          const timedOut = fetchError instanceof Error && fetchError.name === "TimeoutError";
+          const delayMs = getBackoffDelay(retries);
+          if (isIdempotent && canRetry(retries, delayMs, deadline)) {
+            log.warn(`NexHealth ${method} ${path} ${timedOut ? "timed out" : "failed"}, retrying`, { delay_ms: delayMs });
+            retries++;
+            await sleep(delayMs);
+            continue;
+          }
+          throw timedOut ? new Error(`NexHealth API request timed out after ${timeoutMs}ms`) : fetchError;
+        }
+
+        const responseText = await response.text();
+        log.debug("NexHealth API response", { method, path, status: response.status, duration_ms: Date.now() - startedAt });
+
+        // The cached token may have been revoked or expired early; fetch a new one once
+        if (response.status === 401 && !tokenRefreshed) {
+          log.warn("NexHealth returned 401, refreshing token and retrying once", { method, path });
+          tokenRefreshed = true;
+          await this.invalidateBearerToken();
+          continue;
+        }
+
+        if (response.status === 429 || (isIdempotent && RETRYABLE_STATUSES.has(response.status))) {
+          const retryAfterMs = response.status === 429 ? parseRetryAfter(response.headers.get("retry-after")) : null;
+          const delayMs = retryAfterMs ?? getBackoffDelay(retries);
+          if (canRetry(retries, delayMs, deadline)) {
+            log.warn(`NexHealth ${method} ${path} returned ${response.status}, retrying`, { delay_ms: delayMs });
+            retries++;
+            await sleep(delayMs);
+            continue;
+          }
+        }
+
+        if (!response.ok) {
+          log.error("NexHealth API error", {
+            method,
+            path,
+            status: response.status,
+            status_text: response.statusText,
+            retries,
+          });
+          throw new NexHealthApiError(response.status, response.statusText, responseText);
+        }
+
+        let responseJson;
+        try {
+          responseJson = JSON.parse(responseText);
+        } catch {
+          // The parse error quotes the body, so it isn't logged
+          log.error("Failed to parse NexHealth response as JSON", { method, path, status: response.status });
+          throw new Error(`Invalid JSON response from NexHealth for ${method} ${path}`);
+        }
+
+        if (!responseJson.code) {
+          const nexHealthError = {
+            message: responseJson.message || responseJson.description || "Unknown NexHealth error",
+            errors: responseJson.error || responseJson.errors || [],
+          };
+          // NexHealth's error text can name the patient, so only the status is logged
+          log.error("NexHealth business logic error", { method, path, status: response.status });
+          throw new NexHealthRejectedError(`${nexHealthError.message} - Errors: ${JSON.stringify(nexHealthError.errors)}`);
+        }
+
+        const parsed = schema.safeParse(responseJson.data);
+        if (!parsed.success) {
+          const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "data"}: ${issue.message}`);
+          log.error("Unexpected NexHealth response shape", { method, path, issues });
+          throw new Error(`Unexpected NexHealth response for ${method} ${path}: ${issues.slice(0, 5).join("; ")}`);
+        }
+
+        return parsed.data;
+      }
+    } catch (error) {
+      log.error("NexHealth API request failed", { method, path, subdomain: this.subdomain, retries, error });
+      throw error;
+    }
+  }
+
+  // Patients
+
+  /**
+   * Search for patients by various criteria. Returns an empty list on failure so callers
+   * can fall back to creating the patient.
+   */
+  async searchPatients(locationId: string, searchParams: PatientSearchParams): Promise<NexHealthPatient[]> {
+    log.info("Searching patients", { location_id: locationId, search_fields: Object.keys(searchParams) });
+
+    const query: Record<string, string> = {};
+
+    // Add non-empty search parameters
+    if (searchParams.first_name?.trim()) {
+      query.first_name = searchParams.first_name.trim();
+    }
+    if (searchParams.last_name?.trim()) {
+      query.last_name = searchParams.last_name.trim();
+    }
+    if (searchParams.phone_number?.trim()) {
+      // Clean phone number (remove spaces, dashes, parentheses)
+      query.phone_number = searchParams.phone_number.replace(/[\s\-\(\)]/g, '');
+    }
+    if (searchParams.date_of_birth?.trim()) {
+      query.date_of_birth = searchParams.date_of_birth.trim();
+    }
+    if (searchParams.email?.trim()) {
+      query.email = searchParams.email.trim();
+    }
+
+    if (Object.keys(query).length === 0) {
+      log.warn("No valid search parameters provided for patient search");
+      return [];
+    }
+
+    try {
+      const patients = await this.request(z.array(NexHealthPatientSchema).nullable(), "GET", "/patients", { locationId, query });
+      log.info("Patient search complete", { result_count: patients?.length || 0 });
+      return patients || [];
+    } catch (error) {
+      log.error("Patient search failed", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get a patient by ID, optionally with related records (e.g. ['upcoming_appts'])
+   */
+  async getPatient(patientId: string, include?: string[]): Promise<NexHealthPatient> {
+    const query: Record<string, string[]> = {};
+    if (include && include.length > 0) {
+      query["include[]"] = include;
+    }
+    return this.request(NexHealthPatientSchema, "GET", `/patients/${patientId}`, { query });
+  }
+
+  /**
+   * Create a new patient assigned to a provider
+   */
+  async createPatient(locationId: string, providerId: string, patientData: CreatePatientInput): Promise<NexHealthPatient> {
+    log.info("Creating patient", { location_id: locationId, provider_id: providerId });
+
+    // Validate required fields
+    if (!patientData.first_name?.trim() || !patientData.last_name?.trim() || !patientData.phone_number?.trim()) {
+      throw new Error("Missing required patient information: first_name, last_name, or phone_number");
+    }
+
+    if (!providerId?.trim()) {
+      throw new Error("Provider ID is required for patient creation");
+    }
+
+    // Clean and format phone number
+    const cleanPhone = patientData.phone_number.replace(/[\s\-\(\)]/g, '');
+
+    // Validate phone number format (should be 10 digits for US)
+    if (!/^\d{10}$/.test(cleanPhone)) {
+      log.warn("Phone number format may be invalid", { phone_number: cleanPhone });
+    }
+
+    // Format date of birth if provided
+    let formattedDob = patientData.date_of_birth;
+    if (formattedDob) {
+      // Ensure it's in YYYY-MM-DD format
+      const date = new Date(formattedDob);
+      if (!isNaN(date.getTime())) {
+        formattedDob = date.toISOString().split('T')[0];
+      } else {
+        log.warn("Invalid date_of_birth format, omitting it");
+        formattedDob = undefined;
+      }
+    }
+
+    const payload = {
+      user: {
+        first_name: patientData.first_name.trim(),
+        last_name: patientData.last_name.trim(),
+        phone_number: cleanPhone,
+        ...(patientData.email?.trim() && { email: patientData.email.trim() }),
+        ...(formattedDob && { date_of_birth: formattedDob }),
+        ...(patientData.gender && { gender: patientData.gender }),
+      },
+      provider_id: providerId,
+    };
+
+    try {
+      const patient = await this.request(NexHealthCreatedPatientSchema, "POST", "/patients", { locationId, body: payload });
+      log.info("✅ Patient created", { patient_id: patient.id });
+      return patient;
+    } catch (error) {
+      log.error("❌ Patient creation failed", error);
+
+      // Provide more specific error information
+      if (error instanceof Error) {
+        const errorMessage = getNexHealthErrorText(error);
+
+        if (errorMessage.includes('duplicate') || errorMessage.includes('already exists')) {
+          throw new Error("A patient with this information already exists. Please try searching for the existing patient.");
+        } else if (errorMessage.includes('invalid') && errorMessage.includes('phone')) {
+          throw new Error("The phone number format is invalid. Please provide a valid 10-digit phone number.");
+        } else if (errorMessage.includes('invalid') && errorMessage.includes('email')) {
+          throw new Error("The email format is invalid. Please provide a valid email address.");
+        } else if (errorMessage.includes('provider')) {
+          throw new Error("The selected provider is invalid or unavailable. Please check practice configuration.");
+        } else if (errorMessage.includes('unauthorized') || errorMessage.includes('authentication')) {
+          throw new Error("Authentication failed. Please check API credentials and practice configuration.");
+        }
+      }
+
+      // Re-throw original error with context
+      throw new Error(`Patient creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Appointments
+
+  /**
+   * Get a patient's appointments between two ISO 8601 dates or datetimes, with provider,
+   * operatory and appointment type included
+   */
+  async getAppointmentsForPatient(
+    locationId: string,
+    patientId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<NexHealthAppointment[]> {
+    const appointments = await this.request(z.array(NexHealthAppointmentSchema).nullable(), "GET", "/appointments", {
+      locationId,
+      query: {
+        patient_id: patientId,
+        start: startDate,
+        end: endDate,
+        "include[]": ["provider", "operatory", "appointment_type"],
+      },
+    });
+    return appointments || [];
+  }
+
+  async getAppointment(appointmentId: string): Promise<NexHealthAppointment> {
+    return this.request(NexHealthAppointmentSchema, "GET", `/appointments/${appointmentId}`);
+  }
+
+  async bookAppointment(locationId: string, appointmentDetails: BookAppointmentInput): Promise<NexHealthAppointment> {
+    return this.request(NexHealthAppointmentSchema, "POST", "/appointments", {
+      locationId,
+      body: { appt: appointmentDetails },
+    });
+  }
+
+  /**
+   * Cancel an appointment (the EHR sync happens asynchronously)
+   */
+  async cancelAppointment(appointmentId: string): Promise<NexHealthAppointment> {
+    log.info("Cancelling appointment", { appointment_id: appointmentId });
+
+    return this.request(NexHealthAppointmentSchema, "PATCH", `/appointments/${appointmentId}`, {
+      body: { appt: { cancelled: true } },
+    });
+  }
+
+  /**
+   * Get available appointment slots, grouped by location and provider
+   */
+  async getAppointmentSlots(locationId: string, params: AppointmentSlotsQuery): Promise<NexHealthProviderSlots[]> {
+    const query: Record<string, string | string[]> = {
+      appointment_type_id: params.appointment_type_id,
+      start_date: params.start_date,
+      "lids[]": locationId,
+    };
+
+    if (params.days) {
+      query.days = params.days.toString();
+    }
+    if (params.provider_ids && params.provider_ids.length > 0) {
+      query["pids[]"] = params.provider_ids;
+    }
+    if (params.operatory_ids && params.operatory_ids.length > 0) {
+      query["operatory_ids[]"] = params.operatory_ids;
+    }
+
+    const slots = await this.request(z.array(NexHealthProviderSlotsSchema).nullable(), "GET", "/appointment_slots", { query });
+    return slots || [];
+  }
+
+  // Appointment types
+
+  async getAppointmentTypes(locationId: string): Promise<NexHealthAppointmentType[]> {
+    return this.cached("appointment_types", locationId, async () => {
+      const appointmentTypes = await this.request(z.array(NexHealthAppointmentTypeSchema).nullable(), "GET", "/appointment_types", { locationId });
+      return appointmentTypes || [];
+    });
+  }
+
+  async getAppointmentType(appointmentTypeId: string, locationId?: string): Promise<NexHealthAppointmentType> {
+    log.debug("Getting appointment type", { appointment_type_id: appointmentTypeId });
+
+    try {
+      const result = await this.cached("appointment_type", locationId, () =>
+        this.request(NexHealthAppointmentTypeSchema, "GET", `/appointment_types/${appointmentTypeId}`, { locationId }),
+        appointmentTypeId
+      );
+      log.debug("✅ Appointment type retrieved", {
+        id: result.id,
+        name: result.name,
+        minutes: result.minutes
+      });
+      return result;
+    } catch (error) {
+      log.error("❌ Failed to get appointment type", { appointment_type_id: appointmentTypeId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Create an appointment type under the same parent (institution or location) as the
+   * practice's existing types, unless a parent is given
+   */
+  async createAppointmentType(locationId: string, details: CreateAppointmentTypeInput): Promise<NexHealthAppointmentType> {
+    log.info("Creating appointment type", { location_id: locationId, ...details });
+
+    // First, fetch existing appointment types to understand the practice's structure
+    let practiceParentType = "Location";
+    let practiceParentId = locationId;
+
+    try {
+      log.debug("Fetching existing appointment types to determine practice structure");
+      const [firstType] = await this.getAppointmentTypes(locationId);
+      if (firstType?.parent_type && firstType.parent_id) {
+        practiceParentType = firstType.parent_type;
+        practiceParentId = firstType.parent_id.toString();
+        log.debug("Detected practice structure", { parent_type: practiceParentType, parent_id: practiceParentId });
+      }
+    } catch (fetchError) {
+      log.warn("Could not fetch existing appointment types, using defaults", fetchError);
+    }
+
+    const data = {
+      appointment_type: {
+        name: details.name,
+        minutes: details.minutes,
+        bookable_online: details.bookable_online ?? true,
+        parent_type: details.parent_type || practiceParentType,
+        parent_id: details.parent_id || practiceParentId,
+        ...(details.emr_appt_descriptor_ids && {
+          emr_appt_descriptor_ids: details.emr_appt_descriptor_ids
+        }),
+      },
+    };
+
+    log.debug("Appointment type payload", data.appointment_type);
+
+    try {
+      // No location_id in query params for POST /appointment_types
+      const result = await this.request(NexHealthAppointmentTypeSchema, "POST", "/appointment_types", { body: data });
+
+      // Types may belong to the institution rather than this location, so drop them for every location
+      invalidateReferenceData(this.subdomain || "", { kinds: ["appointment_types", "appointment_type"] });
+
+      log.info("✅ Appointment type created", {
+        id: result.id,
+        name: result.name,
+        parent_type: result.parent_type,
+        parent_id: result.parent_id
+      });
+
+      return result;
+    } catch (error) {
+      log.error("❌ Appointment type creation failed", error);
+
+      // Provide more specific error information
+      if (error instanceof Error) {
+        const errorMessage = getNexHealthErrorText(error);
+
+        if (errorMessage.includes('duplicate') || errorMessage.includes('already exists')) {
+          throw new Error("An appointment type with this name already exists.");
+        } else if (errorMessage.includes('parent_id') || errorMessage.includes('parent_type')) {
+          throw new Error("Invalid parent configuration. Please check practice setup in NexHealth.");
+        } else if (errorMessage.includes('unauthorized') || errorMessage.includes('authentication')) {
+          throw new Error("Authentication failed. Please check API credentials.");
+        } else if (errorMessage.includes('minutes') || errorMessage.includes('duration')) {
+          throw new Error("Invalid appointment duration. Please provide a valid number of minutes.");
+        }
+      }
+
+      // Re-throw original error with context
+      throw new Error(`Appointment type creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Practice structure
+
+  async getProviders(locationId: string): Promise<NexHealthProvider[]> {
+    return this.cached("providers", locationId, async () => {
+      const providers = await this.request(z.array(NexHealthProviderSchema).nullable(), "GET", "/providers", { locationId });
+      return providers || [];
+    });
+  }
+
+  async getOperatories(locationId: string): Promise<NexHealthOperatory[]> {
+    return this.cached("operatories", locationId, async () => {
+      const operatories = await this.request(z.array(NexHealthOperatorySchema).nullable(), "GET", "/operatories", { locationId });
+      return operatories || [];
+    });
+  }
+
+  async getLocations(): Promise<NexHealthLocation[]> {
+    const locations = await this.request(z.array(NexHealthLocationSchema).nullable(), "GET", "/locations");
+    return locations || [];
+  }
+
+  /**
+   * Get location details (e.g. whether the location maps by operatory)
+   */
+  async getLocation(locationId: string): Promise<NexHealthLocation> {
+    return this.cached("location", locationId, () => this.request(NexHealthLocationSchema, "GET", `/locations/${locationId}`));
+  }
+
+  /**
+   * Create manual provider availability
+   */
+  async createAvailability(locationId: string, availability: CreateAvailabilityInput): Promise<NexHealthAvailability> {
+    return this.request(NexHealthAvailabilitySchema, "POST", "/availabilities", {
+      locationId,
+      body: {
+        availability: {
+          ...availability,
+          active: availability.active !== false, // Default to true
+        },
+      },
+    });
+  }
+
+  /**
+   * Check EHR sync status
+   */
+  async getSyncStatus(locationId: string): Promise<NexHealthSyncStatus> {
+    return this.request(NexHealthSyncStatusSchema, "GET", "/sync_status", { locationId });
+  }
+
+  // Webhooks
+
+  async listWebhookEndpoints(): Promise<NexHealthWebhookEndpoint[]> {
+    const endpoints = await this.request(z.array(NexHealthWebhookEndpointSchema).nullable(), "GET", "/webhook_endpoints", {
+      withoutSubdomain: true,
+    });
+    return endpoints || [];
+  }
+
+  /**
+   * Register a webhook endpoint. The response carries the secret_key used to sign deliveries.
+   */
+  async createWebhookEndpoint(targetUrl: string): Promise<NexHealthWebhookEndpoint> {
+    return this.request(NexHealthWebhookEndpointSchema, "POST", "/webhook_endpoints", {
+      withoutSubdomain: true,
+      body: { target_url: targetUrl, active: true },
+    });
+  }
+
+  /**
+   * Subscribe this client's subdomain to an event on a webhook endpoint
+   */
+  async subscribeToWebhookEvent(
+    webhookEndpointId: string,
+    subscription: WebhookSubscriptionInput
+  ): Promise<NexHealthWebhookSubscription> {
+    return this.request(NexHealthWebhookSubscriptionSchema, "POST", `/webhook_endpoints/${webhookEndpointId}/webhook_subscriptions`, {
+      body: { active: true, ...subscription },
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import db from "@/lib/prisma";
+import { decryptSecret } from "@/lib/encryption.server";
+
+/**
+ * Resolves which NexHealth API key to use for a practice. Each practice can store its own
+ * (encrypted) key for its NexHealth institution; NEXHEALTH_API_KEY remains the fallback.
+ * Keys are looked up by practice, never by subdomain, as several practices may share one.
+ */
+
+// Decrypted keys are cached briefly so tool calls don't hit the database for every NexHealth request
+const API_KEY_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const apiKeyCache = new Map<string, { apiKey: string; expires: number }>();
+
+/**
+ * Get the NexHealth API key for a practice; without a practice only NEXHEALTH_API_KEY is used
+ */
+export async function getNexHealthApiKey(practiceId?: string): Promise<string> {
+  if (!practiceId) {
+    if (!process.env.NEXHEALTH_API_KEY) {
+      throw new Error("NEXHEALTH_API_KEY is not set");
+    }
+    return process.env.NEXHEALTH_API_KEY;
+  }
+
+  const now = Date.now();
+  const cached = apiKeyCache.get(practiceId);
+  if (cached && cached.expires > now) {
+    return cached.apiKey;
+  }
+
+  const practice = await db.practice.findUnique({
+    where: { id: practiceId },
+    select: { nexhealth_api_key_encrypted: true },
+  });
+
+  let apiKey = process.env.NEXHEALTH_API_KEY;
+  if (practice?.nexhealth_api_key_encrypted) {
+    apiKey = decryptSecret(practice.nexhealth_api_key_encrypted);
+  }
+
+  if (!apiKey) {
+    throw new Error(`No NexHealth API key configured for practice ${practiceId} and NEXHEALTH_API_KEY is not set`);
+  }
+
+  apiKeyCache.set(practiceId, { apiKey, expires: now + API_KEY_CACHE_TTL_MS });
+  return apiKey;
+}
+
+/**
+ * Forget the cached key for a practice, e.g. after an admin saves a new one
+ */
+export function invalidateNexHealthApiKey(practiceId: string) {
+  apiKeyCache.delete(practiceId);
+}
@@ -0,0 +1,121 @@
+import { createLogger } from "@/lib/logger.server";
+
+/**
+ * Short-lived cache for NexHealth reference data (appointment types, providers, operatories and
+ * location details), which changes rarely but is read on most tool calls and setup page visits.
+ * Entries are keyed by subdomain and location and expire after NEXHEALTH_REFERENCE_CACHE_TTL_MS.
+ */
+
+const log = createLogger("nexhealth-reference-cache");
+
+export type ReferenceDataKind = "appointment_types" | "appointment_type" | "providers" | "operatories" | "location";
+
+const REFERENCE_DATA_KINDS: ReferenceDataKind[] = ["appointment_types", "appointment_type", "providers", "operatories", "location"];
+
+function getCacheTtlMs(): number {
+  const value = parseInt(process.env.NEXHEALTH_REFERENCE_CACHE_TTL_MS || "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : 10 * 60 * 1000;
+}
+
+interface CacheEntry {
+  // The in-flight or settled request, so concurrent lookups share one NexHealth call
+  value: Promise<unknown>;
+  expires: number;
+}
+
+const referenceCache = new Map<string, CacheEntry>();
+
+const stats = {
+  hits: 0,
+  misses: 0,
+  invalidations: 0,
+  byKind: Object.fromEntries(REFERENCE_DATA_KINDS.map((kind) => [kind, { hits: 0, misses: 0 }])) as Record<
+    ReferenceDataKind,
+    { hits: number; misses: number }
+  >,
+};
+
+export interface ReferenceDataKey {
+  subdomain: string;
+  locationId?: string;
+  kind: ReferenceDataKind;
+  id?: string; // For single records, e.g. one appointment type
+}
+
+function toCacheKey({ subdomain, locationId, kind, id }: ReferenceDataKey): string {
+  return [subdomain, locationId || "", kind, id || ""].join("|");
+}
+
+/**
+ * Return the cached value for key, or load and cache it. Failed loads are not cached.
+ */
+export async function getCachedReferenceData<T>(key: ReferenceDataKey, load: () => Promise<T>): Promise<T> {
+  const cacheKey = toCacheKey(key);
+  const now = Date.now();
+
+  const cached = referenceCache.get(cacheKey);
+  if (cached && cached.expires > now) {
+    stats.hits++;
+    stats.byKind[key.kind].hits++;
+    return cached.value as Promise<T>;
+  }
+
+  stats.misses++;
+  stats.byKind[key.kind].misses++;
+
+  const value = load();
+  referenceCache.set(cacheKey, { value, expires: now + getCacheTtlMs() });
+
+  try {
+    return await value;
+  } catch (error) {
+    // Only drop the entry if a newer load hasn't replaced it meanwhile
+    if (referenceCache.get(cacheKey)?.value === value) {
+      referenceCache.delete(cacheKey);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Drop cached reference data for a subdomain, optionally only for one location or some kinds.
+ * Returns the number of entries removed.
+ */
+export function invalidateReferenceData(
+  subdomain: string,
+  options: { locationId?: string; kinds?: ReferenceDataKind[] } = {}
+): number {
+  let removed = 0;
+
+  for (const cacheKey of Array.from(referenceCache.keys())) {
+    const [keySubdomain, keyLocationId, keyKind] = cacheKey.split("|");
+    const matches = keySubdomain === subdomain &&
+      (!options.locationId || keyLocationId === options.locationId) &&
+      (!options.kinds || options.kinds.includes(keyKind as ReferenceDataKind));
+
+    if (matches) {
+      referenceCache.delete(cacheKey);
+      removed++;
+    }
+  }
+
+  stats.invalidations++;
+  log.info("Invalidated cached NexHealth reference data", { subdomain, removed, ...options });
+  return removed;
+}
+
+/**
+ * Hit and miss counts since the server started, plus the current number of entries
+ */
+export function getReferenceCacheStats() {
+  const lookups = stats.hits + stats.misses;
+  return {
+    hits: stats.hits,
+    misses: stats.misses,
+    hit_rate: lookups > 0 ? Math.round((stats.hits / lookups) * 100) / 100 : null,
+    invalidations: stats.invalidations,
+    entries: referenceCache.size,
+    ttl_ms: getCacheTtlMs(),
+    by_kind: stats.byKind,
+  };
+}
@@ -0,0 +1,217 @@
+import { z } from "zod";
+
+/**
+ * Models for the NexHealth API resources LAINE uses. Responses are validated against these
+ * schemas by NexHealthClient. Only the fields LAINE relies on are declared; unknown fields
+ * pass through untouched so new NexHealth fields never break a call.
+ */
+
+// NexHealth IDs are numeric, but some endpoints return them as strings
+const nexHealthId = z.union([z.number(), z.string()]);
+
+const optionalString = z.string().nullish();
+const optionalId = nexHealthId.nullish();
+
+export const NexHealthProviderSchema = z.object({
+  id: nexHealthId,
+  name: optionalString,
+  first_name: optionalString,
+  last_name: optionalString,
+  inactive: z.boolean().nullish(),
+}).passthrough();
+
+export const NexHealthOperatorySchema = z.object({
+  id: nexHealthId,
+  name: optionalString,
+  active: z.boolean().nullish(),
+  location_id: optionalId,
+}).passthrough();
+
+export const NexHealthLocationSchema = z.object({
+  id: nexHealthId,
+  name: optionalString,
+  tz: optionalString,
+  map_by_operatory: z.boolean().nullish(),
+}).passthrough();
+
+export const NexHealthAppointmentTypeSchema = z.object({
+  id: nexHealthId,
+  name: z.string(),
+  minutes: z.number().nullish(),
+  parent_type: optionalString,
+  parent_id: optionalId,
+  bookable_online: z.boolean().nullish(),
+}).passthrough();
+
+export const NexHealthAppointmentSchema = z.object({
+  id: nexHealthId,
+  patient_id: optionalId,
+  provider_id: optionalId,
+  operatory_id: optionalId,
+  location_id: optionalId,
+  appointment_type_id: optionalId,
+  start_time: optionalString,
+  end_time: optionalString,
+  cancelled: z.boolean().nullish(),
+  confirmed: z.boolean().nullish(),
+  foreign_id: optionalId,
+  note: optionalString,
+  provider_name: optionalString,
+  updated_at: optionalString,
+  // Present when requested with include[]
+  provider: NexHealthProviderSchema.nullish(),
+  operatory: NexHealthOperatorySchema.nullish(),
+  appointment_type: NexHealthAppointmentTypeSchema.nullish(),
+}).passthrough();
+
+export const NexHealthPatientSchema = z.object({
+  id: nexHealthId,
+  first_name: optionalString,
+  last_name: optionalString,
+  name: optionalString,
+  email: optionalString,
+  phone_number: optionalString,
+  foreign_id: optionalId,
+  inactive: z.boolean().nullish(),
+  bio: z.object({
+    date_of_birth: optionalString,
+    email: optionalString,
+    phone_number: optionalString,
+    cell_phone_number: optionalString,
+    home_phone_number: optionalString,
+    work_phone_number: optionalString,
+  }).passthrough().nullish(),
+  upcoming_appts: z.array(NexHealthAppointmentSchema).nullish(),
+}).passthrough();
+
+// POST /patients wraps the new patient in `user`
+export const NexHealthCreatedPatientSchema = z.union([
+  z.object({ user: NexHealthPatientSchema }).passthrough().transform((data) => data.user),
+  NexHealthPatientSchema,
+]);
+
+export const NexHealthSlotSchema = z.object({
+  time: z.string(),
+  end_time: z.string(),
+  operatory_id: optionalId,
+}).passthrough();
+
+// GET /appointment_slots returns one entry per location/provider combination
+export const NexHealthProviderSlotsSchema = z.object({
+  lid: optionalId,
+  pid: optionalId,
+  operatory_id: optionalId,
+  slots: z.array(NexHealthSlotSchema).nullish(),
+}).passthrough();
+
+export const NexHealthAvailabilitySchema = z.object({
+  id: nexHealthId,
+  provider_id: optionalId,
+  operatory_id: optionalId,
+  specific_date: optionalString,
+  begin_time: optionalString,
+  end_time: optionalString,
+  active: z.boolean().nullish(),
+}).passthrough();
+
+export const NexHealthSyncStatusSchema = z.object({}).passthrough();
+
+export const NexHealthWebhookEndpointSchema = z.object({
+  id: nexHealthId,
+  target_url: z.string(),
+  secret_key: optionalString,
+  active: z.boolean().nullish(),
+}).passthrough();
+
+export const NexHealthWebhookSubscriptionSchema = z.object({
+  id: nexHealthId,
+  resource_type: optionalString,
+  event: optionalString,
+  active: z.boolean().nullish(),
+}).passthrough();
+
+// Body NexHealth POSTs to the webhook endpoint for each subscribed event
+export const NexHealthWebhookPayloadSchema = z.object({
+  resource_type: z.string(),
+  event: z.string(),
+  subdomain: optionalString,
+  status: optionalString, // "success" or "failure" for EHR write-back events
+  message: optionalString,
+  data: z.unknown(),
+}).passthrough();
+
+export type NexHealthProvider = z.infer<typeof NexHealthProviderSchema>;
+export type NexHealthOperatory = z.infer<typeof NexHealthOperatorySchema>;
+export type NexHealthLocation = z.infer<typeof NexHealthLocationSchema>;
+export type NexHealthAppointmentType = z.infer<typeof NexHealthAppointmentTypeSchema>;
+export type NexHealthAppointment = z.infer<typeof NexHealthAppointmentSchema>;
+export type NexHealthPatient = z.infer<typeof NexHealthPatientSchema>;
+export type NexHealthSlot = z.infer<typeof NexHealthSlotSchema>;
+export type NexHealthProviderSlots = z.infer<typeof NexHealthProviderSlotsSchema>;
+export type NexHealthAvailability = z.infer<typeof NexHealthAvailabilitySchema>;
+export type NexHealthSyncStatus = z.infer<typeof NexHealthSyncStatusSchema>;
+export type NexHealthWebhookEndpoint = z.infer<typeof NexHealthWebhookEndpointSchema>;
+export type NexHealthWebhookSubscription = z.infer<typeof NexHealthWebhookSubscriptionSchema>;
+export type NexHealthWebhookPayload = z.infer<typeof NexHealthWebhookPayloadSchema>;
+
+// Request models
+
+export interface PatientSearchParams {
+  first_name?: string;
+  last_name?: string;
+  phone_number?: string;
+  date_of_birth?: string;
+  email?: string;
+}
+
+export interface CreatePatientInput {
+  first_name: string;
+  last_name: string;
+  phone_number: string;
+  date_of_birth?: string;
+  email?: string;
+  gender?: string;
+}
+
+export interface AppointmentSlotsQuery {
+  appointment_type_id: string;
+  provider_ids?: string[];
+  operatory_ids?: string[];
+  start_date: string;
+  days?: number;
+}
+
+export interface BookAppointmentInput {
+  patient_id: string;
+  provider_id: string;
+  operatory_id?: string;
+  appointment_type_id: string;
+  start_time: string;
+  end_time: string;
+  note?: string;
+}
+
+export interface CreateAvailabilityInput {
+  specific_date: string; // YYYY-MM-DD format
+  appointment_type_ids: string[];
+  provider_id: string;
+  operatory_id?: string;
+  begin_time: string; // HH:MM format
+  end_time: string; // HH:MM format
+  active?: boolean;
+}
+
+export interface CreateAppointmentTypeInput {
+  name: string;
+  minutes: number;
+  bookable_online?: boolean;
+  emr_appt_descriptor_ids?: string[];
+  parent_type?: "Institution" | "Location";
+  parent_id?: string;
+}
+
+export interface WebhookSubscriptionInput {
+  resource_type: string; // e.g. "Appointment"
+  event: string; // e.g. "appointment_insertion"
+  active?: boolean;
+}
@@ -0,0 +1,252 @@
+import type { Prisma } from "@prisma/client";
+import db from "@/lib/prisma";
+import {
+  NexHealthAppointmentSchema,
+  NexHealthPatientSchema,
+  NexHealthWebhookPayload,
+} from "@/lib/nexhealth-schemas";
+import type { WebhookProcessingResult } from "@/lib/webhook-inbox.server";
+import { emitPracticeEvent } from "@/lib/outbound-webhooks.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("nexhealth-webhook-events");
+
+/**
+ * Applies NexHealth webhook events to LAINE's records, so appointments LAINE booked stay
+ * current when front-desk staff change them in the EHR and patients LAINE registered pick
+ * up their EHR IDs.
+ */
+
+// Cancellation reason recorded when an appointment was cancelled in the EHR rather than by LAINE
+const EHR_CANCELLATION_REASON = "Cancelled in the EHR";
+
+type PracticeRef = { id: string };
+
+type EventHandler = (payload: NexHealthWebhookPayload, practice: PracticeRef) => Promise<WebhookProcessingResult>;
+
+const EVENT_HANDLERS: Record<string, EventHandler> = {
+  "Appointment/appointment_insertion": handleAppointmentInsertion,
+  "Appointment/appointment_updated": handleAppointmentUpdated,
+  "Patient/patient_created": handlePatientChange,
+  "Patient/patient_updated": handlePatientChange,
+};
+
+/**
+ * Identity of an event for de-duplication: the record and the change it reports, when the
+ * payload carries the record's updated_at
+ */
+export function getNexHealthEventId(payload: NexHealthWebhookPayload): string | null {
+  const data = payload.data as { id?: unknown; updated_at?: unknown } | null | undefined;
+  if (!data?.id || !data.updated_at) {
+    return null;
+  }
+  return `${payload.resource_type}/${payload.event}:${data.id}:${data.updated_at}`;
+}
+
+/**
+ * Apply one verified webhook event to the practice it belongs to. Database errors are thrown
+ * so the caller can decide whether NexHealth should see a failure.
+ */
+export async function processNexHealthWebhookEvent(payload: NexHealthWebhookPayload): Promise<WebhookProcessingResult> {
+  const handler = EVENT_HANDLERS[`${payload.resource_type}/${payload.event}`];
+  if (!handler) {
+    log.info(`ℹ️ Unhandled webhook event: ${payload.resource_type}/${payload.event}`);
+    return { status: "ignored", message: `Unhandled event ${payload.resource_type}/${payload.event}` };
+  }
+
+  if (!payload.subdomain) {
+    log.warn("❌ Missing subdomain in webhook payload");
+    return { status: "error", message: "Missing subdomain" };
+  }
+
+  // The subdomain identifies which practice the event is for
+  const practice = await db.practice.findFirst({
+    where: { nexhealth_subdomain: payload.subdomain },
+    select: { id: true },
+  });
+
+  if (!practice) {
+    log.warn(`❌ No practice found for subdomain: ${payload.subdomain}`);
+    return { status: "error", message: `Practice not found for subdomain: ${payload.subdomain}` };
+  }
+
+  return handler(payload, practice);
+}
+
+/**
+ * NexHealth reports whether an appointment LAINE booked was written to the EHR
+ */
+async function handleAppointmentInsertion(payload: NexHealthWebhookPayload, practice: PracticeRef): Promise<WebhookProcessingResult> {
+  const appointment = NexHealthAppointmentSchema.safeParse(payload.data);
+  if (!appointment.success) {
+    log.warn("❌ Missing appointment ID in webhook payload");
+    return { status: "error", message: "Missing appointment data" };
+  }
+
+  const appointmentId = appointment.data.id.toString();
+  log.info("Handling appointment insertion webhook", { appointment_id: appointmentId, status: payload.status });
+
+  const callLog = await db.callLog.findFirst({
+    where: { booked_appointment_nexhealth_id: appointmentId, practice_id: practice.id },
+    select: { id: true, vapi_call_id: true },
+  });
+
+  if (!callLog) {
+    log.warn("❌ No matching call log found for appointment", { appointment_id: appointmentId, practice_id: practice.id });
+    return { status: "ignored", message: "Appointment was not booked through LAINE" };
+  }
+
+  const updateData: Prisma.CallLogUpdateInput = {
+    call_status: payload.status === "success" ? "COMPLETED_EHR_SYNCED" : "FAILED_EHR_SYNC",
+  };
+
+  if (payload.status === "success" && appointment.data.foreign_id) {
+    updateData.summary = `Appointment successfully synced to EHR with ID: ${appointment.data.foreign_id}`;
+    updateData.ehr_appointment_foreign_id = appointment.data.foreign_id.toString();
+  } else if (payload.status === "failure") {
+    updateData.summary = `Appointment failed to sync to EHR: ${payload.message || "Unknown error"}`;
+  }
+
+  await db.callLog.update({ where: { id: callLog.id }, data: updateData });
+
+  log.info("✅ Call log updated with EHR sync status", { call_log_id: callLog.id });
+
+  await emitPracticeEvent(practice.id, "ehr.appointment_synced", {
+    vapi_call_id: callLog.vapi_call_id,
+    appointment_id: appointmentId,
+    synced: payload.status === "success",
+    ehr_appointment_id: appointment.data.foreign_id?.toString() || null,
+    error: payload.status === "failure" ? payload.message || "Unknown error" : null,
+  });
+  return { status: "processed", message: "EHR sync status recorded" };
+}
+
+/**
+ * Mirror EHR-side changes (cancelled, moved, reassigned) onto the call that booked the appointment
+ */
+async function handleAppointmentUpdated(payload: NexHealthWebhookPayload, practice: PracticeRef): Promise<WebhookProcessingResult> {
+  const parsed = NexHealthAppointmentSchema.safeParse(payload.data);
+  if (!parsed.success) {
+    log.warn("❌ Missing appointment data in webhook payload");
+    return { status: "error", message: "Missing appointment data" };
+  }
+
+  const appointment = parsed.data;
+  const appointmentId = appointment.id.toString();
+
+  const callLog = await db.callLog.findFirst({
+    where: { booked_appointment_nexhealth_id: appointmentId, practice_id: practice.id },
+  });
+
+  if (!callLog) {
+    log.debug("Updated appointment was not booked through LAINE", { appointment_id: appointmentId });
+    return { status: "ignored", message: "Appointment was not booked through LAINE" };
+  }
+
+  // Webhooks can arrive out of order; never let an older change overwrite a newer one
+  const changedAt = appointment.updated_at ? new Date(appointment.updated_at) : new Date();
+  if (callLog.booked_appointment_ehr_updated_at && changedAt <= callLog.booked_appointment_ehr_updated_at) {
+    log.info("Skipping stale appointment update", { appointment_id: appointmentId });
+    return { status: "ignored", message: "Older than the last applied change" };
+  }
+
+  const updateData: Prisma.CallLogUpdateInput = { booked_appointment_ehr_updated_at: changedAt };
+  const changes: string[] = [];
+
+  if (appointment.cancelled && !callLog.booked_appointment_cancelled_at) {
+    updateData.booked_appointment_cancelled_at = changedAt;
+    updateData.booked_appointment_cancellation_reason = EHR_CANCELLATION_REASON;
+    changes.push("cancelled");
+  } else if (
+    appointment.cancelled === false &&
+    callLog.booked_appointment_cancelled_at &&
+    callLog.booked_appointment_cancellation_reason === EHR_CANCELLATION_REASON
+  ) {
+    // Staff reinstated an appointment they had cancelled
+    updateData.booked_appointment_cancelled_at = null;
+    updateData.booked_appointment_cancellation_reason = null;
+    changes.push("reinstated");
+  }
+
+  const startTime = appointment.start_time ? new Date(appointment.start_time) : null;
+  if (startTime && startTime.getTime() !== callLog.booked_appointment_start_time?.getTime()) {
+    updateData.booked_appointment_start_time = startTime;
+    updateData.booked_appointment_end_time = appointment.end_time ? new Date(appointment.end_time) : undefined;
+    changes.push("moved");
+  }
+
+  const providerId = appointment.provider_id?.toString();
+  if (providerId && providerId !== callLog.booked_appointment_provider_id) {
+    updateData.booked_appointment_provider_id = providerId;
+    changes.push("provider changed");
+  }
+
+  const operatoryId = appointment.operatory_id?.toString();
+  if (operatoryId && operatoryId !== callLog.booked_appointment_operatory_id) {
+    updateData.booked_appointment_operatory_id = operatoryId;
+    changes.push("operatory changed");
+  }
+
+  if (appointment.foreign_id && !callLog.ehr_appointment_foreign_id) {
+    updateData.ehr_appointment_foreign_id = appointment.foreign_id.toString();
+  }
+
+  await db.callLog.update({ where: { id: callLog.id }, data: updateData });
+
+  log.info("✅ Call log updated from EHR appointment change", {
+    call_log_id: callLog.id,
+    appointment_id: appointmentId,
+    changes,
+  });
+
+  if (changes.length > 0) {
+    await emitPracticeEvent(practice.id, "ehr.appointment_changed", {
+      vapi_call_id: callLog.vapi_call_id,
+      appointment_id: appointmentId,
+      changes,
+      cancelled: !!appointment.cancelled,
+      start_time: appointment.start_time || null,
+      end_time: appointment.end_time || null,
+      provider_id: providerId || null,
+      operatory_id: operatoryId || null,
+      changed_at: changedAt.toISOString(),
+    });
+  }
+
+  return { status: "processed", message: changes.length > 0 ? `Appointment ${changes.join(", ")}` : "No booking changes" };
+}
+
+/**
+ * Record the EHR patient ID on calls with a patient once the EHR knows them
+ */
+async function handlePatientChange(payload: NexHealthWebhookPayload, practice: PracticeRef): Promise<WebhookProcessingResult> {
+  const parsed = NexHealthPatientSchema.safeParse(payload.data);
+  if (!parsed.success) {
+    log.warn("❌ Missing patient data in webhook payload");
+    return { status: "error", message: "Missing patient data" };
+  }
+
+  const patientId = parsed.data.id.toString();
+  const foreignId = parsed.data.foreign_id?.toString();
+
+  if (!foreignId) {
+    return { status: "ignored", message: "Patient has no EHR ID yet" };
+  }
+
+  const { count } = await db.callLog.updateMany({
+    where: {
+      practice_id: practice.id,
+      nexhealth_patient_id: patientId,
+      OR: [{ patient_ehr_foreign_id: null }, { patient_ehr_foreign_id: { not: foreignId } }],
+    },
+    data: { patient_ehr_foreign_id: foreignId },
+  });
+
+  if (count === 0) {
+    log.debug("Patient event for a patient LAINE hasn't spoken with", { patient_id: patientId, event: payload.event });
+    return { status: "ignored", message: "No calls with this patient" };
+  }
+
+  log.info("✅ Call logs updated with EHR patient ID", { patient_id: patientId, call_logs: count });
+  return { status: "processed", message: `EHR patient ID recorded on ${count} call(s)` };
+}
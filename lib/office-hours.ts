@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { WEEKDAYS, Weekday, parseTimeOfDay } from "@/lib/practice-time";
+
+/**
+ * Weekly opening hours of an office, stored as JSON on PracticeLocation.office_hours.
+ * Days left out are closed.
+ */
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const DayHoursSchema = z
+  .object({
+    open: z.string().regex(TIME_OF_DAY, "Use 24-hour HH:MM"),
+    close: z.string().regex(TIME_OF_DAY, "Use 24-hour HH:MM"),
+  })
+  .refine((hours) => hours.open < hours.close, { message: "Opening time must be before closing time" });
+
+export const OfficeHoursSchema = z.object(
+  Object.fromEntries(WEEKDAYS.map((weekday) => [weekday, DayHoursSchema.optional()])) as Record<
+    Weekday,
+    z.ZodOptional<typeof DayHoursSchema>
+  >
+);
+
+export type DayHours = z.infer<typeof DayHoursSchema>;
+export type OfficeHours = z.infer<typeof OfficeHoursSchema>;
+
+/**
+ * Read stored office hours, treating missing or malformed values as "not set"
+ */
+export function parseOfficeHours(value: unknown): OfficeHours | null {
+  if (!value) {
+    return null;
+  }
+  const parsed = OfficeHoursSchema.safeParse(value);
+  return parsed.success && Object.values(parsed.data).some(Boolean) ? parsed.data : null;
+}
+
+/**
+ * Format a 24-hour time of day for speech, e.g. "17:30" -> "5:30 PM"
+ */
+export function formatSpokenTimeOfDay(time: string): string {
+  const minutesOfDay = parseTimeOfDay(time) ?? 0;
+  const hours = Math.floor(minutesOfDay / 60);
+  const minutes = minutesOfDay % 60;
+  const meridiem = hours < 12 ? "AM" : "PM";
+  return `${hours % 12 || 12}:${minutes.toString().padStart(2, "0")} ${meridiem}`;
+}
+
+/**
+ * One day's hours for speech, e.g. "8:00 AM to 5:00 PM", or "closed"
+ */
+export function describeDayHours(hours: OfficeHours, weekday: Weekday): string {
+  const day = hours[weekday];
+  return day ? `${formatSpokenTimeOfDay(day.open)} to ${formatSpokenTimeOfDay(day.close)}` : "closed";
+}
+
+/**
+ * The whole week, one line per day starting Monday, e.g. "Monday: 8:00 AM to 5:00 PM"
+ */
+export function describeWeeklyHours(hours: OfficeHours): string[] {
+  const mondayFirst = [...WEEKDAYS.slice(1), WEEKDAYS[0]];
+  return mondayFirst.map(
+    (weekday) => `${weekday.charAt(0).toUpperCase()}${weekday.slice(1)}: ${describeDayHours(hours, weekday)}`
+  );
+}
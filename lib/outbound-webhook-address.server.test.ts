@@ -0,0 +1,72 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { fetch } from "undici";
+import {
+  checkEndpointAddress,
+  isNonPublicAddressError,
+  isPublicAddress,
+  publicEndpointDispatcher,
+} from "@/lib/outbound-webhook-address.server";
+
+describe("isPublicAddress", () => {
+  it("accepts public IPv4 and IPv6 addresses", () => {
+    expect(isPublicAddress("93.184.216.34")).toBe(true);
+    expect(isPublicAddress("2606:2800:220:1:248:1893:25c8:1946")).toBe(true);
+  });
+
+  it("rejects private, loopback, link-local and carrier-grade NAT IPv4 addresses", () => {
+    for (const address of ["10.1.2.3", "172.16.0.1", "192.168.1.1", "127.0.0.1", "169.254.169.254", "100.64.0.1", "0.0.0.0"]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it("rejects loopback, unique local, link-local and IPv4-mapped IPv6 addresses", () => {
+    for (const address of ["::1", "::", "fd00::1", "fe80::1", "::ffff:169.254.169.254", "::ffff:a9fe:a9fe", "64:ff9b::a9fe:a9fe"]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it("rejects anything that isn't an IP address", () => {
+    expect(isPublicAddress("example.com")).toBe(false);
+  });
+});
+
+describe("checkEndpointAddress", () => {
+  it("refuses the cloud metadata service and loopback hosts", async () => {
+    expect(await checkEndpointAddress("http://169.254.169.254/latest/meta-data/")).not.toBeNull();
+    expect(await checkEndpointAddress("https://[::ffff:169.254.169.254]/")).not.toBeNull();
+    expect(await checkEndpointAddress("http://localhost:3000/hook")).not.toBeNull();
+  });
+
+  it("accepts a public IP literal", async () => {
+    expect(await checkEndpointAddress("https://93.184.216.34/hook")).toBeNull();
+  });
+});
+
+describe("publicEndpointDispatcher", () => {
+  // A host name that resolves to loopback stands in for one whose DNS answer changed after the check
+  const server = http.createServer((_request, response) => response.end("ok"));
+  let url: string;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://localhost:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("refuses to connect when the host resolves to a private address", async () => {
+    const error = await fetch(url, { dispatcher: publicEndpointDispatcher }).catch((fetchError) => fetchError);
+    expect(isNonPublicAddressError(error)).toBe(true);
+  });
+
+  it("connects to local receivers when they are allowed", async () => {
+    vi.stubEnv("OUTBOUND_WEBHOOK_ALLOW_PRIVATE_ADDRESSES", "true");
+    const response = await fetch(url, { dispatcher: publicEndpointDispatcher });
+    expect(await response.text()).toBe("ok");
+  });
+});
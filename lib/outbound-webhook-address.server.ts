@@ -0,0 +1,119 @@
+import dns from "dns";
+import { lookup } from "dns/promises";
+import { BlockList, isIP, LookupFunction } from "net";
+import { Agent } from "undici";
+
+/**
+ * Outbound webhook endpoints must resolve to public addresses, so a subscription can't be
+ * used to reach the cloud metadata service (169.254.169.254) or anything else on LAINE's
+ * own network. The check runs when an endpoint is saved and again before every attempt,
+ * because the host's DNS records can change in between, and deliveries are sent through
+ * publicEndpointDispatcher, whose connections check the addresses they actually connect to.
+ */
+
+// One list per family: a BlockList also matches IPv4 addresses against IPv6-mapped rules
+const blockedIPv4 = new BlockList();
+const blockedIPv6 = new BlockList();
+
+// "This network", private, carrier-grade NAT, loopback, link-local, IETF protocol
+// assignments, benchmarking, multicast and reserved (including broadcast)
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedIPv4.addSubnet(network, prefix, "ipv4");
+}
+
+// Unspecified, loopback, IPv4-mapped and NAT64 (which can wrap any IPv4 address),
+// unique local, link-local and multicast
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["::ffff:0:0", 96],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedIPv6.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return family === 4 ? !blockedIPv4.check(address, "ipv4") : !blockedIPv6.check(address, "ipv6");
+}
+
+// Local receivers can be allowed while developing; production always requires public addresses
+function allowPrivateAddresses(): boolean {
+  return process.env.NODE_ENV !== "production" && process.env.OUTBOUND_WEBHOOK_ALLOW_PRIVATE_ADDRESSES === "true";
+}
+
+/**
+ * Why webhooks can't be sent to this URL, or null when every address its host resolves
+ * to is public. Throws when the host can't be resolved, which may only be temporary.
+ */
+export async function checkEndpointAddress(url: string): Promise<string | null> {
+  if (allowPrivateAddresses()) {
+    return null;
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+
+  const addresses = await lookup(hostname, { all: true, verbatim: true });
+  if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+    return "Endpoint must resolve to a public address";
+  }
+  return null;
+}
+
+const NON_PUBLIC_ADDRESS_CODE = "EADDRNOTPUBLIC";
+
+/**
+ * Whether a failed send was refused by publicEndpointDispatcher; fetch reports it as the cause
+ */
+export function isNonPublicAddressError(error: unknown): boolean {
+  const cause = error instanceof Error ? error.cause : null;
+  return (cause as NodeJS.ErrnoException | null)?.code === NON_PUBLIC_ADDRESS_CODE;
+}
+
+/**
+ * dns.lookup for outbound webhook connections: fails when the host resolves to any
+ * non-public address. Hosts given as IP literals don't go through it and are covered by
+ * checkEndpointAddress instead.
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+    if (!allowPrivateAddresses() && (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address)))) {
+      callback(Object.assign(new Error(`${hostname} resolves to a non-public address`), { code: NON_PUBLIC_ADDRESS_CODE }), "");
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Send outbound webhooks with this, so the connection goes to an address that passed the
+ * check even if the host's DNS answer changes after checkEndpointAddress (DNS rebinding)
+ */
+export const publicEndpointDispatcher = new Agent({ connect: { lookup: publicOnlyLookup } });
@@ -0,0 +1,34 @@
+/**
+ * Events LAINE can send to a practice's own systems. Shared by the delivery code and the
+ * admin area, where practices choose which of them each endpoint receives.
+ */
+
+export const OUTBOUND_WEBHOOK_EVENT_TYPES = [
+  "appointment.booked",
+  "appointment.booking_failed",
+  "appointment.booking_unconfirmed",
+  "appointment.rescheduled",
+  "appointment.cancelled",
+  "appointment.cancellation_failed",
+  "ehr.appointment_synced",
+  "ehr.appointment_changed",
+  "call.ended",
+] as const;
+
+export type OutboundWebhookEventType = (typeof OUTBOUND_WEBHOOK_EVENT_TYPES)[number];
+
+export const OUTBOUND_WEBHOOK_EVENT_DESCRIPTIONS: Record<OutboundWebhookEventType, string> = {
+  "appointment.booked": "LAINE booked an appointment",
+  "appointment.booking_failed": "LAINE couldn't book an appointment the caller asked for",
+  "appointment.booking_unconfirmed": "LAINE sent a booking but couldn't confirm it went through, so the office should check",
+  "appointment.rescheduled": "LAINE moved an appointment to a new time",
+  "appointment.cancelled": "LAINE cancelled an appointment",
+  "appointment.cancellation_failed": "LAINE couldn't cancel an appointment",
+  "ehr.appointment_synced": "NexHealth reported whether a LAINE booking reached the EHR",
+  "ehr.appointment_changed": "Staff changed or cancelled a LAINE booking in the EHR",
+  "call.ended": "A call ended, with its summary",
+};
+
+export function isOutboundWebhookEventType(value: unknown): value is OutboundWebhookEventType {
+  return typeof value === "string" && (OUTBOUND_WEBHOOK_EVENT_TYPES as readonly string[]).includes(value);
+}
@@ -0,0 +1,422 @@
+import crypto from "crypto";
+import { after } from "next/server";
+import { Prisma, OutboundWebhookDelivery, OutboundWebhookSubscription } from "@prisma/client";
+import db from "@/lib/prisma";
+import { decryptSecret, encryptSecret } from "@/lib/encryption.server";
+import type { OutboundWebhookEventType } from "@/lib/outbound-webhook-events";
+import { fetch as undiciFetch } from "undici";
+import { checkEndpointAddress, isNonPublicAddressError, publicEndpointDispatcher } from "@/lib/outbound-webhook-address.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("outbound-webhooks");
+
+/**
+ * Sends LAINE's own events (bookings, cancellations, EHR sync results, ended calls) to the
+ * endpoints a practice subscribed. Each event is stored as one delivery per subscription
+ * before it is sent, signed with the subscription's secret, and first attempted after the
+ * response has gone out, so a slow or failing endpoint never holds up a call. Retries are
+ * stored as next_attempt_at and made by the sweeper, so they survive a restart.
+ *
+ * Receivers verify X-Laine-Signature, which is "sha256=" followed by the hex HMAC-SHA256
+ * of `${X-Laine-Timestamp}.${body}` using the subscription's secret.
+ */
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+const DELIVERY_CONFIG = {
+  maxAttempts: Math.max(1, envInt("OUTBOUND_WEBHOOK_MAX_ATTEMPTS", 5)),
+  timeoutMs: envInt("OUTBOUND_WEBHOOK_TIMEOUT_MS", 10000),
+  baseDelayMs: envInt("OUTBOUND_WEBHOOK_RETRY_BASE_DELAY_MS", 60000),
+  maxDelayMs: envInt("OUTBOUND_WEBHOOK_RETRY_MAX_DELAY_MS", 3600000),
+};
+
+// Responses worth another attempt; other 4xx mean the endpoint rejected the event
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+// How much of a failed attempt's error message is kept on the delivery
+const MAX_ERROR_LENGTH = 500;
+
+// How long past the request timeout a claimed delivery stays with the instance attempting it
+const CLAIM_MARGIN_MS = 30000;
+
+// Deliveries attempted at once per sweep
+const SWEEP_BATCH_SIZE = 25;
+
+export interface OutboundWebhookEvent {
+  id: string;
+  type: OutboundWebhookEventType;
+  created_at: string;
+  practice_id: string;
+  data: Record<string, unknown>;
+}
+
+export function generateSigningSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString("hex")}`;
+}
+
+export function signOutboundWebhook(secret: string, timestamp: string, body: string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Exponential backoff with jitter; never shorter than half the step so retries stay spaced out
+ */
+function getBackoffDelay(attempt: number): number {
+  const cap = Math.min(DELIVERY_CONFIG.maxDelayMs, DELIVERY_CONFIG.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(cap / 2 + Math.random() * (cap / 2));
+}
+
+/**
+ * Create a subscription with a fresh signing secret. The secret is only returned here and on rotation.
+ */
+export async function createWebhookSubscription(
+  practiceId: string,
+  input: { url: string; description?: string | null; eventTypes: OutboundWebhookEventType[] }
+): Promise<{ subscription: OutboundWebhookSubscription; secret: string }> {
+  const secret = generateSigningSecret();
+  const subscription = await db.outboundWebhookSubscription.create({
+    data: {
+      practice_id: practiceId,
+      url: input.url,
+      description: input.description || null,
+      event_types: input.eventTypes,
+      secret_encrypted: encryptSecret(secret),
+    },
+  });
+
+  log.info("Outbound webhook subscription created", { subscription_id: subscription.id, event_types: input.eventTypes });
+  return { subscription, secret };
+}
+
+/**
+ * Replace a subscription's signing secret; deliveries from now on are signed with the new one
+ */
+export async function rotateWebhookSubscriptionSecret(subscriptionId: string): Promise<string> {
+  const secret = generateSigningSecret();
+  await db.outboundWebhookSubscription.update({
+    where: { id: subscriptionId },
+    data: { secret_encrypted: encryptSecret(secret) },
+  });
+
+  log.info("Outbound webhook secret rotated", { subscription_id: subscriptionId });
+  return secret;
+}
+
+/**
+ * Queue an event for every active subscription of the practice that wants it, and send
+ * them once the current response is finished. Never throws: a failure to notify the
+ * practice's systems must not fail the booking or webhook that caused it.
+ */
+export async function emitPracticeEvent(
+  practiceId: string,
+  type: OutboundWebhookEventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const subscriptions = await db.outboundWebhookSubscription.findMany({
+      where: { practice_id: practiceId, is_active: true, event_types: { has: type } },
+      select: { id: true },
+    });
+
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const event: OutboundWebhookEvent = {
+      id: crypto.randomUUID(),
+      type,
+      created_at: new Date().toISOString(),
+      practice_id: practiceId,
+      data,
+    };
+
+    const deliveries = await db.$transaction(
+      subscriptions.map((subscription) =>
+        db.outboundWebhookDelivery.create({
+          data: {
+            subscription_id: subscription.id,
+            practice_id: practiceId,
+            event_id: event.id,
+            event_type: type,
+            payload: event as unknown as Prisma.InputJsonValue,
+            next_attempt_at: new Date(),
+          },
+          select: { id: true },
+        })
+      )
+    );
+
+    log.info("Outbound webhook event queued", { event_id: event.id, event_type: type, deliveries: deliveries.length });
+    // Only the first attempt happens here; retries are left to the sweeper
+    after(() => Promise.all(deliveries.map((delivery) => processDelivery(delivery.id))));
+  } catch (error) {
+    log.error(`❌ Error queueing outbound webhook event ${type}`, error);
+  }
+}
+
+type DeliveryWithSubscription = OutboundWebhookDelivery & { subscription: OutboundWebhookSubscription };
+
+type AttemptResult = { delivered: true } | { delivered: false; retryable: boolean };
+
+/**
+ * Send a delivery once and record the outcome of the attempt
+ */
+async function attemptDelivery(delivery: DeliveryWithSubscription): Promise<AttemptResult> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const attempts = delivery.attempts + 1;
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  let retryable = true;
+
+  try {
+    // Checked on every attempt, since the host may have been pointed elsewhere since it was saved
+    error = await checkEndpointAddress(delivery.subscription.url);
+    if (error) {
+      retryable = false;
+    } else {
+      const response = await undiciFetch(delivery.subscription.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "LAINE-Webhooks/1.0",
+          "X-Laine-Event": delivery.event_type,
+          "X-Laine-Delivery": delivery.id,
+          "X-Laine-Timestamp": timestamp,
+          "X-Laine-Signature": signOutboundWebhook(decryptSecret(delivery.subscription.secret_encrypted), timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_CONFIG.timeoutMs),
+        redirect: "manual",
+        dispatcher: publicEndpointDispatcher,
+      });
+
+      responseStatus = response.status;
+      if (!response.ok) {
+        // Only the status is kept: the response body is the endpoint's and may hold anything
+        error = `HTTP ${response.status}`;
+        retryable = RETRYABLE_STATUSES.has(response.status);
+      }
+    }
+  } catch (fetchError) {
+    const timedOut = fetchError instanceof Error && fetchError.name === "TimeoutError";
+    if (isNonPublicAddressError(fetchError)) {
+      // The host's DNS answer changed to a private address after the check above
+      error = "Endpoint must resolve to a public address";
+      retryable = false;
+    } else {
+      error = timedOut
+        ? `Timed out after ${DELIVERY_CONFIG.timeoutMs}ms`
+        : (fetchError instanceof Error ? fetchError.message : "Unknown error").substring(0, MAX_ERROR_LENGTH);
+    }
+  }
+
+  if (!error) {
+    await db.outboundWebhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: "DELIVERED",
+        attempts,
+        response_status: responseStatus,
+        last_error: null,
+        next_attempt_at: null,
+        delivered_at: new Date(),
+      },
+    });
+    log.info("✅ Outbound webhook delivered", { delivery_id: delivery.id, event_type: delivery.event_type, attempts });
+    return { delivered: true };
+  }
+
+  await db.outboundWebhookDelivery.update({
+    where: { id: delivery.id },
+    data: { attempts, response_status: responseStatus, last_error: error },
+  });
+  log.warn("Outbound webhook attempt failed", {
+    delivery_id: delivery.id,
+    event_type: delivery.event_type,
+    attempts,
+    response_status: responseStatus,
+  });
+  return { delivered: false, retryable };
+}
+
+/**
+ * Take a due delivery for one attempt. Pushing next_attempt_at past the attempt's timeout
+ * keeps the sweeper and other instances off it meanwhile, and lets the sweeper pick it up
+ * again if this instance dies mid-attempt. With failed, a FAILED delivery is taken for a
+ * manual redelivery instead, and is RETRYING while it's sent. Returns false when someone
+ * else has it or it's no longer due (or failed).
+ */
+async function claimDelivery(deliveryId: string, options: { failed?: boolean } = {}): Promise<boolean> {
+  const now = new Date();
+  const { count } = await db.outboundWebhookDelivery.updateMany({
+    where: options.failed
+      ? { id: deliveryId, status: "FAILED" }
+      : { id: deliveryId, status: { in: ["PENDING", "RETRYING"] }, next_attempt_at: { lte: now } },
+    data: {
+      status: options.failed ? "RETRYING" : undefined,
+      next_attempt_at: new Date(now.getTime() + DELIVERY_CONFIG.timeoutMs + CLAIM_MARGIN_MS),
+    },
+  });
+  return count === 1;
+}
+
+/**
+ * Make the next attempt at a due delivery, then schedule the one after it with backoff, or
+ * give up when the endpoint rejected it or the attempts ran out. Never throws.
+ */
+async function processDelivery(deliveryId: string): Promise<void> {
+  try {
+    if (!(await claimDelivery(deliveryId))) {
+      return;
+    }
+
+    const delivery = await db.outboundWebhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { subscription: true },
+    });
+
+    // Deleted with its subscription
+    if (!delivery) {
+      return;
+    }
+
+    if (!delivery.subscription.is_active) {
+      await db.outboundWebhookDelivery.update({
+        where: { id: deliveryId },
+        data: { status: "FAILED", next_attempt_at: null, last_error: "Subscription was disabled" },
+      });
+      return;
+    }
+
+    const result = await attemptDelivery(delivery);
+    if (result.delivered) {
+      return;
+    }
+
+    const attempts = delivery.attempts + 1;
+    if (!result.retryable || attempts >= DELIVERY_CONFIG.maxAttempts) {
+      await db.outboundWebhookDelivery.update({
+        where: { id: deliveryId },
+        data: { status: "FAILED", next_attempt_at: null },
+      });
+      log.error("❌ Outbound webhook delivery failed", {
+        delivery_id: deliveryId,
+        event_type: delivery.event_type,
+        attempts,
+      });
+      return;
+    }
+
+    await db.outboundWebhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: "RETRYING", next_attempt_at: new Date(Date.now() + getBackoffDelay(attempts)) },
+    });
+  } catch (error) {
+    log.error(`❌ Error delivering outbound webhook ${deliveryId}`, error);
+  }
+}
+
+/**
+ * Attempt every delivery whose next attempt is due, oldest first: retries, and first
+ * attempts that never ran because the instance that queued them went away. Called on a
+ * schedule by /api/cron/outbound-webhooks.
+ */
+export async function sweepDueWebhookDeliveries(
+  limit = SWEEP_BATCH_SIZE
+): Promise<{ due: number }> {
+  const due = await db.outboundWebhookDelivery.findMany({
+    where: {
+      status: { in: ["PENDING", "RETRYING"] },
+      next_attempt_at: { lte: new Date() },
+    },
+    orderBy: { next_attempt_at: "asc" },
+    take: limit,
+    select: { id: true },
+  });
+
+  await Promise.all(due.map((delivery) => processDelivery(delivery.id)));
+
+  if (due.length > 0) {
+    log.info("Outbound webhook sweep finished", { due: due.length });
+  }
+  return { due: due.length };
+}
+
+/**
+ * Send a failed delivery again, once, right away. Returns null when the delivery doesn't
+ * belong to the practice.
+ */
+export async function redeliverWebhook(
+  deliveryId: string,
+  practiceId: string
+): Promise<{ delivered: boolean; message: string } | null> {
+  const delivery = await db.outboundWebhookDelivery.findFirst({
+    where: { id: deliveryId, practice_id: practiceId },
+    include: { subscription: true },
+  });
+
+  if (!delivery) {
+    return null;
+  }
+
+  if (delivery.status !== "FAILED") {
+    return { delivered: false, message: "Only failed deliveries can be sent again" };
+  }
+
+  // A second click or a sweep running meanwhile must not send it again
+  if (!(await claimDelivery(delivery.id, { failed: true }))) {
+    return { delivered: false, message: "This delivery is already being sent" };
+  }
+
+  log.info("Redelivering outbound webhook", { delivery_id: delivery.id, event_type: delivery.event_type });
+  const result = await attemptDelivery(delivery);
+  if (result.delivered) {
+    return { delivered: true, message: "Delivered" };
+  }
+
+  await db.outboundWebhookDelivery.update({
+    where: { id: deliveryId },
+    data: { status: "FAILED", next_attempt_at: null },
+  });
+
+  const updated = await db.outboundWebhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    select: { last_error: true },
+  });
+  return { delivered: false, message: updated.last_error || "Delivery failed" };
+}
+
+/**
+ * Recent deliveries for the admin delivery log, newest first
+ */
+export async function listWebhookDeliveries(
+  practiceId: string,
+  options: { status?: string; limit?: number } = {}
+) {
+  return db.outboundWebhookDelivery.findMany({
+    where: {
+      practice_id: practiceId,
+      ...(options.status ? { status: options.status } : {}),
+    },
+    orderBy: { created_at: "desc" },
+    take: options.limit ?? 50,
+    select: {
+      id: true,
+      event_id: true,
+      event_type: true,
+      status: true,
+      attempts: true,
+      response_status: true,
+      last_error: true,
+      next_attempt_at: true,
+      delivered_at: true,
+      created_at: true,
+      subscription: { select: { id: true, url: true } },
+    },
+  });
+}
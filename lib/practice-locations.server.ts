@@ -0,0 +1,214 @@
+import type { Practice, PracticeLocation } from "@prisma/client";
+import db from "@/lib/prisma";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("practice-locations");
+
+/**
+ * Offices of a practice. Every office has its own NexHealth location, providers, operatories,
+ * timezone and optionally its own Vapi phone number; the primary office mirrors the location
+ * fields on Practice so practices set up before offices existed keep working unchanged.
+ */
+
+type PracticeLocationFields = Pick<
+  Practice,
+  | "id"
+  | "name"
+  | "nexhealth_location_id"
+  | "nexhealth_selected_provider_ids"
+  | "nexhealth_default_operatory_ids"
+  | "timezone"
+>;
+
+/**
+ * Create or update the primary office from the location fields on Practice
+ */
+export async function syncPrimaryLocation(practice: PracticeLocationFields): Promise<PracticeLocation | null> {
+  if (!practice.nexhealth_location_id) {
+    return null;
+  }
+
+  const locationData = {
+    nexhealth_selected_provider_ids: practice.nexhealth_selected_provider_ids,
+    nexhealth_default_operatory_ids: practice.nexhealth_default_operatory_ids,
+    timezone: practice.timezone,
+    is_primary: true,
+    is_active: true,
+  };
+
+  const primary = await db.practiceLocation.upsert({
+    where: {
+      practice_id_nexhealth_location_id: {
+        practice_id: practice.id,
+        nexhealth_location_id: practice.nexhealth_location_id,
+      },
+    },
+    update: locationData,
+    create: {
+      practice_id: practice.id,
+      nexhealth_location_id: practice.nexhealth_location_id,
+      name: practice.name || "Main office",
+      ...locationData,
+    },
+  });
+
+  // The primary location ID may have changed; only one office can be primary
+  await db.practiceLocation.updateMany({
+    where: { practice_id: practice.id, is_primary: true, id: { not: primary.id } },
+    data: { is_primary: false },
+  });
+
+  return primary;
+}
+
+/**
+ * Active offices of a practice, primary first. Practices without office records get their
+ * primary office created from the Practice fields on first use.
+ */
+export async function getPracticeLocations(practice: PracticeLocationFields): Promise<PracticeLocation[]> {
+  const locations = await db.practiceLocation.findMany({
+    where: { practice_id: practice.id, is_active: true },
+    orderBy: [{ is_primary: "desc" }, { created_at: "asc" }],
+  });
+
+  if (locations.length > 0 || !practice.nexhealth_location_id) {
+    return locations;
+  }
+
+  log.info("Creating primary office from practice settings", { practice_id: practice.id });
+  const primary = await syncPrimaryLocation(practice);
+  return primary ? [primary] : [];
+}
+
+/**
+ * The practice with its location fields replaced by those of one office, so scheduling code
+ * written against a single-location practice works for any office
+ */
+export function scopePracticeToLocation<T extends object>(practice: T, location: PracticeLocation) {
+  return {
+    ...practice,
+    location_id: location.id,
+    location_name: location.name,
+    nexhealth_location_id: location.nexhealth_location_id,
+    nexhealth_selected_provider_ids: location.nexhealth_selected_provider_ids,
+    nexhealth_default_operatory_ids: location.nexhealth_default_operatory_ids,
+    timezone: location.timezone,
+  };
+}
+
+/**
+ * The office a call is for: the one chosen or dialed earlier in the call, or the only office
+ */
+export function resolveCallLocation(
+  locations: PracticeLocation[],
+  sessionLocationId: string | null | undefined
+): PracticeLocation | null {
+  const chosen = sessionLocationId ? locations.find((location) => location.id === sessionLocationId) : undefined;
+  if (chosen) {
+    return chosen;
+  }
+  return locations.length === 1 ? locations[0] : null;
+}
+
+/**
+ * The office whose own Vapi phone number was dialed, if it has one
+ */
+export function findLocationByPhoneNumberId(
+  locations: PracticeLocation[],
+  phoneNumberId: string | null | undefined
+): PracticeLocation | null {
+  if (!phoneNumberId) {
+    return null;
+  }
+  return locations.find((location) => location.vapi_phone_number_id === phoneNumberId) || null;
+}
+
+/**
+ * The office with the given NexHealth location ID, e.g. the office an appointment is at
+ */
+export function findLocationByNexHealthId(
+  locations: PracticeLocation[],
+  nexhealthLocationId: string | number | null | undefined
+): PracticeLocation | null {
+  if (nexhealthLocationId === null || nexhealthLocationId === undefined) {
+    return null;
+  }
+  return locations.find((location) => location.nexhealth_location_id === nexhealthLocationId.toString()) || null;
+}
+
+function normalizeOfficeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\b(the|office|location|clinic|branch)\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Match the office a caller named ("the downtown one") against the practice's office names
+ */
+export function findLocationByName(locations: PracticeLocation[], spokenName: string): PracticeLocation | null {
+  const spoken = normalizeOfficeName(spokenName);
+  if (!spoken) {
+    return null;
+  }
+
+  const exact = locations.find((location) => normalizeOfficeName(location.name) === spoken);
+  if (exact) {
+    return exact;
+  }
+
+  // Accept a unique partial match either way round, e.g. "downtown" for "Downtown Dental"
+  const partial = locations.filter((location) => {
+    const name = normalizeOfficeName(location.name);
+    return name && (name.includes(spoken) || spoken.includes(name));
+  });
+  return partial.length === 1 ? partial[0] : null;
+}
+
+/**
+ * Office names joined for speech, e.g. "Downtown, Midtown or Uptown"
+ */
+export function formatSpokenOfficeList(locations: PracticeLocation[]): string {
+  const names = locations.map((location) => location.name);
+  return names.length > 1 ? `${names.slice(0, -1).join(", ")} or ${names[names.length - 1]}` : names.join("");
+}
+
+/**
+ * The practice a dialed Vapi phone number belongs to, whether it is an office's own number
+ * or the practice's main number
+ */
+export async function findPracticeByPhoneNumberId(phoneNumberId: string | null | undefined): Promise<Practice | null> {
+  if (!phoneNumberId) {
+    return null;
+  }
+
+  const location = await db.practiceLocation.findFirst({
+    where: { vapi_phone_number_id: phoneNumberId, is_active: true },
+    include: { practice: true },
+  });
+  if (location) {
+    return location.practice;
+  }
+
+  return db.practice.findFirst({ where: { vapi_phone_number_id: phoneNumberId } });
+}
+
+/**
+ * Whether a Vapi phone number ID is already another practice's, as its main number or an
+ * office's. Calls are routed by this ID, so one practice must never claim another's.
+ */
+export async function isPhoneNumberIdTakenByAnotherPractice(phoneNumberId: string, practiceId: string): Promise<boolean> {
+  const [practice, location] = await Promise.all([
+    db.practice.findFirst({
+      where: { vapi_phone_number_id: phoneNumberId, id: { not: practiceId } },
+      select: { id: true },
+    }),
+    db.practiceLocation.findFirst({
+      where: { vapi_phone_number_id: phoneNumberId, practice_id: { not: practiceId } },
+      select: { id: true },
+    }),
+  ]);
+  return !!practice || !!location;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { formatSpokenDateTime, getLocalTimeParts, getPracticeToday } from "@/lib/practice-time";
+
+// America/New_York springs forward at 2:00 AM on 2025-03-09 (EST, UTC-5 -> EDT, UTC-4)
+// and falls back at 2:00 AM on 2025-11-02 (EDT -> EST), so 1:00-2:00 AM happens twice
+const TIME_ZONE = "America/New_York";
+
+describe("getLocalTimeParts", () => {
+  it("skips from 1:59 AM to 3:00 AM on the spring-forward day", () => {
+    expect(getLocalTimeParts("2025-03-09T06:59:00Z", TIME_ZONE)).toEqual({
+      date: "2025-03-09",
+      weekday: "sunday",
+      minutesOfDay: 1 * 60 + 59,
+    });
+    expect(getLocalTimeParts("2025-03-09T07:00:00Z", TIME_ZONE)).toEqual({
+      date: "2025-03-09",
+      weekday: "sunday",
+      minutesOfDay: 3 * 60,
+    });
+  });
+
+  it("reads both 1:30 AMs on the fall-back day as the same local time", () => {
+    expect(getLocalTimeParts("2025-11-02T05:30:00Z", TIME_ZONE)).toEqual({
+      date: "2025-11-02",
+      weekday: "sunday",
+      minutesOfDay: 90,
+    });
+    expect(getLocalTimeParts("2025-11-02T06:30:00Z", TIME_ZONE)).toEqual({
+      date: "2025-11-02",
+      weekday: "sunday",
+      minutesOfDay: 90,
+    });
+  });
+
+  it("keeps late evening on the local day across the changeover", () => {
+    expect(getLocalTimeParts("2025-03-09T04:59:00Z", TIME_ZONE).date).toBe("2025-03-08");
+    expect(getLocalTimeParts("2025-11-03T04:30:00Z", TIME_ZONE)).toMatchObject({ date: "2025-11-02", minutesOfDay: 23 * 60 + 30 });
+  });
+});
+
+describe("formatSpokenDateTime", () => {
+  it("speaks the local time on the spring-forward day", () => {
+    expect(formatSpokenDateTime("2025-03-09T07:30:00Z", TIME_ZONE)).toBe("Sunday, March 9 at 3:30 AM");
+    expect(formatSpokenDateTime("2025-03-10T13:00:00Z", TIME_ZONE)).toBe("Monday, March 10 at 9:00 AM");
+  });
+
+  it("speaks the local time on the fall-back day", () => {
+    expect(formatSpokenDateTime("2025-11-02T06:30:00Z", TIME_ZONE)).toBe("Sunday, November 2 at 1:30 AM");
+    expect(formatSpokenDateTime("2025-11-03T14:00:00Z", TIME_ZONE)).toBe("Monday, November 3 at 9:00 AM");
+  });
+});
+
+describe("getPracticeToday", () => {
+  it("uses the practice's date, not UTC's, around the spring-forward day", () => {
+    expect(getPracticeToday(TIME_ZONE, new Date("2025-03-09T04:30:00Z"))).toBe("2025-03-08");
+    expect(getPracticeToday(TIME_ZONE, new Date("2025-03-10T03:30:00Z"))).toBe("2025-03-09");
+  });
+
+  it("uses the practice's date, not UTC's, around the fall-back day", () => {
+    expect(getPracticeToday(TIME_ZONE, new Date("2025-11-02T03:30:00Z"))).toBe("2025-11-01");
+    expect(getPracticeToday(TIME_ZONE, new Date("2025-11-03T04:30:00Z"))).toBe("2025-11-02");
+  });
+});
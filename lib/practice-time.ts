@@ -0,0 +1,101 @@
+/**
+ * Date and time helpers evaluated in a practice's own timezone rather than the server's
+ */
+
+export const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface LocalTimeParts {
+  date: string; // YYYY-MM-DD in the practice timezone
+  weekday: Weekday;
+  minutesOfDay: number; // Minutes since local midnight
+}
+
+/**
+ * Break an instant down into the calendar date, weekday and time of day seen in the practice timezone
+ */
+export function getLocalTimeParts(isoTime: string | Date, timeZone: string): LocalTimeParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    weekday: "long",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(isoTime));
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((part) => part.type === type)?.value || "";
+
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    weekday: get("weekday").toLowerCase() as Weekday,
+    minutesOfDay: parseInt(get("hour"), 10) * 60 + parseInt(get("minute"), 10),
+  };
+}
+
+/**
+ * Parse a spoken or 24-hour time of day ("15:30", "3pm", "3:30 PM", "9") into minutes since midnight
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.[0];
+
+  if (meridiem === "p" && hours < 12) hours += 12;
+  if (meridiem === "a" && hours === 12) hours = 0;
+
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+export const DEFAULT_PRACTICE_TIMEZONE = "America/New_York";
+
+/**
+ * Today's calendar date (YYYY-MM-DD) as seen in the practice timezone
+ */
+export function getPracticeToday(timeZone: string, now: Date = new Date()): string {
+  return getLocalTimeParts(now, timeZone).date;
+}
+
+/**
+ * Format an instant for speech in the practice timezone, e.g. "Tuesday, June 3 at 9:30 AM"
+ */
+export function formatSpokenDateTime(isoTime: string | Date, timeZone: string): string {
+  const date = new Date(isoTime);
+  const dateStr = date.toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    timeZone,
+  });
+  const timeStr = date.toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+    timeZone,
+  });
+  return `${dateStr} at ${timeStr}`;
+}
+
+/**
+ * Format a calendar date (YYYY-MM-DD) for speech, e.g. "Tuesday, June 3".
+ * The date is pinned to UTC noon so no timezone offset can shift it to a neighbouring day.
+ */
+export function formatSpokenDate(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
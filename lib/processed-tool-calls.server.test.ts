@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Prisma } from "@prisma/client";
+
+interface Row {
+  id: string;
+  tool_call_id: string;
+  vapi_call_id: string;
+  practice_id: string;
+  tool_name: string;
+  booking_fingerprint: string | null;
+  status: string;
+  result: string | null;
+  claimed_at: Date;
+}
+
+// Just enough of the ProcessedToolCall table for claimBooking, with its unique constraints
+const rows: Row[] = [];
+
+function uniqueViolation(): Prisma.PrismaClientKnownRequestError {
+  return new Prisma.PrismaClientKnownRequestError("Unique constraint failed", { code: "P2002", clientVersion: "test" });
+}
+
+vi.mock("@/lib/prisma", () => ({
+  default: {
+    processedToolCall: {
+      create: async ({ data }: { data: Omit<Row, "id" | "result" | "claimed_at"> }) => {
+        if (rows.some((row) => row.tool_call_id === data.tool_call_id || row.booking_fingerprint === data.booking_fingerprint)) {
+          throw uniqueViolation();
+        }
+        const row = { id: `row_${rows.length + 1}`, result: null, claimed_at: new Date(), ...data };
+        rows.push(row);
+        return row;
+      },
+      findUnique: async ({ where }: { where: Partial<Row> }) =>
+        rows.find((row) => Object.entries(where).every(([key, value]) => row[key as keyof Row] === value)) ?? null,
+      updateMany: async ({ where, data }: { where: { id: string; status: string; claimed_at: Date }; data: Partial<Row> }) => {
+        const matching = rows.filter((row) =>
+          row.id === where.id && row.status === where.status && row.claimed_at.getTime() === where.claimed_at.getTime()
+        );
+        matching.forEach((row) => Object.assign(row, data));
+        return { count: matching.length };
+      },
+    },
+  },
+}));
+
+const { BOOKING_CLAIM_TTL_MS, claimBooking, isStaleBookingClaim } = await import("@/lib/processed-tool-calls.server");
+
+const claim = (toolCallId: string) => claimBooking({
+  fingerprint: "fingerprint",
+  toolCallId,
+  vapiCallId: "call_1",
+  practiceId: "practice_1",
+  toolName: "schedule_appointment",
+});
+
+describe("claimBooking", () => {
+  beforeEach(() => {
+    rows.length = 0;
+  });
+
+  it("returns the holding attempt's row while its claim is fresh", async () => {
+    expect(await claim("tool_call_1")).toEqual({ claimed: true });
+
+    const second = await claim("tool_call_2");
+    expect(second.claimed).toBe(false);
+    expect(second.claimed ? null : second.existing.tool_call_id).toBe("tool_call_1");
+  });
+
+  it("takes over a claim left by an attempt that died", async () => {
+    await claim("tool_call_1");
+    rows[0].claimed_at = new Date(Date.now() - BOOKING_CLAIM_TTL_MS - 1000);
+
+    expect(await claim("tool_call_2")).toEqual({ claimed: true });
+    expect(rows).toHaveLength(1);
+    expect(rows[0].tool_call_id).toBe("tool_call_2");
+    expect(isStaleBookingClaim(rows[0])).toBe(false);
+  });
+
+  it("lets a redelivery of the same tool call take over its own stale claim", async () => {
+    await claim("tool_call_1");
+    rows[0].claimed_at = new Date(Date.now() - BOOKING_CLAIM_TTL_MS - 1000);
+
+    expect(await claim("tool_call_1")).toEqual({ claimed: true });
+  });
+
+  it("never takes over a completed booking", async () => {
+    await claim("tool_call_1");
+    Object.assign(rows[0], {
+      status: "COMPLETED",
+      result: "{}",
+      claimed_at: new Date(Date.now() - BOOKING_CLAIM_TTL_MS - 1000),
+    });
+
+    const second = await claim("tool_call_2");
+    expect(second.claimed).toBe(false);
+    expect(rows[0].tool_call_id).toBe("tool_call_1");
+  });
+});
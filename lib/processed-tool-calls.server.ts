@@ -0,0 +1,164 @@
+import crypto from "crypto";
+import { Prisma } from "@prisma/client";
+import db from "@/lib/prisma";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("processed-tool-calls");
+
+/**
+ * Idempotency for Vapi tool calls. Vapi retries webhooks and the LLM sometimes repeats
+ * a tool call, so executed results are stored by toolCall.id, and bookings are
+ * additionally claimed by a (call, patient, start_time) fingerprint.
+ */
+
+/**
+ * Get the stored result of a tool call that has already been executed
+ */
+export async function getProcessedToolCall(toolCallId: string) {
+  return db.processedToolCall.findUnique({
+    where: { tool_call_id: toolCallId },
+  });
+}
+
+/**
+ * Store the result of an executed tool call. A claimed booking row is only completed by the
+ * attempt holding the claim; otherwise an existing row is never overwritten, so a concurrent
+ * delivery of the same tool call cannot replace the first attempt's record.
+ */
+export async function recordProcessedToolCall(params: {
+  toolCallId: string;
+  vapiCallId: string;
+  practiceId: string;
+  toolName: string;
+  result: string;
+  bookingFingerprint?: string;
+}) {
+  try {
+    if (params.bookingFingerprint) {
+      const { count } = await db.processedToolCall.updateMany({
+        where: {
+          tool_call_id: params.toolCallId,
+          booking_fingerprint: params.bookingFingerprint,
+          status: "IN_PROGRESS",
+        },
+        data: {
+          status: "COMPLETED",
+          result: params.result,
+        },
+      });
+      if (count === 0) {
+        log.warn("Booking claim no longer held, result not recorded", { tool_call_id: params.toolCallId });
+      }
+      return;
+    }
+
+    await db.processedToolCall.createMany({
+      data: {
+        tool_call_id: params.toolCallId,
+        vapi_call_id: params.vapiCallId,
+        practice_id: params.practiceId,
+        tool_name: params.toolName,
+        status: "COMPLETED",
+        result: params.result,
+      },
+      skipDuplicates: true,
+    });
+  } catch (error) {
+    log.error("Failed to record processed tool call", error);
+  }
+}
+
+/**
+ * Fingerprint identifying one booking attempt within a call
+ */
+export function getBookingFingerprint(vapiCallId: string, patientId: string, startTime: string): string {
+  const normalizedStart = new Date(startTime).toISOString();
+  return crypto
+    .createHash("sha256")
+    .update(`${vapiCallId}:${patientId}:${normalizedStart}`)
+    .digest("hex");
+}
+
+// Vapi gives a tool call about 20 seconds, so a claim older than that was left by an attempt
+// that died between claiming and recording its result
+export const BOOKING_CLAIM_TTL_MS = 20000;
+
+/**
+ * Whether a row is a claim that no live attempt can still be holding
+ */
+export function isStaleBookingClaim(row: { status: string; claimed_at: Date }, now = new Date()): boolean {
+  return row.status === "IN_PROGRESS" && now.getTime() - row.claimed_at.getTime() > BOOKING_CLAIM_TTL_MS;
+}
+
+/**
+ * Claim a booking fingerprint before calling NexHealth. If another tool call already
+ * holds it, that call's record is returned instead, unless its claim is stale, in which
+ * case this attempt takes it over.
+ */
+export async function claimBooking(params: {
+  fingerprint: string;
+  toolCallId: string;
+  vapiCallId: string;
+  practiceId: string;
+  toolName: string;
+}) {
+  try {
+    await db.processedToolCall.create({
+      data: {
+        tool_call_id: params.toolCallId,
+        vapi_call_id: params.vapiCallId,
+        practice_id: params.practiceId,
+        tool_name: params.toolName,
+        booking_fingerprint: params.fingerprint,
+        status: "IN_PROGRESS",
+      },
+    });
+    return { claimed: true as const };
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      // The fingerprint is taken, or this tool call's own earlier delivery left a claim
+      const existing =
+        (await db.processedToolCall.findUnique({ where: { booking_fingerprint: params.fingerprint } })) ??
+        (await db.processedToolCall.findUnique({ where: { tool_call_id: params.toolCallId } }));
+      if (existing && isStaleBookingClaim(existing)) {
+        // Matching on claimed_at lets only one of several concurrent attempts take it over
+        const { count } = await db.processedToolCall.updateMany({
+          where: { id: existing.id, status: "IN_PROGRESS", claimed_at: existing.claimed_at },
+          data: {
+            tool_call_id: params.toolCallId,
+            tool_name: params.toolName,
+            booking_fingerprint: params.fingerprint,
+            claimed_at: new Date(),
+          },
+        });
+        if (count === 1) {
+          log.warn("Took over a stale booking claim", {
+            previous_tool_call_id: existing.tool_call_id,
+            tool_call_id: params.toolCallId,
+          });
+          return { claimed: true as const };
+        }
+        const current = await db.processedToolCall.findUnique({ where: { id: existing.id } });
+        if (current) {
+          return { claimed: false as const, existing: current };
+        }
+      } else if (existing) {
+        return { claimed: false as const, existing };
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Release a booking claim after a failed attempt so the booking can be tried again
+ */
+export async function releaseBookingClaim(fingerprint: string) {
+  try {
+    await db.processedToolCall.deleteMany({
+      where: { booking_fingerprint: fingerprint, status: "IN_PROGRESS" },
+    });
+  } catch (error) {
+    log.error("Failed to release booking claim", error);
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Matches a caller's description of their visit ("I need my teeth cleaned") against a
+ * practice's service mappings, tolerating word forms, typos and synonyms.
+ */
+
+export interface MatchableServiceMapping {
+  spoken_service_name: string;
+  nexhealth_appointment_type_id: string;
+  default_duration_minutes: number | null;
+  synonyms: string[];
+}
+
+export interface ServiceMatchCandidate {
+  appointment_type_id: string;
+  spoken_service_name: string; // Mapping that matched best for this appointment type
+  matched_phrase: string; // The mapping name or synonym that produced the score
+  default_duration_minutes: number | null;
+  confidence: number; // 0-1
+}
+
+export interface ServiceMatchResult {
+  best: ServiceMatchCandidate | null;
+  candidates: ServiceMatchCandidate[];
+  needs_clarification: boolean;
+}
+
+// Below this the phrase is treated as not matching anything
+export const MIN_MATCH_CONFIDENCE = 0.5;
+// Top two appointment types closer than this are too close to pick between
+export const CLARIFICATION_MARGIN = 0.1;
+const MAX_CANDIDATES = 5;
+
+// Filler words callers wrap around the service itself
+const STOPWORDS = new Set([
+  "a", "an", "the", "i", "im", "id", "me", "my", "to", "for", "in", "of", "on", "and", "with",
+  "need", "needs", "want", "like", "would", "get", "have", "come", "book", "schedule",
+  "some", "just", "please", "can", "could", "do", "is", "it",
+  "appointment", "appt", "visit", "dental", "dentist", "teeth", "tooth",
+]);
+
+// Equivalent terms shared by every practice; per-practice synonyms live on ServiceMapping
+const BUILT_IN_SYNONYM_GROUPS: string[][] = [
+  ["clean", "cleaning", "prophy", "prophylaxis", "hygiene", "hygienist"],
+  ["checkup", "exam", "examination", "recall", "routine"],
+  ["consultation", "consult", "initial"],
+  ["emergency", "urgent", "pain", "toothache", "ache", "hurts", "broken", "chipped"],
+];
+
+/**
+ * Lowercase, drop punctuation and split hyphenated words ("check-up" -> "check up")
+ */
+function normalizePhrase(phrase: string): string {
+  return phrase
+    .toLowerCase()
+    .replace(/[-_/]/g, " ")
+    .replace(/[^a-z0-9\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Light suffix stripping so "cleaning", "cleaned" and "cleans" compare equal
+ */
+function stem(word: string): string {
+  for (const suffix of ["ations", "ation", "ings", "ing", "ies", "es", "ed", "s"]) {
+    if (word.length - suffix.length >= 3 && word.endsWith(suffix)) {
+      const base = word.slice(0, -suffix.length);
+      return suffix === "ies" ? `${base}y` : base;
+    }
+  }
+  return word;
+}
+
+interface Token {
+  word: string;
+  stem: string;
+}
+
+/**
+ * Tokenize into words and stems, joining "check up" into "checkup" and dropping filler words
+ */
+function tokenize(phrase: string): Token[] {
+  const normalized = normalizePhrase(phrase).replace(/\bcheck ups?\b/g, "checkup");
+  return normalized
+    .split(" ")
+    .filter((word) => word && !STOPWORDS.has(word))
+    .map((word) => ({ word, stem: stem(word) }));
+}
+
+const SYNONYM_GROUP_BY_STEM = new Map<string, number>();
+BUILT_IN_SYNONYM_GROUPS.forEach((group, index) => {
+  for (const word of group) {
+    SYNONYM_GROUP_BY_STEM.set(stem(word), index);
+  }
+});
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two tokens: 1 for the same stem, slightly less for built-in synonyms,
+ * and less again for near-misspellings
+ */
+function tokenSimilarity(a: Token, b: Token): number {
+  if (a.stem === b.stem) return 1;
+
+  const groupA = SYNONYM_GROUP_BY_STEM.get(a.stem);
+  if (groupA !== undefined && groupA === SYNONYM_GROUP_BY_STEM.get(b.stem)) return 0.95;
+
+  // Compare the unstemmed words, since stemming a misspelling gives unpredictable results.
+  // Only tolerate typos in words long enough for an edit to be a typo rather than a different word.
+  const maxLength = Math.max(a.word.length, b.word.length);
+  if (maxLength < 4) return 0;
+  const similarity = 1 - levenshtein(a.word, b.word) / maxLength;
+  return similarity >= 0.75 ? similarity * 0.9 : 0;
+}
+
+/**
+ * Score how well the caller's tokens cover a service phrase. Missing words from the service
+ * phrase weigh more than extra words from the caller, who usually says more than the name.
+ */
+function scorePhrase(callerTokens: Token[], callerCompact: string, servicePhrase: string): number {
+  const serviceTokens = tokenize(servicePhrase);
+  if (serviceTokens.length === 0 || callerTokens.length === 0) return 0;
+
+  if (callerCompact === serviceTokens.map((token) => token.stem).join("")) return 1;
+
+  const best = (token: Token, against: Token[]) =>
+    Math.max(0, ...against.map((other) => tokenSimilarity(token, other)));
+
+  const serviceCoverage = serviceTokens.reduce((sum, token) => sum + best(token, callerTokens), 0) / serviceTokens.length;
+  const callerCoverage = callerTokens.reduce((sum, token) => sum + best(token, serviceTokens), 0) / callerTokens.length;
+
+  return 0.7 * serviceCoverage + 0.3 * callerCoverage;
+}
+
+/**
+ * Rank a practice's service mappings against what the caller said. Mappings that point at the
+ * same appointment type are merged, so a practice with "cleaning" and "prophy" both mapped to
+ * one type never has to ask the caller to choose between them.
+ */
+export function matchService(callerPhrase: string, mappings: MatchableServiceMapping[]): ServiceMatchResult {
+  const callerTokens = tokenize(callerPhrase);
+  const callerCompact = callerTokens.map((token) => token.stem).join("");
+
+  const byAppointmentType = new Map<string, ServiceMatchCandidate>();
+
+  for (const mapping of mappings) {
+    for (const phrase of [mapping.spoken_service_name, ...mapping.synonyms]) {
+      const confidence = normalizePhrase(phrase) === normalizePhrase(callerPhrase)
+        ? 1
+        : scorePhrase(callerTokens, callerCompact, phrase);
+
+      const current = byAppointmentType.get(mapping.nexhealth_appointment_type_id);
+      if (!current || confidence > current.confidence) {
+        byAppointmentType.set(mapping.nexhealth_appointment_type_id, {
+          appointment_type_id: mapping.nexhealth_appointment_type_id,
+          spoken_service_name: mapping.spoken_service_name,
+          matched_phrase: phrase,
+          default_duration_minutes: mapping.default_duration_minutes,
+          confidence: Math.round(confidence * 100) / 100,
+        });
+      }
+    }
+  }
+
+  const candidates = Array.from(byAppointmentType.values())
+    .filter((candidate) => candidate.confidence > 0)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_CANDIDATES);
+
+  const [first, second] = candidates;
+  if (!first || first.confidence < MIN_MATCH_CONFIDENCE) {
+    return { best: null, candidates, needs_clarification: false };
+  }
+
+  const needsClarification = !!second &&
+    second.confidence >= MIN_MATCH_CONFIDENCE &&
+    first.confidence < 1 &&
+    first.confidence - second.confidence < CLARIFICATION_MARGIN;
+
+  return { best: first, candidates, needs_clarification: needsClarification };
+}
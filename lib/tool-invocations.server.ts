@@ -0,0 +1,73 @@
+import type { Prisma } from "@prisma/client";
+import db from "@/lib/prisma";
+import { createLogger, redactValue } from "@/lib/logger.server";
+
+const log = createLogger("tool-invocations");
+
+/**
+ * Audit trail of the tools the assistant runs on each call, shown as a timeline
+ * in the call-log detail view.
+ */
+
+/**
+ * Copy tool arguments with patient identifiers, free-text reasons and notes masked. Uses the
+ * logger's redaction so stored arguments and log output follow the same rules.
+ */
+export function sanitizeToolArguments(args: unknown): Record<string, unknown> | null {
+  if (!args || typeof args !== "object" || Array.isArray(args)) {
+    return null;
+  }
+
+  return redactValue(args) as Record<string, unknown>;
+}
+
+/**
+ * Read the success flag and error code out of a tool's serialized result
+ */
+function getToolOutcome(result: any): { success: boolean | null; error_code: string | null } {
+  if (result?.error) {
+    return { success: false, error_code: "TOOL_EXECUTION_ERROR" };
+  }
+
+  try {
+    const parsed = JSON.parse(result?.result);
+    return {
+      success: typeof parsed?.success === "boolean" ? parsed.success : null,
+      error_code: parsed?.error_code || null,
+    };
+  } catch {
+    return { success: null, error_code: null };
+  }
+}
+
+/**
+ * Record one executed tool call. Failures are logged and never fail the tool call itself.
+ */
+export async function recordToolInvocation(params: {
+  vapiCallId: string;
+  toolCallId?: string;
+  toolName: string;
+  args: unknown;
+  result: any;
+  nexhealthRequestCount: number;
+  durationMs: number;
+}) {
+  const outcome = getToolOutcome(params.result);
+
+  try {
+    await db.toolInvocation.create({
+      data: {
+        vapi_call_id: params.vapiCallId,
+        tool_call_id: params.toolCallId || null,
+        tool_name: params.toolName,
+        arguments: (sanitizeToolArguments(params.args) ?? undefined) as Prisma.InputJsonValue | undefined,
+        success: outcome.success,
+        error_code: outcome.error_code,
+        nexhealth_request_count: params.nexhealthRequestCount,
+        duration_ms: Math.round(params.durationMs),
+      },
+    });
+  } catch (error) {
+    log.error("Failed to record tool invocation", error);
+  }
+}
@@ -0,0 +1,181 @@
+import type { Practice, PracticeLocation } from "@prisma/client";
+import db from "@/lib/prisma";
+import { buildAssistantPayload } from "@/lib/vapi.server";
+import { getOrCreatePracticeWebhookSecret } from "@/lib/vapi-webhook-secrets.server";
+import { getCallSession, getCallerCandidates } from "@/lib/call-session.server";
+import { findLocationByPhoneNumberId } from "@/lib/practice-locations.server";
+import { describeDayHours, describeWeeklyHours, parseOfficeHours } from "@/lib/office-hours";
+import {
+  DEFAULT_PRACTICE_TIMEZONE,
+  formatSpokenDate,
+  formatSpokenDateTime,
+  getLocalTimeParts
+} from "@/lib/practice-time";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("vapi-assistant-request");
+
+/**
+ * Answers Vapi's assistant-request: when a practice's phone number has no fixed assistant,
+ * Vapi asks for one as each call comes in. The assistant is the practice's usual one plus
+ * what is only known at call time: the date in the practice timezone, today's office hours
+ * and closures for the dialed office, and what we know about the caller.
+ */
+
+// How far ahead upcoming closures are mentioned to the assistant
+const CLOSURE_LOOKAHEAD_DAYS = 14;
+
+type OfficeClosureRecord = { location_id: string | null; date: string; name: string };
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+/**
+ * Today's hours, the weekly hours and upcoming closures of one office
+ */
+function describeOffice(
+  office: PracticeLocation | null,
+  closures: OfficeClosureRecord[],
+  timeZone: string,
+  now: Date
+): string[] {
+  const { date: today, weekday } = getLocalTimeParts(now, timeZone);
+  const officeClosures = closures.filter(
+    (closure) => closure.date >= today && (!closure.location_id || closure.location_id === office?.id)
+  );
+  const closedToday = officeClosures.find((closure) => closure.date === today);
+  const hours = parseOfficeHours(office?.office_hours);
+
+  const lines: string[] = [];
+  if (closedToday) {
+    lines.push(`- Closed today for ${closedToday.name}`);
+  } else if (hours) {
+    lines.push(`- Today: ${describeDayHours(hours, weekday)}`);
+  }
+
+  if (hours) {
+    lines.push(...describeWeeklyHours(hours).map((line) => `- ${line}`));
+  } else {
+    lines.push("- Office hours aren't set up; offer to have someone from the office call back with them");
+  }
+
+  const upcoming = officeClosures.filter((closure) => closure.date !== today);
+  if (upcoming.length > 0) {
+    lines.push(
+      `- Closed on: ${upcoming.map((closure) => `${formatSpokenDate(closure.date)} (${closure.name})`).join(", ")}`
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * What we already know about the caller before they say anything. Names are left out;
+ * lookup_caller verifies who is calling before anything personal is shared.
+ */
+async function describeCaller(
+  practice: Practice,
+  vapiCallId: string,
+  callerNumber: string | undefined
+): Promise<{ lines: string[]; isReturningCaller: boolean }> {
+  if (!callerNumber) {
+    return { lines: ["- The caller's number is withheld, so ask who is calling"], isReturningCaller: false };
+  }
+
+  const candidates = getCallerCandidates(await getCallSession(vapiCallId));
+  const previousCall = await db.callLog.findFirst({
+    where: { practice_id: practice.id, patient_phone_number: callerNumber, vapi_call_id: { not: vapiCallId } },
+    orderBy: { call_timestamp_start: "desc" },
+    select: { call_timestamp_start: true },
+  });
+
+  const lines: string[] = [];
+  if (candidates.length === 1) {
+    lines.push("- The caller's number matches a patient on file; use lookup_caller to confirm who they are");
+  } else if (candidates.length > 1) {
+    lines.push(`- The caller's number is shared by ${candidates.length} patients on file; ask which of them is calling`);
+  } else {
+    lines.push("- The caller's number doesn't match any patient on file; they may be a new patient");
+  }
+
+  if (previousCall) {
+    const timeZone = practice.timezone || DEFAULT_PRACTICE_TIMEZONE;
+    lines.push(`- They last called on ${formatSpokenDateTime(previousCall.call_timestamp_start, timeZone)}`);
+  }
+
+  return { lines, isReturningCaller: candidates.length > 0 || !!previousCall };
+}
+
+/**
+ * Assemble the assistant for one incoming call
+ */
+export async function buildCallTimeAssistant(
+  practice: Practice,
+  locations: PracticeLocation[],
+  message: any,
+  vapiCallId: string
+) {
+  const dialedOffice = findLocationByPhoneNumberId(locations, message?.phoneNumber?.id || message?.call?.phoneNumberId);
+  // Callers on a shared number may want any office, so the assistant hears about all of them
+  const offices = dialedOffice ? [dialedOffice] : locations;
+  const timeZone = offices[0]?.timezone || practice.timezone || DEFAULT_PRACTICE_TIMEZONE;
+  const now = new Date();
+  const today = getLocalTimeParts(now, timeZone).date;
+
+  const closures = await db.officeClosure.findMany({
+    where: {
+      practice_id: practice.id,
+      // Offices in other timezones may still be on yesterday
+      date: { gte: addDays(today, -1), lte: addDays(today, CLOSURE_LOOKAHEAD_DAYS) },
+    },
+    orderBy: { date: "asc" },
+    select: { location_id: true, date: true, name: true },
+  });
+
+  const sections = [
+    "## TODAY",
+    `- It is ${formatSpokenDateTime(now, timeZone)} at the practice (${timeZone}). Use this for "today", "tomorrow" and similar.`,
+    "- If the caller asks for a day the office is closed, say so and offer another day",
+    "",
+    "## OFFICE HOURS",
+  ];
+
+  if (offices.length > 1) {
+    for (const office of offices) {
+      sections.push(`### ${office.name}`, ...describeOffice(office, closures, office.timezone || timeZone, now));
+    }
+  } else {
+    sections.push(...describeOffice(offices[0] || null, closures, timeZone, now));
+  }
+
+  const callerNumber: string | undefined =
+    message?.call?.customerPhoneNumber || message?.call?.customer?.number || message?.customer?.number;
+  const caller = await describeCaller(practice, vapiCallId, callerNumber);
+  sections.push("", "## CALLER", ...caller.lines);
+
+  const practiceName = dialedOffice && locations.length > 1
+    ? `${practice.name || "our dental practice"} ${dialedOffice.name}`
+    : practice.name || "our dental practice";
+  // A practice's own greeting always wins
+  const firstMessage = caller.isReturningCaller && !practice.vapi_first_message
+    ? `Thank you for calling ${practiceName}, and welcome back. This is Laine, your AI receptionist. How can I help you today?`
+    : undefined;
+
+  const webhookSecret = await getOrCreatePracticeWebhookSecret(practice.id);
+
+  log.info("Assembled call-time assistant", {
+    practice_id: practice.id,
+    location_id: dialedOffice?.id,
+    office_count: offices.length,
+    closure_count: closures.length,
+    returning_caller: caller.isReturningCaller,
+  });
+
+  return buildAssistantPayload(practice, webhookSecret, {
+    promptContext: sections.join("\n"),
+    firstMessage,
+  });
+}
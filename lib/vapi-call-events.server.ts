@@ -0,0 +1,138 @@
+import db from "@/lib/prisma";
+import type { WebhookProcessingResult } from "@/lib/webhook-inbox.server";
+import { emitPracticeEvent } from "@/lib/outbound-webhooks.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("vapi-call-events");
+
+/**
+ * Records Vapi call lifecycle events (status updates, final transcripts and the end-of-call
+ * report) on the call's CallLog. Tool calls are answered by the tool handler route itself.
+ */
+
+type PracticeRef = { id: string };
+
+/**
+ * Identity of an event for de-duplication, for the message types Vapi sends once per change
+ */
+export function getVapiEventId(message: any): string | null {
+  const vapiCallId = message?.call?.id;
+  if (!vapiCallId) {
+    return null;
+  }
+
+  switch (message.type) {
+    case "tool-calls": {
+      const toolCallIds = (message.toolCallList || []).map((toolCall: any) => toolCall.id).filter(Boolean);
+      return toolCallIds.length > 0 ? `${vapiCallId}:tool-calls:${toolCallIds.join(",")}` : null;
+    }
+    case "status-update":
+      return `${vapiCallId}:status-update:${message.status}`;
+    case "end-of-call-report":
+      return `${vapiCallId}:end-of-call-report`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Apply one call event to the practice's call log. Database errors are thrown so the caller
+ * can record the event as failed.
+ */
+export async function processVapiCallEvent(message: any, practice: PracticeRef): Promise<WebhookProcessingResult> {
+  const vapiCallId = message?.call?.id;
+  if (!vapiCallId) {
+    return { status: "error", message: "Missing call ID" };
+  }
+
+  if (message.type === "status-update") {
+    // Update call status
+    log.info("Handling status-update", { status: message?.status });
+
+    const statusUpdateData = {
+      vapi_call_id: vapiCallId,
+      practice_id: practice.id,
+      call_timestamp_start: message?.call?.startedAt ? new Date(message.call.startedAt) : new Date(),
+      call_status: message?.status || "INITIATED",
+      patient_phone_number: message?.call?.customerPhoneNumber || null,
+    };
+
+    const upsertResult = await db.callLog.upsert({
+      where: { vapi_call_id: vapiCallId },
+      update: {
+        call_status: message?.status || "UNKNOWN",
+      },
+      create: statusUpdateData,
+    });
+    log.debug("✅ Status-update log upserted", { call_log_id: upsertResult.id });
+    return { status: "processed", message: `Call status ${message?.status || "UNKNOWN"}` };
+
+  } else if (message.type === "transcript" && message.transcriptType === "final") {
+    // Update transcript incrementally
+    log.debug("Handling transcript", { transcript: message?.transcript, transcript_type: message?.transcriptType });
+
+    const transcriptUpdateData = {
+      vapi_call_id: vapiCallId,
+      practice_id: practice.id,
+      call_timestamp_start: message?.call?.startedAt ? new Date(message.call.startedAt) : new Date(),
+      call_status: "IN_PROGRESS",
+      transcript_text: message?.transcript || null,
+      patient_phone_number: message?.call?.customerPhoneNumber || null,
+    };
+
+    const upsertResult = await db.callLog.upsert({
+      where: { vapi_call_id: vapiCallId },
+      update: {
+        transcript_text: message?.transcript || null,
+      },
+      create: transcriptUpdateData,
+    });
+    log.debug("✅ Transcript log upserted", { call_log_id: upsertResult.id });
+    return { status: "processed", message: "Transcript recorded" };
+
+  } else if (message.type === "end-of-call-report") {
+    // Final call summary and cleanup
+    log.info("Handling end-of-call-report", { ended_reason: message?.endedReason });
+
+    const endOfCallData = {
+      vapi_call_id: vapiCallId,
+      practice_id: practice.id,
+      call_timestamp_start: message?.call?.startedAt ? new Date(message.call.startedAt) : new Date(),
+      call_timestamp_end: message.call?.endedAt ? new Date(message.call.endedAt) : new Date(),
+      call_status: "ENDED",
+      transcript_text: message.artifact?.transcript || null,
+      summary: message.analysis?.summary || null,
+      vapi_transcript_url: message.artifact?.recording?.stereoUrl || message.artifact?.recordingUrl || null,
+      patient_phone_number: message.call?.customerPhoneNumber || null,
+    };
+
+    const upsertResult = await db.callLog.upsert({
+      where: { vapi_call_id: vapiCallId },
+      update: {
+        call_status: "ENDED",
+        call_timestamp_end: message.call?.endedAt ? new Date(message.call.endedAt) : new Date(),
+        transcript_text: message.artifact?.transcript || null,
+        summary: message.analysis?.summary || null,
+        vapi_transcript_url: message.artifact?.recording?.stereoUrl || message.artifact?.recordingUrl || null,
+      },
+      create: endOfCallData,
+    });
+    log.info("✅ Call ended and logged", { call_log_id: upsertResult.id });
+
+    await emitPracticeEvent(practice.id, "call.ended", {
+      vapi_call_id: vapiCallId,
+      caller_number: upsertResult.patient_phone_number,
+      started_at: upsertResult.call_timestamp_start.toISOString(),
+      ended_at: upsertResult.call_timestamp_end?.toISOString() || null,
+      ended_reason: message?.endedReason || null,
+      detected_intent: upsertResult.detected_intent,
+      booked_appointment_id: upsertResult.booked_appointment_nexhealth_id,
+      summary: upsertResult.summary,
+      recording_url: upsertResult.vapi_transcript_url,
+    });
+    return { status: "processed", message: "Call ended and logged" };
+  }
+
+  log.info("Unhandled message type", { message_type: message?.type });
+  return { status: "ignored", message: `Unhandled message type ${message?.type}` };
+}
@@ -0,0 +1,194 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+/**
+ * Registry of the tools LAINE exposes to Vapi. Each tool declares its description and a zod
+ * argument schema once: the JSON schema sent to Vapi is generated from it, and the tool
+ * handler validates incoming arguments against it before running the tool.
+ */
+
+export interface VapiTool {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: {
+      type: "object";
+      properties: Record<string, any>;
+      required: string[];
+    };
+  };
+}
+
+// LLMs sometimes send null or "" for arguments they mean to leave out
+const blankToUndefined = (value: unknown) => (value === null || value === "" ? undefined : value);
+
+// IDs and phone numbers arrive as numbers as often as strings; always hand handlers a string
+const numberToString = (value: unknown) => (typeof value === "number" ? String(value) : value);
+
+const id = (description: string) => z.preprocess(numberToString, z.string().min(1)).describe(description);
+
+const optional = <T extends z.ZodTypeAny>(schema: T) => z.preprocess(blankToUndefined, schema.optional());
+
+const lowercaseEnum = <T extends [string, ...string[]]>(values: T, description: string) =>
+  z.preprocess(
+    (value) => (typeof value === "string" ? value.trim().toLowerCase() : value),
+    z.enum(values)
+  ).describe(description);
+
+const SEARCH_TYPE = ["specific_date", "next_available"] as const;
+
+export const VAPI_TOOL_DEFINITIONS = {
+  lookup_caller: {
+    description: "Checks whether the caller's phone number matches a patient on file. Call once without arguments at the start of the call; if verification_required is returned, ask for the date of birth and call again with it.",
+    parameters: z.object({
+      date_of_birth: optional(z.string().describe("Caller's date of birth in YYYY-MM-DD format, for verification")),
+      first_name: optional(z.string().describe("Caller's first name, for verification when date of birth isn't available")),
+      last_name: optional(z.string().describe("Caller's last name, for verification when date of birth isn't available")),
+    }),
+  },
+  select_location: {
+    description: "Records which of the practice's offices the caller wants to visit. Call this when another tool returns LOCATION_REQUIRED, or whenever the caller names an office, before checking availability or booking.",
+    parameters: z.object({
+      office_name: z.string().min(1).describe("The office the caller asked for, in their words (e.g. 'downtown', 'the Main Street office')"),
+    }),
+  },
+  identify_patient: {
+    description: "Identify an existing patient or register a new patient in the practice management system. Call this after getting the patient's name, phone number, and determining if they are new or existing.",
+    parameters: z.object({
+      first_name: z.string().min(1).describe("Patient's first name"),
+      last_name: z.string().min(1).describe("Patient's last name"),
+      phone_number: z.preprocess(numberToString, z.string().min(1)).describe("Patient's phone number (10 digits, no formatting)"),
+      date_of_birth: optional(z.string().describe("Patient's date of birth in YYYY-MM-DD format (optional)")),
+      email: optional(z.string().describe("Patient's email address (optional)")),
+      gender: optional(z.string().describe("Patient's gender: Male, Female, or Other (optional)")),
+    }),
+  },
+  check_appointment_type: {
+    description: "Determines the appropriate appointment type based on the patient's stated reason for their visit. Use this after asking the patient why they need an appointment.",
+    parameters: z.object({
+      patient_reason_for_visit: z.string().min(1).describe("The patient's verbatim description of why they need an appointment (e.g., 'cleaning', 'check-up', 'toothache', 'consultation')"),
+    }),
+  },
+  check_availability: {
+    description: "Find available appointment slots for a specific appointment type. Use this after confirming the appointment type and patient preferences.",
+    parameters: z.object({
+      appointment_type_id: optional(id("The appointment type ID from check_appointment_type tool result (optional, remembered for this call)")),
+      duration_minutes: optional(z.coerce.number().int().positive().describe("Duration in minutes from check_appointment_type tool result")),
+      requested_date: optional(z.string().describe("Preferred date or date range in the patient's own words, e.g. 'next Tuesday', 'the week after Thanksgiving', 'between June 3 and June 10', or YYYY-MM-DD (optional, defaults to today). Resolved in the practice timezone; read back interpreted_date from the result.")),
+      search_type: optional(lowercaseEnum([...SEARCH_TYPE], "Whether to search for a specific date or find next available slots")),
+      part_of_day: optional(lowercaseEnum(["morning", "afternoon", "evening"], "Preferred part of the day, if the patient mentioned one (optional)")),
+      earliest_time: optional(z.string().describe("Earliest acceptable start time in HH:MM 24-hour format, e.g. '15:00' for 'after 3' (optional)")),
+      latest_time: optional(z.string().describe("Latest acceptable start time in HH:MM 24-hour format (optional)")),
+      weekdays: optional(z.preprocess(
+        (value) => (typeof value === "string" ? value.split(",") : value),
+        z.array(z.string())
+      ).describe("Days of the week the patient can come in, e.g. ['thursday'] (optional)")),
+      preferred_provider: optional(z.string().describe("Name of the dentist or hygienist the patient prefers (optional)")),
+    }),
+  },
+  schedule_appointment: {
+    description: "Book an appointment slot for a patient. Use this after the patient selects a specific time from available slots. Passing slot_number is enough; the patient, appointment type and slot details from earlier tools on this call are filled in automatically.",
+    parameters: z.object({
+      slot_number: optional(z.coerce.number().int().positive().describe("The slot_number of the time the patient chose from the last check_availability result")),
+      patient_id: optional(id("Patient ID from identify_patient tool result (optional, must be the patient identified on this call)")),
+      appointment_type_id: optional(id("Appointment type ID from check_appointment_type tool result (optional, remembered for this call)")),
+      start_time: optional(z.string().describe("Appointment start time in ISO format (optional if slot_number provided)")),
+      end_time: optional(z.string().describe("Appointment end time in ISO format (optional if slot_number provided)")),
+      provider_id: optional(id("Provider ID (optional if slot_number provided)")),
+      operatory_id: optional(id("Operatory ID from selected slot (optional)")),
+      note: optional(z.string().describe("Additional notes about the appointment (optional)")),
+    }),
+  },
+  get_patient_appointments: {
+    description: "Retrieves the caller's upcoming appointments: those of the patient identified on this call, otherwise of the patient matching the number they are calling from. Use identify_patient first to look up anyone else.",
+    parameters: z.object({
+      patient_id: optional(id("NexHealth patient ID (optional, must be the patient identified on this call)")),
+    }),
+  },
+  cancel_appointment: {
+    description: "Cancels an existing appointment for the identified patient. Use an appointment_id from get_patient_appointments and confirm with the patient before calling.",
+    parameters: z.object({
+      appointment_id: id("NexHealth appointment ID to cancel, from get_patient_appointments"),
+      patient_id: optional(id("Patient ID from identify_patient or get_patient_appointments (optional if already identified on this call)")),
+      cancellation_reason: optional(z.string().describe("Reason for cancellation (optional)")),
+    }),
+  },
+  reschedule_appointment: {
+    description: "Moves an existing appointment to a new time with the same appointment type. Call first without new_start_time to get available slots, then again with the slot the patient picked. The original appointment is only cancelled once the new one is booked.",
+    parameters: z.object({
+      appointment_id: id("NexHealth appointment ID to move, from get_patient_appointments"),
+      patient_id: optional(id("Patient ID (optional if already identified on this call)")),
+      requested_date: optional(z.string().describe("Preferred new date or date range in the patient's own words, e.g. 'next Tuesday' or 'the week of June 3', or YYYY-MM-DD (optional, defaults to today). Resolved in the practice timezone; read back interpreted_date from the result.")),
+      search_type: optional(lowercaseEnum([...SEARCH_TYPE], "Whether to search a specific date or the next available slots")),
+      new_start_time: optional(z.string().describe("Start time in ISO format of the slot the patient selected (omit to list available slots)")),
+      provider_id: optional(id("Provider ID of the selected slot (optional)")),
+    }),
+  },
+} satisfies Record<string, { description: string; parameters: z.AnyZodObject }>;
+
+export type VapiToolName = keyof typeof VAPI_TOOL_DEFINITIONS;
+
+export type VapiToolArgs<N extends VapiToolName> = z.infer<(typeof VAPI_TOOL_DEFINITIONS)[N]["parameters"]>;
+
+// Tool names used by assistants provisioned before the current names; not advertised to Vapi
+const LEGACY_TOOL_NAMES: Record<string, VapiToolName> = {
+  identifyOrRegisterPatient: "identify_patient",
+  findAppointmentSlots: "check_availability",
+  bookAppointment: "schedule_appointment",
+};
+
+/**
+ * Build the tool list for the Vapi assistant from the registry
+ */
+export function buildVapiTools(): VapiTool[] {
+  return Object.entries(VAPI_TOOL_DEFINITIONS).map(([name, definition]) => {
+    const { properties = {}, required = [] } = zodToJsonSchema(definition.parameters, {
+      target: "openApi3",
+      $refStrategy: "none",
+    }) as { properties?: Record<string, any>; required?: string[] };
+
+    return {
+      type: "function" as const,
+      function: {
+        name,
+        description: definition.description,
+        parameters: { type: "object" as const, properties, required },
+      },
+    };
+  });
+}
+
+export type ParsedToolArguments =
+  | { success: true; toolName: VapiToolName; args: VapiToolArgs<VapiToolName> }
+  | { success: false; error_code: "UNKNOWN_TOOL" | "INVALID_ARGUMENTS"; issues: { field: string; message: string }[] };
+
+/**
+ * Resolve a tool name (including legacy names) and validate its arguments against the registry
+ */
+export function parseToolArguments(name: string, rawArguments: unknown): ParsedToolArguments {
+  const legacyName = LEGACY_TOOL_NAMES[name];
+  const toolName = (legacyName || name) as VapiToolName;
+  const definition = VAPI_TOOL_DEFINITIONS[toolName];
+
+  if (!definition) {
+    return { success: false, error_code: "UNKNOWN_TOOL", issues: [{ field: "name", message: `Unknown tool: ${name}` }] };
+  }
+
+  // Legacy callers may send fields the current schema doesn't declare (e.g. service_description), so keep them
+  const schema: z.AnyZodObject = legacyName ? definition.parameters.passthrough() : definition.parameters;
+  const parsed = schema.safeParse(rawArguments ?? {});
+
+  if (!parsed.success) {
+    return {
+      success: false,
+      error_code: "INVALID_ARGUMENTS",
+      issues: parsed.error.issues.map((issue) => ({
+        field: issue.path.join(".") || "arguments",
+        message: issue.message,
+      })),
+    };
+  }
+
+  return { success: true, toolName, args: parsed.data };
+}
@@ -0,0 +1,185 @@
+import crypto from "crypto";
+import type { Practice } from "@prisma/client";
+import db from "@/lib/prisma";
+import { decryptSecret, encryptSecret } from "@/lib/encryption.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("vapi-webhook-secrets");
+
+/**
+ * Secrets Vapi sends with each practice's webhooks. Every practice's assistant is provisioned
+ * with its own random secret, and webhooks are verified against the practice resolved from
+ * the assistant id. After a rotation the previous secret is still accepted for a while, so
+ * calls already in progress keep working. VAPI_WEBHOOK_SECRET is only the fallback for
+ * assistants provisioned before practices had their own secret.
+ */
+
+// Placeholder this app used to ship with; it must never be accepted
+const DEFAULT_WEBHOOK_SECRET = "laine-webhook-secret-change-me";
+
+// How long the replaced secret is still accepted after a rotation; longer than the
+// assistant's maximum call duration
+export const SECRET_ROTATION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+type PracticeSecretFields = Pick<
+  Practice,
+  "vapi_webhook_secret_encrypted" | "vapi_webhook_previous_secret_encrypted" | "vapi_webhook_previous_secret_expires_at"
+>;
+
+/**
+ * Refuse to run with the placeholder secret; called once when the server starts
+ */
+export function assertVapiWebhookSecretConfigured() {
+  if (process.env.VAPI_WEBHOOK_SECRET === DEFAULT_WEBHOOK_SECRET) {
+    throw new Error(
+      `VAPI_WEBHOOK_SECRET is set to the placeholder "${DEFAULT_WEBHOOK_SECRET}". ` +
+        "Set a random value (e.g. `openssl rand -hex 32`) or unset it; practices provisioned since per-practice secrets get their own."
+    );
+  }
+}
+
+// The global fallback secret, if one is configured
+function getGlobalWebhookSecret(): string | null {
+  const secret = process.env.VAPI_WEBHOOK_SECRET;
+  return secret && secret !== DEFAULT_WEBHOOK_SECRET ? secret : null;
+}
+
+function generateWebhookSecret(): string {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+/**
+ * The secret the practice's assistant should send: its own, or the global fallback for
+ * practices that don't have one yet
+ */
+export function getPracticeWebhookSecret(practice: PracticeSecretFields): string | null {
+  if (practice.vapi_webhook_secret_encrypted) {
+    return decryptSecret(practice.vapi_webhook_secret_encrypted);
+  }
+  return getGlobalWebhookSecret();
+}
+
+/**
+ * Secrets a webhook for the practice may carry: the current one and, during a rotation
+ * window, the one it replaced. Webhooks for unknown assistants can only match the fallback.
+ * includeGlobal also accepts the fallback, for messages sent with a phone number's server
+ * settings rather than the assistant's, such as assistant-request.
+ */
+export function getAcceptedWebhookSecrets(
+  practice: PracticeSecretFields | null,
+  options: { includeGlobal?: boolean } = {}
+): string[] {
+  const globalSecret = getGlobalWebhookSecret();
+  if (!practice) {
+    return globalSecret ? [globalSecret] : [];
+  }
+
+  const secrets: string[] = [];
+  const current = getPracticeWebhookSecret(practice);
+  if (current) {
+    secrets.push(current);
+  }
+
+  if (
+    practice.vapi_webhook_previous_secret_encrypted &&
+    practice.vapi_webhook_previous_secret_expires_at &&
+    practice.vapi_webhook_previous_secret_expires_at > new Date()
+  ) {
+    secrets.push(decryptSecret(practice.vapi_webhook_previous_secret_encrypted));
+  }
+
+  if (options.includeGlobal && globalSecret && !secrets.includes(globalSecret)) {
+    secrets.push(globalSecret);
+  }
+
+  return secrets;
+}
+
+/**
+ * Get the practice's secret, generating and storing one the first time the assistant is
+ * provisioned. A practice moving off the global secret keeps accepting it for the rotation window.
+ */
+export async function getOrCreatePracticeWebhookSecret(practiceId: string): Promise<string> {
+  const practice = await db.practice.findUniqueOrThrow({
+    where: { id: practiceId },
+    select: { vapi_webhook_secret_encrypted: true },
+  });
+
+  if (practice.vapi_webhook_secret_encrypted) {
+    return decryptSecret(practice.vapi_webhook_secret_encrypted);
+  }
+
+  const secret = generateWebhookSecret();
+  const globalSecret = getGlobalWebhookSecret();
+
+  await db.practice.update({
+    where: { id: practiceId },
+    data: {
+      vapi_webhook_secret_encrypted: encryptSecret(secret),
+      vapi_webhook_previous_secret_encrypted: globalSecret ? encryptSecret(globalSecret) : null,
+      vapi_webhook_previous_secret_expires_at: globalSecret ? new Date(Date.now() + SECRET_ROTATION_WINDOW_MS) : null,
+    },
+  });
+
+  log.info("Generated Vapi webhook secret for practice", { practice_id: practiceId });
+  return secret;
+}
+
+/**
+ * Replace the practice's secret with a new one. The replaced secret is accepted until the
+ * returned expiry; the assistant must be re-provisioned to start sending the new one.
+ */
+export async function rotatePracticeWebhookSecret(practiceId: string): Promise<{ previousSecretExpiresAt: Date | null }> {
+  const practice = await db.practice.findUniqueOrThrow({
+    where: { id: practiceId },
+    select: { vapi_webhook_secret_encrypted: true },
+  });
+
+  const previousSecret = practice.vapi_webhook_secret_encrypted
+    ? decryptSecret(practice.vapi_webhook_secret_encrypted)
+    : getGlobalWebhookSecret();
+  const previousSecretExpiresAt = previousSecret ? new Date(Date.now() + SECRET_ROTATION_WINDOW_MS) : null;
+
+  await db.practice.update({
+    where: { id: practiceId },
+    data: {
+      vapi_webhook_secret_encrypted: encryptSecret(generateWebhookSecret()),
+      vapi_webhook_previous_secret_encrypted: previousSecret ? encryptSecret(previousSecret) : null,
+      vapi_webhook_previous_secret_expires_at: previousSecretExpiresAt,
+    },
+  });
+
+  log.info("Rotated Vapi webhook secret", { practice_id: practiceId });
+  return { previousSecretExpiresAt };
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+export type WebhookVerificationResult = "verified" | "invalid_secret" | "invalid_signature" | "unauthenticated";
+
+/**
+ * Check a webhook against the accepted secrets. Vapi either sends the secret itself in
+ * x-vapi-secret or an HMAC of the body in X-Vapi-Signature.
+ */
+export function verifyVapiWebhook(headers: Headers, rawBody: string, secrets: string[]): WebhookVerificationResult {
+  const vapiSecret = headers.get("x-vapi-secret");
+  const vapiSignature = headers.get("X-Vapi-Signature");
+
+  if (secrets.length === 0 || (!vapiSecret && !vapiSignature)) {
+    return "unauthenticated";
+  }
+
+  if (vapiSecret) {
+    return secrets.some((secret) => safeEqual(vapiSecret, secret)) ? "verified" : "invalid_secret";
+  }
+
+  const matches = secrets.some((secret) => {
+    const generatedSignature = crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+    return safeEqual(`sha256=${generatedSignature}`, vapiSignature!);
+  });
+  return matches ? "verified" : "invalid_signature";
+}
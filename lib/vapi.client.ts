@@ -1,3 +1,7 @@
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("vapi-api");
+
 interface VapiCall {
   id: string;
   assistantId: string;
@@ -47,7 +51,7 @@ class VapiService {
 
     if (!response.ok) {
       const errorText = await response.text();
-      console.error(`Vapi API error (${response.status}):`, errorText);
+      log.error("Vapi API error", { path: endpoint, status: response.status, response_body: errorText });
       throw new Error(`Vapi API error: ${response.status} ${response.statusText}`);
     }
 
@@ -63,7 +67,7 @@ class VapiService {
     } = {}
   ): Promise<VapiCall[]> {
     try {
-      console.log(`Fetching call logs for assistant: ${assistantId}`);
+      log.debug("Fetching call logs", { assistant_id: assistantId });
       
       const queryParams = new URLSearchParams({
         assistantId,
@@ -78,22 +82,22 @@ class VapiService {
       }
 
       const calls = await this.request<VapiCall[]>(`/call?${queryParams.toString()}`);
-      console.log(`Retrieved ${calls.length} calls for assistant ${assistantId}`);
+      log.debug("Retrieved call logs", { assistant_id: assistantId, count: calls.length });
       
       return calls;
     } catch (error) {
-      console.error(`Error fetching call logs for assistant ${assistantId}:`, error);
+      log.error("Error fetching call logs", { assistant_id: assistantId, error });
       throw error;
     }
   }
 
   async getCallById(callId: string): Promise<VapiCall> {
     try {
-      console.log(`Fetching call details for: ${callId}`);
+      log.debug("Fetching call details", { call_id: callId });
       const call = await this.request<VapiCall>(`/call/${callId}`);
       return call;
     } catch (error) {
-      console.error(`Error fetching call ${callId}:`, error);
+      log.error("Error fetching call", { call_id: callId, error });
       throw error;
     }
   }
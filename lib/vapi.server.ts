@@ -1,4 +1,11 @@
 import { VapiClient } from '@vapi-ai/server-sdk';
+import { VapiTool, buildVapiTools } from '@/lib/vapi-tools';
+import { createLogger } from '@/lib/logger.server';
+import { getOrCreatePracticeWebhookSecret } from '@/lib/vapi-webhook-secrets.server';
+import db from '@/lib/prisma';
+import { isPhoneNumberIdTakenByAnotherPractice } from '@/lib/practice-locations.server';
+
+const log = createLogger('vapi');
 
 // For now, we'll define a basic interface that matches our database schema
 interface PracticeData {
@@ -27,19 +34,6 @@ interface VapiPlayHTVoice {
   voiceId: string;
 }
 
-interface VapiTool {
-  type: "function";
-  function: {
-    name: string;
-    description: string;
-    parameters: {
-      type: "object";
-      properties: Record<string, any>;
-      required: string[];
-    };
-  };
-}
-
 interface VapiServer {
   url: string;
   secret: string;
@@ -86,9 +80,14 @@ export const BASE_SYSTEM_PROMPT = `You are LAINE, an AI dental assistant for {{P
 - The tool returns structured JSON with "success" field:
   - If success=true: Confirm the appointment type and duration with the patient
   - If success=false: Ask for clarification and try again with different wording
+  - If error_code is SERVICE_CLARIFICATION_NEEDED: ask which of the two services they meant, then call the tool again with their answer
 - Example: "Okay, a General Cleaning which takes about 60 minutes. Is that what you're looking for?"
 
 ### Step 3: Patient Identification
+- First use the **lookup_caller** tool to check the caller's number against our records
+  - If verification_required=true: ask for their date of birth and call lookup_caller again with it
+  - If it returns a patient_id: greet them by first name and skip to Step 4
+  - Otherwise continue below
 - Ask if they are a new or existing patient
 - Collect: first name, last name, phone number
 - For new patients, also collect: date of birth (optional), email (optional)
@@ -102,36 +101,47 @@ export const BASE_SYSTEM_PROMPT = `You are LAINE, an AI dental assistant for {{P
 - Use the **check_availability** tool with:
   - appointment_type_id (from Step 2)
   - duration_minutes (from Step 2)  
-  - requested_date and search_type
+  - requested_date (pass the patient's words as-is, e.g. "next Tuesday" — don't work out the date yourself) and search_type
+  - any preferences the patient mentioned: part_of_day, earliest_time/latest_time, weekdays, preferred_provider
 - The tool returns structured JSON with "success" field and available_slots
+- If it returns interpreted_date, confirm the date back to the patient (e.g. "That's Tuesday, June 3")
+- If it returns DATE_NOT_UNDERSTOOD, ask the patient for a specific date
 - Present the available times clearly to the patient
 
 ### Step 5: Appointment Booking
 - Once patient selects a specific time slot, use the **schedule_appointment** tool
-- Include all required information from previous steps:
-  - patient_id (from Step 3)
-  - appointment_type_id (from Step 2)
-  - start_time, end_time, provider_id (from selected slot in Step 4)
+- Pass the slot_number of the chosen slot from Step 4; the patient and appointment type from earlier steps are remembered for the call
 - The tool returns structured JSON with booking confirmation
 
+## EXISTING APPOINTMENTS
+- If the caller asks about, moves, or cancels an appointment they already have, use **get_patient_appointments** first
+- To move an appointment, use **reschedule_appointment** — never book a second appointment with schedule_appointment
+- To cancel, confirm which appointment with the patient, then use **cancel_appointment**
+
+## MULTIPLE OFFICES
+- Some practices have more than one office. If the caller names an office, use **select_location** with the name they gave
+- If check_appointment_type, check_availability or schedule_appointment returns LOCATION_REQUIRED, ask which of the listed offices the caller wants, call **select_location**, then retry the tool
+- If the caller switches offices, call select_location again and check availability again before booking
+
 ## TOOL USAGE GUIDELINES
 
 ### Always Use Structured JSON Results
 - All tools return JSON with a "success" field (true/false)
 - If success=true: Use the data and proceed to next step
 - If success=false: Handle the error_code and show message_to_patient to user
-- Pass data between tools using the structured results (e.g., patient_id from identify_patient to schedule_appointment)
+- Patient, appointment type and offered slots are remembered between tools for the whole call
 
 ### Error Handling
 - If any tool returns success=false, show the message_to_patient to the user
+- If schedule_appointment returns SLOT_NO_LONGER_AVAILABLE, offer the alternative slots it returns (they replace the earlier slot numbers)
 - For persistent errors, offer to have someone from the office call them back
 - Never expose technical_details to patients
 
 ### Data Flow Between Tools
 - check_appointment_type provides: appointment_type_id, duration_minutes
 - identify_patient provides: patient_id, is_new_patient  
-- check_availability provides: available_slots with start_time, end_time, provider_id
-- Use these outputs as inputs for subsequent tools
+- check_availability provides: available_slots, each with a slot_number
+- These values are remembered server-side for the rest of the call, so you don't need to repeat them; to book, just pass the slot_number
 
 ## COMMUNICATION STYLE
 - **Warm & Professional**: Sound like a caring member of the dental team
@@ -161,253 +171,105 @@ function createVapiClient() {
     throw new Error("VAPI_API_KEY not found in environment variables");
   }
 
-  console.log("Creating VapiClient instance...");
+  log.debug("Creating VapiClient instance");
   return new VapiClient({ token: process.env.VAPI_API_KEY });
 }
 
+// Where Vapi sends the practice's webhooks, signed with its own secret
+function buildServer(webhookSecret: string): VapiServer {
+  return {
+    url: `${process.env.NEXT_PUBLIC_APP_URL}/api/vapi/tool-handler`,
+    secret: webhookSecret
+  };
+}
+
 // Helper function to validate UUID format
 function isValidUUID(str: string): boolean {
   const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
   return uuidRegex.test(str);
 }
 
+// Call-specific additions when the assistant is assembled for an assistant-request
+export interface AssistantCallContext {
+  promptContext: string; // Appended to the system prompt, e.g. today's date and office hours
+  firstMessage?: string; // Replaces the default greeting
+}
+
+/**
+ * The practice's assistant configuration: saved on its Vapi assistant by
+ * createOrUpdateVapiAssistant, or returned for a single call with call context added
+ */
+export function buildAssistantPayload(
+  practiceData: PracticeData,
+  webhookSecret: string,
+  callContext?: AssistantCallContext
+): VapiAssistantPayload {
+  // Personalize the system prompt
+  const personalizedPrompt = BASE_SYSTEM_PROMPT
+    .replace(/{PRACTICE_NAME}/g, practiceData.name || "the dental practice")
+    .replace(/{PRACTICE_TIMEZONE}/g, practiceData.timezone || "America/New_York")
+    .replace(/{PRACTICE_CUSTOM_INSTRUCTIONS}/g, 
+      practiceData.vapi_system_prompt_override || "");
+
+  // Tool schemas are generated from the zod definitions in the tool registry
+  const VAPI_TOOLS = buildVapiTools();
+
+  return {
+    name: `LAINE - ${practiceData.name || practiceData.id}`,
+    model: {
+      provider: "openai",
+      model: "gpt-4o",
+      messages: [
+        {
+          role: "system",
+          content: callContext ? `${personalizedPrompt}\n\n${callContext.promptContext}` : personalizedPrompt
+        }
+      ],
+      tools: VAPI_TOOLS
+    },
+    voice: {
+      provider: "playht",
+      voiceId: practiceData.vapi_voice_id || "jennifer"
+    },
+    firstMessage: callContext?.firstMessage || practiceData.vapi_first_message || 
+      `Thank you for calling ${practiceData.name || "our dental practice"}. This is Laine, your AI receptionist. How can I help you today?`,
+    server: buildServer(webhookSecret),
+    clientMessages: ["speech-update", "transcript", "hang", "status-update"],
+    serverMessages: ["tool-calls", "speech-update", "transcript", "hang", "end-of-call-report", "status-update"],
+    recordingEnabled: true,
+    silenceTimeoutSeconds: 30,
+    maxDurationSeconds: 1800 // 30 minutes max call duration
+  };
+}
+
 export async function createOrUpdateVapiAssistant(
   practiceData: PracticeData
 ): Promise<string | null> {
   if (!process.env.VAPI_API_KEY) {
-    console.error("VAPI_API_KEY not configured. Cannot proceed with Vapi assistant creation.");
-    console.log("Falling back to mock assistant creation for development (VAPI_API_KEY missing)");
+    log.error("VAPI_API_KEY not configured. Cannot proceed with Vapi assistant creation.");
     const mockId = `mock_assistant_${practiceData.id}_${Date.now()}`;
-    console.log("Mock assistant ID generated:", mockId);
+    log.warn("Falling back to a mock assistant for development (VAPI_API_KEY missing)", { assistant_id: mockId });
     return mockId;
   }
 
   try {
-    console.log("Creating/updating Vapi assistant for practice:", practiceData.id);
+    log.info("Creating/updating Vapi assistant", { practice_id: practiceData.id });
     
-    // Personalize the system prompt
-    const personalizedPrompt = BASE_SYSTEM_PROMPT
-      .replace(/{PRACTICE_NAME}/g, practiceData.name || "the dental practice")
-      .replace(/{PRACTICE_TIMEZONE}/g, practiceData.timezone || "America/New_York")
-      .replace(/{PRACTICE_CUSTOM_INSTRUCTIONS}/g, 
-        practiceData.vapi_system_prompt_override || "");
-
-    // Define tool configurations for Vapi with explicit parameter schemas
-    const VAPI_TOOLS = [
-      {
-        type: "function" as const,
-        function: {
-          name: "identify_patient",
-          description: "Identify an existing patient or register a new patient in the practice management system. Call this after getting the patient's name, phone number, and determining if they are new or existing.",
-          parameters: {
-            type: "object",
-            properties: {
-              first_name: {
-                type: "string",
-                description: "Patient's first name"
-              },
-              last_name: {
-                type: "string", 
-                description: "Patient's last name"
-              },
-              phone_number: {
-                type: "string",
-                description: "Patient's phone number (10 digits, no formatting)"
-              },
-              date_of_birth: {
-                type: "string",
-                description: "Patient's date of birth in YYYY-MM-DD format (optional)"
-              },
-              email: {
-                type: "string",
-                description: "Patient's email address (optional)"
-              },
-              gender: {
-                type: "string",
-                description: "Patient's gender: Male, Female, or Other (optional)"
-              }
-            },
-            required: ["first_name", "last_name", "phone_number"]
-          }
-        }
-      },
-      {
-        type: "function" as const,
-        function: {
-          name: "check_appointment_type",
-          description: "Determines the appropriate appointment type based on the patient's stated reason for their visit. Use this after asking the patient why they need an appointment.",
-          parameters: {
-            type: "object",
-            properties: {
-              patient_reason_for_visit: {
-                type: "string",
-                description: "The patient's verbatim description of why they need an appointment (e.g., 'cleaning', 'check-up', 'toothache', 'consultation')"
-              }
-            },
-            required: ["patient_reason_for_visit"]
-          }
-        }
-      },
-      {
-        type: "function" as const,
-        function: {
-          name: "check_availability",
-          description: "Find available appointment slots for a specific appointment type. Use this after confirming the appointment type and patient preferences.",
-          parameters: {
-            type: "object",
-            properties: {
-              appointment_type_id: {
-                type: "string",
-                description: "The appointment type ID from check_appointment_type tool result"
-              },
-              duration_minutes: {
-                type: "number",
-                description: "Duration in minutes from check_appointment_type tool result"
-              },
-              requested_date: {
-                type: "string",
-                description: "Preferred date in YYYY-MM-DD format (optional, defaults to today)"
-              },
-              search_type: {
-                type: "string",
-                enum: ["specific_date", "next_available"],
-                description: "Whether to search for a specific date or find next available slots"
-              }
-            },
-            required: ["appointment_type_id"]
-          }
-        }
-      },
-      {
-        type: "function" as const,
-        function: {
-          name: "schedule_appointment",
-          description: "Book an appointment slot for a patient. Use this after the patient selects a specific time from available slots.",
-          parameters: {
-            type: "object",
-            properties: {
-              patient_id: {
-                type: "string",
-                description: "Patient ID from identify_patient tool result"
-              },
-              appointment_type_id: {
-                type: "string",
-                description: "Appointment type ID from check_appointment_type tool result"
-              },
-              start_time: {
-                type: "string",
-                description: "Appointment start time in ISO format from selected slot"
-              },
-              end_time: {
-                type: "string",
-                description: "Appointment end time in ISO format from selected slot"
-              },
-              provider_id: {
-                type: "string",
-                description: "Provider ID from selected slot"
-              },
-              operatory_id: {
-                type: "string",
-                description: "Operatory ID from selected slot (optional)"
-              },
-              note: {
-                type: "string",
-                description: "Additional notes about the appointment (optional)"
-              }
-            },
-            required: ["patient_id", "appointment_type_id", "start_time", "end_time", "provider_id"]
-          }
-        }
-      },
-      {
-        type: "function" as const,
-        function: {
-          name: "get_patient_appointments",
-          description: "Retrieves existing appointments for a patient.",
-          parameters: {
-            type: "object",
-            properties: {
-              patient_id: {
-                type: "string",
-                description: "NexHealth patient ID"
-              },
-              phone_number: {
-                type: "string",
-                description: "Patient's phone number as alternative identifier"
-              }
-            },
-            required: []
-          }
-        }
-      },
-      {
-        type: "function" as const,
-        function: {
-          name: "cancel_appointment",
-          description: "Cancels an existing appointment for a patient.",
-          parameters: {
-            type: "object",
-            properties: {
-              appointment_id: {
-                type: "string",
-                description: "NexHealth appointment ID to cancel"
-              },
-              patient_id: {
-                type: "string",
-                description: "Patient ID (optional if appointment_id provided)"
-              },
-              cancellation_reason: {
-                type: "string",
-                description: "Reason for cancellation (optional)"
-              }
-            },
-            required: ["appointment_id"]
-          }
-        }
-      }
-    ];
-
     // Initialize Vapi client
     const vapi = createVapiClient();
 
-    // Prepare assistant payload for Vapi API with proper typing
-    const assistantPayload: VapiAssistantPayload = {
-      name: `LAINE - ${practiceData.name || practiceData.id}`,
-      model: {
-        provider: "openai",
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: personalizedPrompt
-          }
-        ],
-        tools: VAPI_TOOLS as VapiTool[]
-      },
-      voice: {
-        provider: "playht",
-        voiceId: practiceData.vapi_voice_id || "jennifer"
-      },
-      firstMessage: practiceData.vapi_first_message || 
-        `Thank you for calling ${practiceData.name || "our dental practice"}. This is Laine, your AI receptionist. How can I help you today?`,
-      server: {
-        url: `${process.env.NEXT_PUBLIC_APP_URL}/api/vapi/tool-handler`,
-        secret: process.env.VAPI_WEBHOOK_SECRET || "laine-webhook-secret-change-me"
-      },
-      clientMessages: ["speech-update", "transcript", "hang", "status-update"],
-      serverMessages: ["tool-calls", "speech-update", "transcript", "hang", "end-of-call-report", "status-update"],
-      recordingEnabled: true,
-      silenceTimeoutSeconds: 30,
-      maxDurationSeconds: 1800 // 30 minutes max call duration
-    };
-
-    console.log("Assistant configuration prepared:", {
+    // The assistant sends the practice's own secret with every webhook
+    const webhookSecret = await getOrCreatePracticeWebhookSecret(practiceData.id);
+
+    const assistantPayload = buildAssistantPayload(practiceData, webhookSecret);
+
+    log.info("Assistant configuration prepared", {
       name: assistantPayload.name,
       voice: assistantPayload.voice.voiceId,
-      toolCount: assistantPayload.model.tools.length,
-      firstMessageLength: assistantPayload.firstMessage.length,
-      promptLength: personalizedPrompt.length,
-      serverUrl: assistantPayload.server.url
+      tool_count: assistantPayload.model.tools.length,
+      first_message_length: assistantPayload.firstMessage.length,
+      prompt_length: assistantPayload.model.messages[0].content.length,
+      server_url: assistantPayload.server.url
     });
 
     let assistantId: string;
@@ -418,53 +280,112 @@ export async function createOrUpdateVapiAssistant(
 
     if (hasValidAssistantId) {
       // Update existing assistant
-      console.log("Updating existing Vapi assistant:", practiceData.vapi_assistant_id);
+      log.info("Updating existing Vapi assistant", { assistant_id: practiceData.vapi_assistant_id });
       try {
         const updatedAssistant = await vapi.assistants.update(
           practiceData.vapi_assistant_id!,
           assistantPayload as any // Keep minimal 'as any' here due to SDK type limitations
         );
         assistantId = updatedAssistant.id;
-        console.log("Vapi assistant updated successfully:", assistantId);
+        log.info("Vapi assistant updated successfully", { assistant_id: assistantId });
       } catch (updateError) {
-        console.error("Failed to update assistant, will create new one:", updateError);
+        log.error("Failed to update assistant, will create new one", updateError);
         // If update fails, create a new assistant
         const newAssistant = await vapi.assistants.create(assistantPayload as any);
         assistantId = newAssistant.id;
-        console.log("New Vapi assistant created after update failure:", assistantId);
+        log.info("New Vapi assistant created after update failure", { assistant_id: assistantId });
       }
     } else {
       // Create new assistant (either no ID exists or it's not a valid UUID)
       if (practiceData.vapi_assistant_id) {
-        console.log("Existing assistant ID is not a valid UUID format, creating new assistant");
-        console.log("Invalid ID:", practiceData.vapi_assistant_id);
+        log.info("Existing assistant ID is not a valid UUID format, creating new assistant", {
+          assistant_id: practiceData.vapi_assistant_id,
+        });
       } else {
-        console.log("Creating new Vapi assistant");
+        log.info("Creating new Vapi assistant");
       }
-      console.log("Payload:", JSON.stringify(assistantPayload, null, 2));
+      log.debug("Vapi assistant payload", assistantPayload);
       const newAssistant = await vapi.assistants.create(assistantPayload as any);
       assistantId = newAssistant.id;
-      console.log("New Vapi assistant created successfully:", assistantId);
+      log.info("New Vapi assistant created successfully", { assistant_id: assistantId });
     }
 
+    // Numbers without an assistant send assistant-request with their own server settings
+    await updateVapiPhoneNumberServers(practiceData.id);
+
     return assistantId;
     
   } catch (error) {
-    console.error("Error creating/updating Vapi assistant:", error);
+    log.error("Error creating/updating Vapi assistant", error);
     
     // Enhanced error logging for debugging
     if (error instanceof TypeError && error.message.includes("is not a constructor")) {
-      console.error("This looks like an SDK import issue. VapiClient constructor not found.");
-      console.error("Error details:", error.message);
+      log.error("This looks like an SDK import issue. VapiClient constructor not found.", error);
     }
     
     if (error instanceof Error && 'body' in error) {
-      console.error("Vapi API Error Body:", (error as any).body);
+      log.error("Vapi API error body", { body: (error as any).body });
     }
     
-    console.log("Falling back to mock assistant creation for development");
     const mockAssistantId = `mock_assistant_${practiceData.id}_${Date.now()}`;
-    console.log("Mock assistant created:", mockAssistantId);
+    log.warn("Falling back to a mock assistant for development", { assistant_id: mockAssistantId });
     return mockAssistantId;
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Point the practice's Vapi phone numbers (its own and its active offices', or just
+ * phoneNumberIds) at the tool handler with the practice's webhook secret, so their
+ * assistant-requests are accepted without the global VAPI_WEBHOOK_SECRET.
+ * Failures are logged and don't stop the save that triggered them.
+ */
+export async function updateVapiPhoneNumberServers(
+  practiceId: string,
+  phoneNumberIds?: string[]
+): Promise<void> {
+  if (!process.env.VAPI_API_KEY) {
+    log.warn("VAPI_API_KEY not configured. Skipping Vapi phone number update.");
+    return;
+  }
+
+  try {
+    // Only numbers saved on this practice are updated, and never one another practice also claims
+    const practice = await db.practice.findUnique({
+      where: { id: practiceId },
+      select: {
+        vapi_phone_number_id: true,
+        locations: { where: { is_active: true }, select: { vapi_phone_number_id: true } },
+      },
+    });
+    const practiceIds = [
+      practice?.vapi_phone_number_id,
+      ...(practice?.locations.map((location) => location.vapi_phone_number_id) ?? []),
+    ].filter((id): id is string => !!id);
+
+    const idsToUpdate: string[] = [];
+    for (const id of new Set(phoneNumberIds ? practiceIds.filter((id) => phoneNumberIds.includes(id)) : practiceIds)) {
+      if (await isPhoneNumberIdTakenByAnotherPractice(id, practiceId)) {
+        log.warn("Not updating a Vapi phone number another practice also uses", { phone_number_id: id });
+        continue;
+      }
+      idsToUpdate.push(id);
+    }
+    if (idsToUpdate.length === 0) {
+      return;
+    }
+
+    const vapi = createVapiClient();
+    const server = buildServer(await getOrCreatePracticeWebhookSecret(practiceId));
+
+    for (const phoneNumberId of idsToUpdate) {
+      try {
+        await vapi.phoneNumbers.update(phoneNumberId, { server });
+        log.info("Vapi phone number server updated", { phone_number_id: phoneNumberId });
+      } catch (error) {
+        log.error("Failed to update Vapi phone number server", { phone_number_id: phoneNumberId, error });
+      }
+    }
+  } catch (error) {
+    log.error("Error updating Vapi phone numbers", error);
+  }
+}
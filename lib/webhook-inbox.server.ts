@@ -0,0 +1,196 @@
+import crypto from "crypto";
+import { Prisma, WebhookEvent } from "@prisma/client";
+import db from "@/lib/prisma";
+import { NexHealthWebhookPayloadSchema } from "@/lib/nexhealth-schemas";
+import { processNexHealthWebhookEvent } from "@/lib/nexhealth-webhook-events.server";
+import { processVapiCallEvent } from "@/lib/vapi-call-events.server";
+import { createLogger } from "@/lib/logger.server";
+
+const log = createLogger("webhook-inbox");
+
+/**
+ * Durable inbox for inbound webhooks. Verified NexHealth events and the Vapi messages worth
+ * keeping (tool calls, end-of-call reports, assistant requests) are stored before they are
+ * processed, so redelivered events are recognised and events that fail to process can be
+ * replayed from the admin area once the cause is fixed.
+ */
+
+export type WebhookSource = "nexhealth" | "vapi";
+
+export interface WebhookProcessingResult {
+  status: "processed" | "ignored" | "error";
+  message: string;
+}
+
+export interface InboundWebhookEvent {
+  source: WebhookSource;
+  eventType: string;
+  externalId?: string | null;
+  practiceId?: string | null;
+  rawBody: string;
+  payload: unknown;
+}
+
+const RESULT_STATUS: Record<WebhookProcessingResult["status"], string> = {
+  processed: "PROCESSED",
+  ignored: "IGNORED",
+  error: "FAILED",
+};
+
+export function hashWebhookPayload(rawBody: string): string {
+  return crypto.createHash("sha256").update(rawBody).digest("hex");
+}
+
+/**
+ * Store a verified event. Returns duplicate: true when the same event (by external id or
+ * payload hash) was already received and has not failed; a redelivered failed event is
+ * returned for another attempt. Database errors are thrown.
+ */
+export async function recordWebhookEvent(input: InboundWebhookEvent): Promise<{ event: WebhookEvent; duplicate: boolean }> {
+  const payloadHash = hashWebhookPayload(input.rawBody);
+
+  const existing = await db.webhookEvent.findFirst({
+    where: {
+      source: input.source,
+      OR: [{ payload_hash: payloadHash }, ...(input.externalId ? [{ external_id: input.externalId }] : [])],
+    },
+    orderBy: { created_at: "asc" },
+  });
+
+  if (existing) {
+    return { event: existing, duplicate: existing.status !== "FAILED" };
+  }
+
+  try {
+    const event = await db.webhookEvent.create({
+      data: {
+        source: input.source,
+        event_type: input.eventType,
+        external_id: input.externalId || null,
+        practice_id: input.practiceId || null,
+        payload_hash: payloadHash,
+        payload: input.payload as Prisma.InputJsonValue,
+      },
+    });
+    return { event, duplicate: false };
+  } catch (error) {
+    // The same payload arrived concurrently and the other request stored it first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      const event = await db.webhookEvent.findUniqueOrThrow({
+        where: { source_payload_hash: { source: input.source, payload_hash: payloadHash } },
+      });
+      return { event, duplicate: true };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run a stored event's processor and record the outcome on the event. Processor errors are
+ * recorded as a failed attempt and returned as an error result rather than thrown.
+ */
+export async function processWebhookEvent(
+  eventId: string | null,
+  processor: () => Promise<WebhookProcessingResult>
+): Promise<WebhookProcessingResult> {
+  let result: WebhookProcessingResult;
+  try {
+    result = await processor();
+  } catch (error) {
+    log.error("❌ Webhook event processing failed", { webhook_event_id: eventId, error });
+    result = { status: "error", message: error instanceof Error ? error.message : "Unknown error" };
+  }
+
+  if (eventId) {
+    await completeWebhookEvent(eventId, result);
+  }
+  return result;
+}
+
+/**
+ * Record the outcome of processing an event
+ */
+export async function completeWebhookEvent(eventId: string, result: WebhookProcessingResult) {
+  try {
+    await db.webhookEvent.update({
+      where: { id: eventId },
+      data: {
+        status: RESULT_STATUS[result.status],
+        result: result.message,
+        attempts: { increment: 1 },
+        processed_at: result.status === "error" ? null : new Date(),
+      },
+    });
+  } catch (error) {
+    log.error("Failed to record webhook event outcome", { webhook_event_id: eventId, error });
+  }
+}
+
+/**
+ * Recent events of a practice, newest first
+ */
+export async function listWebhookEvents(practiceId: string, options: { status?: string; limit?: number } = {}) {
+  return db.webhookEvent.findMany({
+    where: { practice_id: practiceId, ...(options.status && { status: options.status }) },
+    orderBy: { created_at: "desc" },
+    take: options.limit ?? 50,
+    select: {
+      id: true,
+      source: true,
+      event_type: true,
+      status: true,
+      result: true,
+      attempts: true,
+      processed_at: true,
+      created_at: true,
+    },
+  });
+}
+
+// Processors that can run a stored event again, by source
+const REPLAY_PROCESSORS: Record<WebhookSource, (event: WebhookEvent) => Promise<WebhookProcessingResult>> = {
+  nexhealth: async (event) => {
+    const payload = NexHealthWebhookPayloadSchema.safeParse(event.payload);
+    if (!payload.success) {
+      return { status: "error", message: "Malformed webhook payload" };
+    }
+    return processNexHealthWebhookEvent(payload.data);
+  },
+  vapi: async (event) => {
+    const message = (event.payload as { message?: any } | null)?.message;
+    if (message?.type === "tool-calls") {
+      // Tool results are only useful to the live call that asked for them
+      return { status: "error", message: "Tool calls are answered during the call and can't be replayed" };
+    }
+    if (!event.practice_id) {
+      return { status: "error", message: "Event has no practice" };
+    }
+    return processVapiCallEvent(message, { id: event.practice_id });
+  },
+};
+
+/**
+ * Process a failed event of the practice again through the handler that first received it.
+ * Returns null when the practice has no such event.
+ */
+export async function replayWebhookEvent(eventId: string, practiceId: string): Promise<WebhookProcessingResult | null> {
+  const event = await db.webhookEvent.findFirst({
+    where: { id: eventId, practice_id: practiceId },
+  });
+
+  if (!event) {
+    return null;
+  }
+
+  if (event.status !== "FAILED") {
+    return { status: "error", message: "Only failed events can be replayed" };
+  }
+
+  const processor = REPLAY_PROCESSORS[event.source as WebhookSource];
+  if (!processor) {
+    return { status: "error", message: `Unknown webhook source: ${event.source}` };
+  }
+
+  log.info("Replaying webhook event", { webhook_event_id: event.id, source: event.source, event_type: event.event_type });
+  return processWebhookEvent(event.id, () => processor(event));
+}
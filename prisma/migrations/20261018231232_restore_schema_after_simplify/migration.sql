@@ -0,0 +1,80 @@
+-- Brings the migration history back in line with schema.prisma, which had diverged from
+-- 20250531065210_simplify_schema. Databases created with `prisma db push` already match
+-- and should mark this migration as applied (`prisma migrate resolve --applied`).
+
+-- AlterTable
+ALTER TABLE "Practice" DROP COLUMN "appointment_types",
+DROP COLUMN "selected_provider_ids",
+DROP COLUMN "tool_webhook_secret",
+DROP COLUMN "tool_webhook_url",
+ADD COLUMN     "nexhealth_default_operatory_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "nexhealth_selected_provider_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "timezone" TEXT DEFAULT 'America/New_York',
+ADD COLUMN     "vapi_phone_number_id" TEXT,
+ADD COLUMN     "vapi_system_prompt_override" TEXT,
+ADD COLUMN     "webhook_error_message" TEXT,
+ADD COLUMN     "webhook_last_attempt" TIMESTAMP(3),
+ADD COLUMN     "webhook_last_success" TIMESTAMP(3),
+ADD COLUMN     "webhook_status" TEXT DEFAULT 'UNKNOWN',
+ADD COLUMN     "webhook_subscription_id" TEXT,
+ALTER COLUMN "name" DROP NOT NULL,
+ALTER COLUMN "nexhealth_subdomain" DROP NOT NULL,
+ALTER COLUMN "nexhealth_location_id" DROP NOT NULL,
+ALTER COLUMN "vapi_voice_id" DROP NOT NULL,
+ALTER COLUMN "vapi_voice_id" DROP DEFAULT,
+ALTER COLUMN "vapi_first_message" DROP NOT NULL,
+ALTER COLUMN "vapi_first_message" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "CallLog" DROP COLUMN "appointment_details",
+DROP COLUMN "appointment_id",
+DROP COLUMN "ended_at",
+DROP COLUMN "patient_id",
+DROP COLUMN "phone_number",
+DROP COLUMN "started_at",
+DROP COLUMN "status",
+DROP COLUMN "transcript",
+ADD COLUMN     "booked_appointment_end_time" TIMESTAMP(3),
+ADD COLUMN     "booked_appointment_nexhealth_id" TEXT,
+ADD COLUMN     "booked_appointment_note" TEXT,
+ADD COLUMN     "booked_appointment_operatory_id" TEXT,
+ADD COLUMN     "booked_appointment_patient_id" TEXT,
+ADD COLUMN     "booked_appointment_provider_id" TEXT,
+ADD COLUMN     "booked_appointment_start_time" TIMESTAMP(3),
+ADD COLUMN     "booked_appointment_type_id" TEXT,
+ADD COLUMN     "call_status" TEXT,
+ADD COLUMN     "call_timestamp_end" TIMESTAMP(3),
+ADD COLUMN     "call_timestamp_start" TIMESTAMP(3) NOT NULL,
+ADD COLUMN     "detected_intent" TEXT,
+ADD COLUMN     "ehr_appointment_foreign_id" TEXT,
+ADD COLUMN     "nexhealth_appointment_id" TEXT,
+ADD COLUMN     "nexhealth_patient_id" TEXT,
+ADD COLUMN     "patient_phone_number" TEXT,
+ADD COLUMN     "transcript_text" TEXT,
+ADD COLUMN     "vapi_transcript_url" TEXT;
+
+-- CreateTable
+CREATE TABLE "ServiceMapping" (
+    "id" TEXT NOT NULL,
+    "practice_id" TEXT NOT NULL,
+    "spoken_service_name" TEXT NOT NULL,
+    "nexhealth_appointment_type_id" TEXT NOT NULL,
+    "default_duration_minutes" INTEGER,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ServiceMapping_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ServiceMapping_practice_id_idx" ON "ServiceMapping"("practice_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ServiceMapping_practice_id_spoken_service_name_key" ON "ServiceMapping"("practice_id", "spoken_service_name");
+
+-- AddForeignKey
+ALTER TABLE "ServiceMapping" ADD CONSTRAINT "ServiceMapping_practice_id_fkey" FOREIGN KEY ("practice_id") REFERENCES "Practice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+
+
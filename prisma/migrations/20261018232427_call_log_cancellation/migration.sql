@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "CallLog" ADD COLUMN     "booked_appointment_cancellation_reason" TEXT,
+ADD COLUMN     "booked_appointment_cancelled_at" TIMESTAMP(3);
+
+
+
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "CallSession" (
+    "id" TEXT NOT NULL,
+    "practice_id" TEXT NOT NULL,
+    "vapi_call_id" TEXT NOT NULL,
+    "nexhealth_patient_id" TEXT,
+    "is_new_patient" BOOLEAN,
+    "appointment_type_id" TEXT,
+    "appointment_type_name" TEXT,
+    "duration_minutes" INTEGER,
+    "offered_slots" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CallSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CallSession_vapi_call_id_key" ON "CallSession"("vapi_call_id");
+
+-- CreateIndex
+CREATE INDEX "CallSession_practice_id_idx" ON "CallSession"("practice_id");
+
+-- AddForeignKey
+ALTER TABLE "CallSession" ADD CONSTRAINT "CallSession_practice_id_fkey" FOREIGN KEY ("practice_id") REFERENCES "Practice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+
+
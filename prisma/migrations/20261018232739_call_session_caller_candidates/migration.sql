@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "CallSession" ADD COLUMN     "caller_candidates" JSONB,
+ADD COLUMN     "caller_lookup_at" TIMESTAMP(3),
+ADD COLUMN     "caller_phone_number" TEXT;
+
+
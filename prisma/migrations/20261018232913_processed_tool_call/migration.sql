@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "ProcessedToolCall" (
+    "id" TEXT NOT NULL,
+    "practice_id" TEXT NOT NULL,
+    "vapi_call_id" TEXT NOT NULL,
+    "tool_call_id" TEXT NOT NULL,
+    "tool_name" TEXT NOT NULL,
+    "booking_fingerprint" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'IN_PROGRESS',
+    "result" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProcessedToolCall_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProcessedToolCall_tool_call_id_key" ON "ProcessedToolCall"("tool_call_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProcessedToolCall_booking_fingerprint_key" ON "ProcessedToolCall"("booking_fingerprint");
+
+-- CreateIndex
+CREATE INDEX "ProcessedToolCall_vapi_call_id_idx" ON "ProcessedToolCall"("vapi_call_id");
+
+-- AddForeignKey
+ALTER TABLE "ProcessedToolCall" ADD CONSTRAINT "ProcessedToolCall_practice_id_fkey" FOREIGN KEY ("practice_id") REFERENCES "Practice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "ServiceMapping" ADD COLUMN     "synonyms" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+
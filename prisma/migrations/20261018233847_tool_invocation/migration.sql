@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "ToolInvocation" (
+    "id" TEXT NOT NULL,
+    "vapi_call_id" TEXT NOT NULL,
+    "tool_call_id" TEXT,
+    "tool_name" TEXT NOT NULL,
+    "arguments" JSONB,
+    "success" BOOLEAN,
+    "error_code" TEXT,
+    "nexhealth_request_count" INTEGER NOT NULL DEFAULT 0,
+    "duration_ms" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ToolInvocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ToolInvocation_vapi_call_id_idx" ON "ToolInvocation"("vapi_call_id");
+
+-- AddForeignKey
+ALTER TABLE "ToolInvocation" ADD CONSTRAINT "ToolInvocation_vapi_call_id_fkey" FOREIGN KEY ("vapi_call_id") REFERENCES "CallLog"("vapi_call_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Practice" ADD COLUMN     "nexhealth_api_key_encrypted" TEXT;
+
+
@@ -0,0 +1,49 @@
+-- DropIndex
+DROP INDEX "ServiceMapping_practice_id_spoken_service_name_key";
+
+-- AlterTable
+ALTER TABLE "ServiceMapping" ADD COLUMN     "location_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "CallLog" ADD COLUMN     "location_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "CallSession" ADD COLUMN     "location_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "PracticeLocation" (
+    "id" TEXT NOT NULL,
+    "practice_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "nexhealth_location_id" TEXT NOT NULL,
+    "nexhealth_selected_provider_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "nexhealth_default_operatory_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "timezone" TEXT DEFAULT 'America/New_York',
+    "vapi_phone_number_id" TEXT,
+    "is_primary" BOOLEAN NOT NULL DEFAULT false,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PracticeLocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PracticeLocation_vapi_phone_number_id_key" ON "PracticeLocation"("vapi_phone_number_id");
+
+-- CreateIndex
+CREATE INDEX "PracticeLocation_practice_id_idx" ON "PracticeLocation"("practice_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PracticeLocation_practice_id_nexhealth_location_id_key" ON "PracticeLocation"("practice_id", "nexhealth_location_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ServiceMapping_practice_id_location_id_spoken_service_name_key" ON "ServiceMapping"("practice_id", "location_id", "spoken_service_name");
+
+-- AddForeignKey
+ALTER TABLE "PracticeLocation" ADD CONSTRAINT "PracticeLocation_practice_id_fkey" FOREIGN KEY ("practice_id") REFERENCES "Practice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ServiceMapping" ADD CONSTRAINT "ServiceMapping_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "PracticeLocation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "CallLog" ADD COLUMN     "booked_appointment_ehr_updated_at" TIMESTAMP(3),
+ADD COLUMN     "patient_ehr_foreign_id" TEXT;
+
+
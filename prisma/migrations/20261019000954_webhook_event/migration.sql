@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "WebhookEvent" (
+    "id" TEXT NOT NULL,
+    "practice_id" TEXT,
+    "source" TEXT NOT NULL,
+    "event_type" TEXT NOT NULL,
+    "external_id" TEXT,
+    "payload_hash" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'RECEIVED',
+    "result" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "processed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_source_external_id_idx" ON "WebhookEvent"("source", "external_id");
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_practice_id_status_idx" ON "WebhookEvent"("practice_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebhookEvent_source_payload_hash_key" ON "WebhookEvent"("source", "payload_hash");
+
+-- AddForeignKey
+ALTER TABLE "WebhookEvent" ADD CONSTRAINT "WebhookEvent_practice_id_fkey" FOREIGN KEY ("practice_id") REFERENCES "Practice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+
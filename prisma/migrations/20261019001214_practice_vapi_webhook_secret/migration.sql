@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Practice" ADD COLUMN     "vapi_webhook_previous_secret_encrypted" TEXT,
+ADD COLUMN     "vapi_webhook_previous_secret_expires_at" TIMESTAMP(3),
+ADD COLUMN     "vapi_webhook_secret_encrypted" TEXT;
+
+
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "PracticeLocation" ADD COLUMN     "office_hours" JSONB;
+
+-- CreateTable
+CREATE TABLE "OfficeClosure" (
+    "id" TEXT NOT NULL,
+    "practice_id" TEXT NOT NULL,
+    "location_id" TEXT,
+    "date" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OfficeClosure_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OfficeClosure_practice_id_date_idx" ON "OfficeClosure"("practice_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "OfficeClosure" ADD CONSTRAINT "OfficeClosure_practice_id_fkey" FOREIGN KEY ("practice_id") REFERENCES "Practice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OfficeClosure" ADD CONSTRAINT "OfficeClosure_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "PracticeLocation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+
@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "OutboundWebhookSubscription" (
+    "id" TEXT NOT NULL,
+    "practice_id" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "description" TEXT,
+    "event_types" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "secret_encrypted" TEXT NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OutboundWebhookSubscription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OutboundWebhookDelivery" (
+    "id" TEXT NOT NULL,
+    "subscription_id" TEXT NOT NULL,
+    "practice_id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "event_type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "response_status" INTEGER,
+    "last_error" TEXT,
+    "next_attempt_at" TIMESTAMP(3),
+    "delivered_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OutboundWebhookDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OutboundWebhookSubscription_practice_id_idx" ON "OutboundWebhookSubscription"("practice_id");
+
+-- CreateIndex
+CREATE INDEX "OutboundWebhookDelivery_practice_id_created_at_idx" ON "OutboundWebhookDelivery"("practice_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "OutboundWebhookDelivery_subscription_id_idx" ON "OutboundWebhookDelivery"("subscription_id");
+
+-- AddForeignKey
+ALTER TABLE "OutboundWebhookSubscription" ADD CONSTRAINT "OutboundWebhookSubscription_practice_id_fkey" FOREIGN KEY ("practice_id") REFERENCES "Practice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OutboundWebhookDelivery" ADD CONSTRAINT "OutboundWebhookDelivery_subscription_id_fkey" FOREIGN KEY ("subscription_id") REFERENCES "OutboundWebhookSubscription"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+
@@ -0,0 +1,6 @@
+-- Practice-wide mappings have a NULL location_id, which the (practice_id, location_id,
+-- spoken_service_name) unique index treats as distinct. Prisma can't express partial
+-- indexes in schema.prisma, so this one is maintained here.
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ServiceMapping_practice_wide_spoken_service_name_key" ON "ServiceMapping"("practice_id", "spoken_service_name") WHERE "location_id" IS NULL;
@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "OutboundWebhookDelivery_status_next_attempt_at_idx" ON "OutboundWebhookDelivery"("status", "next_attempt_at");
+
+-- Deliveries queued before the sweeper had no next_attempt_at; make them due now
+UPDATE "OutboundWebhookDelivery" SET "next_attempt_at" = CURRENT_TIMESTAMP WHERE "status" IN ('PENDING', 'RETRYING') AND "next_attempt_at" IS NULL;
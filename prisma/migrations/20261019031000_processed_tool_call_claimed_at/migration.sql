@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ProcessedToolCall" ADD COLUMN     "claimed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
@@ -0,0 +1,64 @@
+/**
+ * Fake NexHealth API
+ *
+ * Serves an in-memory NexHealth on localhost so booking flows can run end to end offline.
+ * Point the app at it with NEXHEALTH_API_BASE_URL=http://localhost:4010 and set the practice's
+ * NexHealth subdomain and location to the seeded values printed on startup.
+ *
+ * Usage: npm run fake-nexhealth
+ */
+
+import 'dotenv/config';
+import http from 'http';
+import { FAKE_NEXHEALTH_SEED, FakeNexHealth } from '@/lib/fake-nexhealth.server';
+
+const PORT = parseInt(process.env.FAKE_NEXHEALTH_PORT || '4010', 10);
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const WEBHOOK_SECRET = process.env.NEXHEALTH_WEBHOOK_SECRET || 'fake-nexhealth-webhook-secret';
+
+const fake = new FakeNexHealth({
+  webhookTargetUrl: `${APP_URL}/api/nexhealth/webhook`,
+  webhookSecret: WEBHOOK_SECRET,
+  webhookDelayMs: parseInt(process.env.FAKE_NEXHEALTH_WEBHOOK_DELAY_MS || '1000', 10),
+});
+
+const server = http.createServer((req, res) => {
+  let rawBody = '';
+  req.on('data', (chunk) => { rawBody += chunk; });
+  req.on('end', async () => {
+    let body: unknown;
+    try {
+      body = rawBody ? JSON.parse(rawBody) : undefined;
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ code: false, description: ['Invalid JSON body'] }));
+      return;
+    }
+
+    const response = await fake.handle({
+      method: req.method || 'GET',
+      url: new URL(req.url || '/', `http://localhost:${PORT}`),
+      authorization: req.headers.authorization || null,
+      body,
+    });
+
+    console.log(`${req.method} ${req.url} -> ${response.status}`);
+    res.writeHead(response.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response.body));
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 Fake NexHealth listening on http://localhost:${PORT}`);
+  console.log('\n📝 Configuration:');
+  console.log(`   NEXHEALTH_API_BASE_URL="http://localhost:${PORT}"`);
+  console.log('   NEXHEALTH_API_KEY="any-value"');
+  console.log(`   NEXHEALTH_WEBHOOK_SECRET="${WEBHOOK_SECRET}"`);
+  console.log('\n🏥 Seeded practice:');
+  console.log(`   Subdomain: ${FAKE_NEXHEALTH_SEED.subdomain}`);
+  console.log(`   Location ID: ${FAKE_NEXHEALTH_SEED.locationId}`);
+  console.log(`   Provider IDs: ${FAKE_NEXHEALTH_SEED.providerIds.join(', ')}`);
+  console.log(`   Operatory IDs: ${FAKE_NEXHEALTH_SEED.operatoryIds.join(', ')}`);
+  console.log(`   Appointment type IDs: ${FAKE_NEXHEALTH_SEED.appointmentTypeIds.join(', ')}`);
+  console.log(`\n📡 Appointment webhooks are sent to ${APP_URL}/api/nexhealth/webhook`);
+});
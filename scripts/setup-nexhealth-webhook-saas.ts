@@ -0,0 +1,144 @@
+/**
+ * SaaS NexHealth Webhook Setup
+ *
+ * This script sets up webhook integration for a SaaS platform with multiple practices.
+ * It creates ONE webhook endpoint that handles events from ALL practices.
+ *
+ * Usage:
+ *   npx tsx scripts/setup-nexhealth-webhook-saas.ts setup    # Initial setup - creates webhook endpoint
+ *   npx tsx scripts/setup-nexhealth-webhook-saas.ts add-practice SUBDOMAIN  # Subscribe new practice
+ */
+
+import 'dotenv/config';
+import { NexHealthClient } from '@/lib/nexhealth-client.server';
+import { NEXHEALTH_WEBHOOK_EVENTS } from '@/lib/nexhealth-webhook.server';
+
+const NEXHEALTH_API_KEY = process.env.NEXHEALTH_API_KEY;
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+const args = process.argv.slice(2);
+const command = args[0];
+const subdomain = args[1];
+
+if (!NEXHEALTH_API_KEY) {
+  console.error('❌ NEXHEALTH_API_KEY not found in environment variables');
+  process.exit(1);
+}
+
+function getClient(practiceSubdomain?: string) {
+  return new NexHealthClient({ apiKey: NEXHEALTH_API_KEY!, subdomain: practiceSubdomain });
+}
+
+async function findWebhookEndpoint() {
+  console.log('📋 Listing existing webhook endpoints...');
+
+  const webhookUrl = `${APP_URL}/api/nexhealth/webhook`;
+  const existingWebhooks = await getClient().listWebhookEndpoints();
+  return existingWebhooks.find(wh => wh.target_url === webhookUrl);
+}
+
+async function setupSaaSWebhook() {
+  try {
+    console.log('🚀 Setting up SaaS NexHealth webhook integration...\n');
+
+    // Check if webhook endpoint already exists
+    const existingWebhook = await findWebhookEndpoint();
+
+    let webhook;
+    if (existingWebhook) {
+      console.log('✅ Webhook endpoint already exists');
+      webhook = existingWebhook;
+    } else {
+      console.log('📡 Registering SaaS webhook endpoint...');
+      webhook = await getClient().createWebhookEndpoint(`${APP_URL}/api/nexhealth/webhook`);
+      console.log('✅ SaaS webhook endpoint registered');
+    }
+
+    console.log(`   URL: ${webhook.target_url}`);
+    console.log(`   ID: ${webhook.id}`);
+    console.log(`   🔐 SECRET: ${webhook.secret_key}`);
+
+    console.log('\n🎉 SaaS webhook setup complete!');
+    console.log('\n📝 Configuration:');
+    console.log(`   NEXHEALTH_WEBHOOK_SECRET="${webhook.secret_key}"`);
+    console.log(`   NEXHEALTH_WEBHOOK_ENDPOINT_ID="${webhook.id}"`);
+    console.log('\n📋 Next steps:');
+    console.log('1. Add the above environment variables to your .env file');
+    console.log('2. For each practice, run:');
+    console.log('   npx tsx scripts/setup-nexhealth-webhook-saas.ts add-practice SUBDOMAIN');
+    console.log('\nExample:');
+    console.log('   npx tsx scripts/setup-nexhealth-webhook-saas.ts add-practice xyz');
+
+  } catch (error) {
+    console.error('\n❌ Setup failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+async function addPractice(practiceSubdomain: string) {
+  try {
+    console.log(`🏥 Adding practice "${practiceSubdomain}" to webhook events...\n`);
+
+    // Get webhook endpoint ID from environment or list endpoints
+    let webhookEndpointId = process.env.NEXHEALTH_WEBHOOK_ENDPOINT_ID;
+
+    if (!webhookEndpointId) {
+      console.log('🔍 Finding webhook endpoint...');
+      const existingWebhook = await findWebhookEndpoint();
+
+      if (!existingWebhook) {
+        throw new Error('No webhook endpoint found. Run setup first: npx tsx scripts/setup-nexhealth-webhook-saas.ts setup');
+      }
+
+      webhookEndpointId = existingWebhook.id.toString();
+      console.log(`✅ Found webhook endpoint: ${webhookEndpointId}`);
+    }
+
+    console.log(`📋 Subscribing practice "${practiceSubdomain}" to appointment and patient events...`);
+    for (const webhookEvent of NEXHEALTH_WEBHOOK_EVENTS) {
+      await getClient(practiceSubdomain).subscribeToWebhookEvent(webhookEndpointId, webhookEvent);
+      console.log(`✅ Practice "${practiceSubdomain}" subscribed to ${webhookEvent.event} events`);
+    }
+
+    console.log(`\n🎉 Practice "${practiceSubdomain}" successfully added!`);
+    console.log('   Appointment and patient events will now be sent to your webhook endpoint.');
+
+  } catch (error) {
+    console.error(`\n❌ Failed to add practice "${practiceSubdomain}":`, error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+function showUsage() {
+  console.log('📚 SaaS NexHealth Webhook Setup');
+  console.log('\nUsage:');
+  console.log('  npx tsx scripts/setup-nexhealth-webhook-saas.ts setup');
+  console.log('    ↳ Initial setup - creates the main webhook endpoint');
+  console.log('');
+  console.log('  npx tsx scripts/setup-nexhealth-webhook-saas.ts add-practice SUBDOMAIN');
+  console.log('    ↳ Subscribe a practice to webhook events');
+  console.log('');
+  console.log('Examples:');
+  console.log('  npx tsx scripts/setup-nexhealth-webhook-saas.ts setup');
+  console.log('  npx tsx scripts/setup-nexhealth-webhook-saas.ts add-practice xyz');
+  console.log('  npx tsx scripts/setup-nexhealth-webhook-saas.ts add-practice sunnydale-dental');
+}
+
+// Main execution
+async function main() {
+  if (command === 'setup') {
+    await setupSaaSWebhook();
+  } else if (command === 'add-practice') {
+    if (!subdomain) {
+      console.error('❌ Subdomain required for add-practice command');
+      showUsage();
+      process.exit(1);
+    }
+    await addPractice(subdomain);
+  } else {
+    showUsage();
+    process.exit(1);
+  }
+}
+
+main();
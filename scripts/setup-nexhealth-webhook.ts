@@ -0,0 +1,72 @@
+/**
+ * Setup NexHealth Webhook
+ *
+ * This script registers a webhook endpoint with NexHealth and subscribes to appointment and patient events.
+ * It will output the webhook secret that you need to add to your .env file.
+ *
+ * Usage: npx tsx scripts/setup-nexhealth-webhook.ts
+ */
+
+import 'dotenv/config';
+import { NexHealthClient } from '@/lib/nexhealth-client.server';
+import { NEXHEALTH_WEBHOOK_EVENTS } from '@/lib/nexhealth-webhook.server';
+
+const NEXHEALTH_API_KEY = process.env.NEXHEALTH_API_KEY;
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const SUBDOMAIN = 'xyz'; // Replace with your practice subdomain
+
+if (!NEXHEALTH_API_KEY) {
+  console.error('❌ NEXHEALTH_API_KEY not found in environment variables');
+  process.exit(1);
+}
+
+const nexhealth = new NexHealthClient({ apiKey: NEXHEALTH_API_KEY, subdomain: SUBDOMAIN });
+
+async function registerWebhookEndpoint() {
+  console.log('📡 Registering webhook endpoint...');
+
+  const webhookUrl = `${APP_URL}/api/nexhealth/webhook`;
+  const webhook = await nexhealth.createWebhookEndpoint(webhookUrl);
+
+  console.log('✅ Webhook endpoint registered');
+  console.log(`   URL: ${webhookUrl}`);
+  console.log(`   ID: ${webhook.id}`);
+  console.log(`   🔐 SECRET: ${webhook.secret_key}`);
+
+  return webhook;
+}
+
+async function subscribeToEvents(webhookEndpointId: string) {
+  console.log('📋 Subscribing to appointment and patient events...');
+
+  for (const webhookEvent of NEXHEALTH_WEBHOOK_EVENTS) {
+    await nexhealth.subscribeToWebhookEvent(webhookEndpointId, webhookEvent);
+    console.log(`✅ Subscribed to ${webhookEvent.event} events`);
+  }
+}
+
+async function main() {
+  try {
+    console.log('🚀 Setting up NexHealth webhook integration...\n');
+
+    // Step 1: Register webhook endpoint
+    const webhook = await registerWebhookEndpoint();
+
+    // Step 2: Subscribe to events
+    await subscribeToEvents(webhook.id.toString());
+
+    console.log('\n🎉 Setup complete!');
+    console.log('\n📝 Next steps:');
+    console.log(`1. Add this to your .env file:`);
+    console.log(`   NEXHEALTH_WEBHOOK_SECRET="${webhook.secret_key}"`);
+    console.log('\n2. Restart your application');
+    console.log('\n3. Test a booking to verify webhook delivery');
+
+  } catch (error) {
+    console.error('\n❌ Setup failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run the setup
+main();